@@ -1,11 +1,37 @@
-import { GameState, Vector2, Stressor, AbilityState } from './types';
+import { GameState, Vector2, Stressor, AbilityState, RunSummary, UpgradePurchase, PendingBranchChoice, OfflineProgressSummary, GameCommand } from './types';
 import { GameConfig } from './GameConfig';
 import { SeededRandom } from './utils/Random';
-import { StressorSystem } from './systems/StressorSystem';
-import { AbilitySystem } from './systems/AbilitySystem';
-import { AbilityEffectSystem } from './systems/AbilityEffectSystem';
+import { StressorSystem, StressorSystemSnapshot, getStressorMaxHealth } from './systems/StressorSystem';
+import { AbilitySystem, AbilitySystemSnapshot } from './systems/AbilitySystem';
+import { AbilityEffectSystem, AbilityEffectSnapshot } from './systems/AbilityEffectSystem';
 import { GameSystemContext } from './systems/GameSystemContext';
 import { StatusEffectManager } from './systems/effects/StatusEffectManager';
+import { StatusEffectSnapshot } from './systems/effects/StatusEffect';
+import { InsightSystem, InsightSystemSnapshot } from './systems/InsightSystem';
+import { estimateOfflineProgress } from './systems/OfflineProgress';
+import { GameEventBus } from './systems/GameEvents';
+
+export const GAME_SNAPSHOT_VERSION = 7;
+
+/**
+ * Complete, JSON-safe simulation state of a run. Restoring it and continuing
+ * produces the same run as never having stopped (same seed state, same clock).
+ */
+export interface GameSnapshot {
+  version: number;
+  savedAt: number; // Wall-clock time of capture (ms since epoch); metadata only, never read by the simulation
+  playfield: { width: number; height: number };
+  state: GameState;
+  simulationTime: number;
+  tick: number;
+  stepAccumulator: number;
+  randomState: number; // Current SeededRandom state (state.randomSeed is the seed the run started from)
+  stressors: StressorSystemSnapshot;
+  abilities: AbilitySystemSnapshot;
+  abilityEffects: AbilityEffectSnapshot;
+  statusEffects: StatusEffectSnapshot;
+  insight: InsightSystemSnapshot;
+}
 
 export class Game {
   private state: GameState;
@@ -14,14 +40,19 @@ export class Game {
   public playfieldWidth: number; // Made public for SystemContext access
   public playfieldHeight: number; // Made public for SystemContext access
   
-  private stressorSystem: StressorSystem;
-  private abilitySystem: AbilitySystem;
-  private abilityEffectSystem: AbilityEffectSystem;
-  private statusEffectManager: StatusEffectManager;
-  private systemContext: GameSystemContext;
+  private stressorSystem!: StressorSystem;
+  private abilitySystem!: AbilitySystem;
+  private abilityEffectSystem!: AbilityEffectSystem;
+  private statusEffectManager!: StatusEffectManager;
+  private insightSystem!: InsightSystem;
+  private systemContext!: GameSystemContext;
+  private events = new GameEventBus(); // Lives as long as the Game, so subscriptions survive run resets
+  private stepAccumulator: number = 0; // Pace-scaled time not yet simulated (seconds)
+  private simulationTime: number = 0; // Simulated seconds since the run started (the gameplay clock)
+  private tick: number = 0; // Fixed simulation steps run since the run started
   
   private onStateChange?: (state: GameState) => void;
-  private onGameOver?: (data: { duration: number; wave: number; insight: number }) => void;
+  private onGameOver?: (summary: RunSummary) => void;
 
   constructor(width: number, height: number, seed?: number) {
     this.playfieldWidth = width;
@@ -29,8 +60,31 @@ export class Game {
     this.center = { x: width / 2, y: height / 2 };
     
     this.random = new SeededRandom(seed || Date.now());
+    this.state = this.createInitialState();
+    
+    this.createSystems();
+  }
+  
+  /**
+   * Create all simulation systems, replacing (and cleaning up) any previous ones.
+   * All gameplay timing reads the simulation clock, never wall-clock time.
+   */
+  private createSystems(): void {
+    this.abilityEffectSystem?.cleanup();
+    
+    const clock = () => this.simulationTime;
+    this.stressorSystem = new StressorSystem(this.center, this.playfieldWidth, this.playfieldHeight, this.random, clock, this.events);
+    this.abilitySystem = new AbilitySystem();
+    this.abilityEffectSystem = new AbilityEffectSystem();
+    this.statusEffectManager = new StatusEffectManager(clock);
+    this.insightSystem = new InsightSystem();
+    this.systemContext = new GameSystemContext(this, this.stressorSystem, this.abilitySystem, this.statusEffectManager, this.insightSystem, this.random);
     
-    this.state = {
+    this.abilityEffectSystem.initialize(this.systemContext);
+  }
+  
+  private createInitialState(): GameState {
+    return {
       serenity: GameConfig.MAX_SERENITY,
       maxSerenity: GameConfig.MAX_SERENITY,
       insight: 0,
@@ -41,59 +95,369 @@ export class Game {
       gameOver: false,
       randomSeed: this.random.getSeed()
     };
-    
-    // Initialize systems
-    this.stressorSystem = new StressorSystem(this.center, width, height, this.random);
-    this.abilitySystem = new AbilitySystem();
-    this.abilityEffectSystem = new AbilityEffectSystem();
-    this.statusEffectManager = new StatusEffectManager();
-    
-    // Create modular SystemContext
-    this.systemContext = new GameSystemContext(this, this.stressorSystem, this.abilitySystem, this.statusEffectManager, this.random);
   }
 
   setStateChangeCallback(callback: (state: GameState) => void): void {
     this.onStateChange = callback;
   }
 
-  setGameOverCallback(callback: (data: { duration: number; wave: number; insight: number }) => void): void {
+  setGameOverCallback(callback: (summary: RunSummary) => void): void {
     this.onGameOver = callback;
   }
 
+  /**
+   * Typed event bus for simulation events (subscribe instead of polling per-frame flags)
+   */
+  getEvents(): GameEventBus {
+    return this.events;
+  }
+
+  /**
+   * Advance the game by one frame of real time.
+   * Real time is scaled by pace and simulated in fixed steps, so high pace
+   * can't carry stressors through the breath AoE in a single update.
+   */
   update(deltaTime: number): void {
+    // Paused or ended: simulation, cooldowns and status effect timers are all frozen
+    if (this.state.isPaused || this.state.gameOver) return;
+    
+    // Per-frame bookkeeping for state the UI reads once per frame
+    this.insightSystem.update(deltaTime, this.systemContext); // Clear last frame's awards
+    
+    const frameDelta = Math.min(Math.max(deltaTime, 0), GameConfig.MAX_FRAME_DELTA);
+    this.stepAccumulator += frameDelta * this.state.pace;
+    
+    let steps = 0;
+    while (this.stepAccumulator >= GameConfig.SIMULATION_STEP && steps < GameConfig.MAX_SIMULATION_STEPS_PER_FRAME && !this.state.gameOver) {
+      this.step(GameConfig.SIMULATION_STEP);
+      this.stepAccumulator -= GameConfig.SIMULATION_STEP;
+      steps++;
+    }
+    
+    // Drop backlog we couldn't simulate this frame rather than falling further behind
+    if (steps >= GameConfig.MAX_SIMULATION_STEPS_PER_FRAME) {
+      this.stepAccumulator = Math.min(this.stepAccumulator, GameConfig.SIMULATION_STEP);
+    }
+    
+    // Update game state callbacks
+    if (this.onStateChange) {
+      this.onStateChange({ ...this.state });
+    }
+  }
+  
+  /**
+   * Run one fixed simulation step (deltaTime is already pace-scaled).
+   */
+  private step(deltaTime: number): void {
+    this.simulationTime += deltaTime;
+    this.tick++;
+    const serenityBefore = this.state.serenity;
+    
     // Wave management - Hybrid: Timer-based with early advance
-    const allStressorsDefeated = this.stressorSystem.getStressorCount() === 0;
+    // (a wave isn't cleared while scheduled stressors are still waiting to spawn)
+    const allStressorsDefeated = this.stressorSystem.getStressorCount() === 0 && !this.stressorSystem.hasPendingSpawns();
     
     if (allStressorsDefeated && this.state.waveTimer > 0) {
       // Early advance: All stressors defeated before timer expires
-      this.state.wave++;
-      this.state.waveTimer = 0;
-      this.stressorSystem.setWave(this.state.wave);
-      this.stressorSystem.spawnWave();
+      this.advanceWave(Math.max(0, GameConfig.WAVE_DURATION - this.state.waveTimer));
     } else {
       // Timer-based progression
       this.state.waveTimer += deltaTime;
       if (this.state.waveTimer >= GameConfig.WAVE_DURATION) {
-        this.state.wave++;
-        this.state.waveTimer = 0;
-        this.stressorSystem.setWave(this.state.wave);
-        this.stressorSystem.spawnWave();
+        this.advanceWave(0);
       }
     }
     
     // Update systems in order: expire effects, then abilities (to apply damage), then stressors (to check collision)
     // This ensures expired effects are removed before new ones are applied, and stressors can be killed by damage before they hit the player
-    this.statusEffectManager.update(deltaTime); // Expire duration-based effects
+    // Expire duration-based effects and deal the damage over time that came due, credited to each effect's source
+    for (const tick of this.statusEffectManager.update(deltaTime)) {
+      this.systemContext.damageStressor(tick.targetId, tick.damage, tick.source);
+    }
     this.abilitySystem.update(deltaTime, this.systemContext);
     this.abilityEffectSystem.update(deltaTime, this.systemContext); // Apply ability effects (damage stressors)
     this.stressorSystem.update(deltaTime, this.systemContext); // Update stressors and check collision (after damage)
     
-    // Update game state callbacks
+    // Award insight for stressors resolved by abilities this step
+    for (const resolved of this.stressorSystem.consumeResolvedStressors()) {
+      this.insightSystem.awardStressorResolved(resolved, this.systemContext);
+    }
+    
+    this.emitSerenityThresholds(serenityBefore, this.state.serenity);
+    
+    if (this.state.serenity <= 0) {
+      this.endRun();
+    }
+    
+    this.events.emit('tickCompleted', { tick: this.tick });
+  }
+  
+  /**
+   * Emit serenityThresholdCrossed for each configured threshold serenity passed this step
+   */
+  private emitSerenityThresholds(before: number, after: number): void {
+    if (before === after) return;
+    
+    const maxSerenity = this.state.maxSerenity;
+    for (const threshold of GameConfig.SERENITY_EVENT_THRESHOLDS) {
+      const level = threshold * maxSerenity;
+      if (before > level && after <= level) {
+        this.events.emit('serenityThresholdCrossed', { threshold, direction: 'down', serenity: after });
+      } else if (before <= level && after > level) {
+        this.events.emit('serenityThresholdCrossed', { threshold, direction: 'up', serenity: after });
+      }
+    }
+  }
+  
+  /**
+   * Serenity depleted: freeze the simulation and report the run summary
+   */
+  private endRun(): void {
+    this.modifyState({ serenity: 0, gameOver: true });
+    this.stepAccumulator = 0;
+    
+    if (this.onGameOver) {
+      this.onGameOver(this.getRunSummary());
+    }
+  }
+  
+  /**
+   * Current simulation time in seconds (the only clock gameplay code should use)
+   */
+  getSimulationTime(): number {
+    return this.simulationTime;
+  }
+  
+  /**
+   * Number of fixed simulation steps run since the run started
+   */
+  getTick(): number {
+    return this.tick;
+  }
+  
+  getRunSummary(): RunSummary {
+    return {
+      duration: this.simulationTime,
+      wave: this.state.wave,
+      insight: this.insightSystem.getTotalEarned()
+    };
+  }
+  
+  /**
+   * Advance exactly one fixed simulation tick while paused (developer single-step).
+   * Ignores pace so each step is the same size.
+   */
+  stepOnce(): void {
+    if (!this.state.isPaused) return;
+    this.advanceTick();
+  }
+  
+  /**
+   * Run exactly one fixed simulation tick, regardless of pace or pause.
+   * Replay playback drives the simulation through this so ticks line up with the recording.
+   */
+  advanceTick(): void {
+    if (this.state.gameOver) return;
+    
+    this.insightSystem.update(GameConfig.SIMULATION_STEP, this.systemContext);
+    this.step(GameConfig.SIMULATION_STEP);
+    
     if (this.onStateChange) {
       this.onStateChange({ ...this.state });
     }
   }
   
+  /**
+   * Apply a player command. Every input that changes the simulation goes through
+   * here, so accepted commands can be recorded (commandExecuted) and replayed.
+   * Returns false if the command was rejected (e.g. an unaffordable upgrade).
+   */
+  executeCommand(command: GameCommand): boolean {
+    let accepted: boolean;
+    switch (command.type) {
+      case 'setPace':
+        accepted = this.setPace(command.pace);
+        break;
+      case 'purchaseUpgrade':
+        accepted = this.purchaseUpgrade(command.ability) !== null;
+        break;
+      case 'chooseBranch':
+        accepted = this.chooseBranch(command.ability, command.branchId);
+        break;
+    }
+    
+    if (accepted) {
+      this.events.emit('commandExecuted', { tick: this.tick, command });
+    }
+    return accepted;
+  }
+  
+  pause(): void {
+    if (this.state.isPaused) return;
+    this.modifyState({ isPaused: true });
+  }
+  
+  resume(): void {
+    if (!this.state.isPaused) return;
+    // Discard partial step time so resuming doesn't jump ahead
+    this.stepAccumulator = 0;
+    this.modifyState({ isPaused: false });
+  }
+  
+  togglePause(): void {
+    if (this.state.isPaused) {
+      this.resume();
+    } else {
+      this.pause();
+    }
+  }
+  
+  isPaused(): boolean {
+    return this.state.isPaused;
+  }
+  
+  /**
+   * Buy the next level of an ability with insight.
+   * Cost is validated and deducted in the same call as the level is applied,
+   * so insight and level never diverge. Returns null if the purchase is not allowed.
+   */
+  private purchaseUpgrade(ability: keyof AbilityState): UpgradePurchase | null {
+    if (this.state.gameOver) return null;
+    
+    const cost = this.abilitySystem.getUpgradeCost(ability);
+    if (!this.abilitySystem.upgradeAbility(ability, this.state.insight)) {
+      return null;
+    }
+    
+    this.modifyState({ insight: this.state.insight - cost });
+    
+    const purchase: UpgradePurchase = {
+      ability,
+      level: this.abilitySystem.getAbilityLevel(ability),
+      cost
+    };
+    
+    this.events.emit('upgradePurchased', purchase);
+    
+    return purchase;
+  }
+  
+  canPurchaseUpgrade(ability: keyof AbilityState): boolean {
+    return !this.state.gameOver && this.abilitySystem.canUpgrade(ability, this.state.insight);
+  }
+  
+  /**
+   * Ability waiting on a branch choice, if any. Its upgrades are blocked until one is chosen.
+   */
+  getPendingBranchChoice(): PendingBranchChoice | null {
+    return this.abilitySystem.getPendingBranchChoice();
+  }
+  
+  /**
+   * Record a branch choice for an ability at its current branch point.
+   * Returns false if the ability isn't at a branch point or the branch isn't offered.
+   */
+  private chooseBranch(ability: keyof AbilityState, branchId: string): boolean {
+    if (this.state.gameOver) return false;
+    return this.abilitySystem.chooseBranch(ability, branchId);
+  }
+  
+  /**
+   * Set simulation pace (time-scale), clamped to the configured range.
+   * Returns false if pace is already at that value.
+   */
+  private setPace(pace: number): boolean {
+    const clamped = Math.max(GameConfig.PACE_MIN, Math.min(GameConfig.PACE_MAX, pace));
+    const rounded = Math.round(clamped * 100) / 100;
+    if (rounded === this.state.pace) return false;
+    this.modifyState({ pace: rounded });
+    return true;
+  }
+  
+  /**
+   * Change pace by a number of PACE_STEP increments (negative slows down).
+   */
+  adjustPace(steps: number): void {
+    this.executeCommand({ type: 'setPace', pace: this.state.pace + steps * GameConfig.PACE_STEP });
+  }
+  
+  /**
+   * Complete the current wave (if any) and spawn the next one
+   * @param timeRemaining Seconds left on the wave timer when the wave ended
+   */
+  private advanceWave(timeRemaining: number): void {
+    if (this.state.wave > 0) {
+      this.insightSystem.awardWaveCompleted(this.state.wave, timeRemaining, this.systemContext);
+    }
+    
+    this.startWave(this.state.wave + 1);
+  }
+  
+  /**
+   * Make a wave current with a fresh timer and spawn its stressors
+   */
+  private startWave(wave: number): void {
+    this.modifyState({ wave, waveTimer: 0 });
+    this.stressorSystem.setWave(wave);
+    this.stressorSystem.spawnWave();
+    this.events.emit('waveStarted', {
+      wave: this.state.wave,
+      stressorCount: this.stressorSystem.getStressorCount() + this.stressorSystem.getUpcomingSpawns(Infinity).length
+    });
+  }
+  
+  /**
+   * Credit a resumed run with progress for time spent away, using the coarse
+   * OfflineProgress model instead of stepping the simulation. Completed waves are
+   * replaced by a freshly spawned current wave; the simulation clock does not move.
+   * Returns null when the absence is too short to count or the run has ended.
+   * @param awayTime Wall-clock seconds since the run was saved
+   */
+  applyOfflineProgress(awayTime: number): OfflineProgressSummary | null {
+    if (this.state.gameOver || awayTime < GameConfig.OFFLINE_PROGRESS_MIN_SECONDS) return null;
+    
+    const creditedTime = Math.min(awayTime, GameConfig.OFFLINE_PROGRESS_MAX_SECONDS);
+    const stressors = this.stressorSystem.getStressors();
+    const pendingSpawns = this.stressorSystem.getUpcomingSpawns(Infinity);
+    const startWave = this.state.wave;
+    const startSerenity = this.state.serenity;
+    
+    const estimate = estimateOfflineProgress(creditedTime, {
+      wave: startWave,
+      waveTimer: this.state.waveTimer,
+      serenity: startSerenity,
+      maxSerenity: this.state.maxSerenity,
+      stressorCount: stressors.length + pendingSpawns.length,
+      stressorHealth: stressors.reduce((sum, s) => sum + s.health, 0) +
+        pendingSpawns.reduce((sum, pending) => sum + getStressorMaxHealth(pending.type, startWave), 0)
+    }, this.abilitySystem, this.insightSystem);
+    
+    this.modifyState({ serenity: estimate.serenity });
+    if (estimate.insightEarned > 0) {
+      this.insightSystem.awardOfflineProgress(estimate.insightEarned, estimate.endWave, this.systemContext);
+    }
+    
+    if (estimate.endWave !== startWave) {
+      // The waves that were in progress are over; start the current one fresh
+      for (const stressor of stressors) {
+        this.statusEffectManager.clear(stressor.id);
+      }
+      this.stressorSystem.clearAll();
+      this.startWave(estimate.endWave);
+    }
+    
+    return {
+      awayTime,
+      creditedTime,
+      startWave,
+      endWave: estimate.endWave,
+      wavesSurvived: estimate.wavesSurvived,
+      insightEarned: estimate.insightEarned,
+      serenityChange: estimate.serenity - startSerenity,
+      stalled: estimate.stalled
+    };
+  }
+  
   getStressors(): Stressor[] {
     return this.stressorSystem.getStressors();
   }
@@ -128,12 +492,65 @@ export class Game {
     });
   }
 
-  reset(): void {
-    this.state.serenity = GameConfig.MAX_SERENITY;
-    this.state.insight = 0;
-    this.state.wave = 0;
-    this.state.waveTimer = 0;
-    this.state.gameOver = false;
-    this.state.pace = 1.0;
+  /**
+   * Start a new run: replaces all simulation systems so no cooldowns, effects,
+   * stressors or breath cycle state carry over from the previous run.
+   * @param seed Seed for the new run (defaults to a fresh time-based seed)
+   */
+  reset(seed?: number): void {
+    this.random.setSeed(seed || Date.now());
+    this.state = this.createInitialState();
+    this.stepAccumulator = 0;
+    this.simulationTime = 0;
+    this.tick = 0;
+    this.createSystems();
+  }
+
+  /**
+   * Capture the full simulation state for save/resume
+   */
+  createSnapshot(): GameSnapshot {
+    return {
+      version: GAME_SNAPSHOT_VERSION,
+      savedAt: Date.now(),
+      playfield: { width: this.playfieldWidth, height: this.playfieldHeight },
+      state: { ...this.state },
+      simulationTime: this.simulationTime,
+      tick: this.tick,
+      stepAccumulator: this.stepAccumulator,
+      randomState: this.random.getSeed(),
+      stressors: this.stressorSystem.getSnapshot(),
+      abilities: this.abilitySystem.getSnapshot(),
+      abilityEffects: this.abilityEffectSystem.getSnapshot(),
+      statusEffects: this.statusEffectManager.getSnapshot(),
+      insight: this.insightSystem.getSnapshot()
+    };
+  }
+
+  /**
+   * Replace the current run with a snapshot from createSnapshot.
+   * The run continues on the playfield it was saved on, since stressor positions
+   * are playfield coordinates. Returns false (leaving the current run untouched)
+   * if the snapshot was written by an incompatible version.
+   */
+  restoreSnapshot(snapshot: GameSnapshot): boolean {
+    if (snapshot.version !== GAME_SNAPSHOT_VERSION) return false;
+    
+    this.playfieldWidth = snapshot.playfield.width;
+    this.playfieldHeight = snapshot.playfield.height;
+    this.center = { x: snapshot.playfield.width / 2, y: snapshot.playfield.height / 2 };
+    this.random.setSeed(snapshot.randomState);
+    this.state = { ...snapshot.state };
+    this.simulationTime = snapshot.simulationTime;
+    this.tick = snapshot.tick;
+    this.stepAccumulator = snapshot.stepAccumulator;
+    
+    this.createSystems();
+    this.stressorSystem.restoreSnapshot(snapshot.stressors);
+    this.abilitySystem.restoreSnapshot(snapshot.abilities);
+    this.abilityEffectSystem.restoreSnapshot(snapshot.abilityEffects);
+    this.statusEffectManager.restoreSnapshot(snapshot.statusEffects);
+    this.insightSystem.restoreSnapshot(snapshot.insight);
+    return true;
   }
 }
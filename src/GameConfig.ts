@@ -1,3 +1,5 @@
+import type { SpawnCurve } from './systems/SpawnScheduler';
+
 export const GameConfig = {
   // Core System Values
   MAX_SERENITY: 100,
@@ -15,9 +17,25 @@ export const GameConfig = {
   BREATHE_BASE_DAMAGE_PER_SECOND: 5, // Base damage dealt per second
   BREATHE_DAMAGE_SCALING: 0.1, // Per-level damage multiplier (+10% per level)
   BREATHE_SLOW_STRENGTH: 0.5, // 50% slow (0.5x speed multiplier) applied while in breath AoE
+  BREATHE_RHYTHMIC_INTERVAL: 1, // Rhythmic branch: seconds between damage pulses (scaled by cooldown branch effects)
+  BREATHE_EXECUTE_HEALTH_THRESHOLD: 0.3, // Overwhelming branch: health fraction below which an execute is rolled
+  
+  // Simulation Pace
+  PACE_MIN: 0.25, // Slowest simulation time-scale
+  PACE_MAX: 4.0, // Fastest simulation time-scale
+  PACE_STEP: 0.25, // Pace change per key press
+  SIMULATION_STEP: 1 / 60, // Fixed simulation step in seconds (pace-scaled frame time is subdivided into these)
+  MAX_SIMULATION_STEPS_PER_FRAME: 16, // Cap on steps per frame; excess backlog is dropped
+  MAX_FRAME_DELTA: 0.25, // Clamp on real frame time in seconds (e.g. after a background tab)
   
   // Wave Configuration
   WAVE_DURATION: 60, // seconds
+  WAVE_SCRIPTS_ENABLED: true, // Authored waves (config/waves.json) override the procedural formula where scripted
+  SPAWN_CURVE: 'front_loaded' as SpawnCurve, // How a wave's stressors are spread over the spawn window (see SpawnScheduler)
+  SPAWN_WINDOW: 20, // Seconds from the start of a wave over which its stressors arrive
+  SPAWN_PULSE_COUNT: 4, // Bursts per wave for the 'pulses' curve
+  SPAWN_TELEGRAPH_TIME: 1.0, // Seconds an edge telegraph shows before a stressor arrives
+  SERENITY_EVENT_THRESHOLDS: [0.75, 0.5, 0.25, 0.1], // Fractions of max serenity that emit serenityThresholdCrossed events
   WAVE_15_TARGET_DEFEAT: true, // Must be defeated by wave 15
   
   // Stressor Collision Damage
@@ -30,54 +48,7 @@ export const GameConfig = {
   STRESSOR_HEALTH_MULTIPLIER: 1.2, // per wave
   STRESSOR_BASE_SPEED: 180, // pixels per second (6x faster than original)
   STRESSOR_SPEED_MULTIPLIER: 1.1, // per wave
-  
-  // Stressor Type Specific
-  STRESSOR_TYPES: {
-    intrusive_thought: {
-      speed: 1.0,
-      health: 1.0,
-      color: '#8B9DC3'
-    },
-    time_pressure: {
-      speed: 1.8,
-      health: 0.7,
-      color: '#FFB347'
-    },
-    environmental_noise: {
-      speed: 0.9,
-      health: 0.8,
-      color: '#C8A2C8',
-      wobble: true
-    },
-    expectation: {
-      speed: 0.6,
-      health: 1.2,
-      color: '#FF6B6B',
-      orbit: true
-    },
-    fatigue: {
-      speed: 0.4,
-      health: 2.0,
-      color: '#4A5568',
-      auraResist: 0.5
-    },
-    impulse: {
-      speed: 1.0,
-      health: 0.9,
-      color: '#FF4757',
-      acceleration: true
-    },
-    self_doubt: {
-      speed: 0.8,
-      health: 1.1,
-      color: '#A0A0A0' // Placeholder - will be replaced by color interpolation
-    },
-    overwhelm: {
-      speed: 1.2,
-      health: 0.9,
-      color: '#FF69B4' // Placeholder - will be replaced by color interpolation
-    }
-  },
+  STRESSOR_FRAGMENT_CAP: 24, // Most split fragments alive at once; further splits spawn nothing
   
   // Ability Configuration
   AFFIRM_MAX_TARGETS: 3,
@@ -104,6 +75,10 @@ export const GameConfig = {
   RECENTER_PULSE_SPEED: 200, // pixels per second expansion speed
   RECENTER_BASE_SLOW: 0.5, // 50% speed
   RECENTER_SLOW_SCALING: 0.05, // per level
+  RECENTER_CASCADE_RADIUS: 120, // Cascading branch: pixels a pulse chains from each stressor it slows
+  RECENTER_RESONANT_MAX_STACKS: 5, // Resonant branch: cap on pulses adding to the next pulse radius
+  RECENTER_MARK_VULNERABILITY: 1.15, // Damage taken multiplier on stressors a pulse touches (marked)
+  RECENTER_MARK_DURATION: 4, // seconds a mark lasts after the pulse last touched the stressor
   
   // Affirm - Ability Amplifier
   AFFIRM_DURATION: 10, // seconds active
@@ -123,6 +98,7 @@ export const GameConfig = {
   EXHALE_SLOW_DURATION_SCALING: 0.2, // +0.2s per level
   EXHALE_COOLDOWN_SCALING: 0.5, // -0.5s per level
   EXHALE_EARLY_TRIGGER_SERENITY: 50, // Auto-trigger if Serenity <= 50%
+  EXHALE_EXTENDED_RADIUS_STEP: 200, // Extended branch: pixels each extra wave reaches past the outermost radius
   
   // Reflect - Reactive defensive barrier
   REFLECT_TRIGGER_SERENITY: 25, // Auto-trigger if Serenity <= 25%
@@ -140,6 +116,9 @@ export const GameConfig = {
   MANTRA_SLOW_STRENGTH: 0.8, // 0.8x speed = 20% slow
   MANTRA_DAMAGE_SCALING: 0.1, // +10% per level
   MANTRA_DURATION_SCALING: 0.3, // +0.3s per level
+  MANTRA_SPLIT_DAMAGE: 0.5, // Split branch: damage fraction dealt to extra targets
+  MANTRA_EXPOSE_VULNERABILITY: 1.2, // Damage taken multiplier on the beam's primary target (exposed)
+  MANTRA_EXPOSE_DURATION: 2, // seconds exposure lingers after the beam leaves a target
   
   // Ground - Area trap
   GROUND_COOLDOWN: 10, // seconds
@@ -160,6 +139,7 @@ export const GameConfig = {
   RELEASE_COOLDOWN: 90, // seconds
   RELEASE_DAMAGE_SCALING: 0.1, // +10% per level
   RELEASE_SERENITY_SCALING: 0.05, // +5% per level
+  RELEASE_STILLING_SLOW: 0.5, // Stilling branch: speed multiplier on stressors caught by Release
   
   // Align - Rhythmic modulator
   ALIGN_CYCLE_DURATION: 6, // seconds (3s offense / 3s defense)
@@ -172,11 +152,31 @@ export const GameConfig = {
   AFFIRM_SERENITY_RESTORE: 2,
   
   // Insight and Upgrades
-  INSIGHT_BASE: 5,
-  INSIGHT_PER_WAVE: 1,
+  INSIGHT_BASE: 5, // Insight per resolved stressor (before type multiplier)
+  INSIGHT_PER_WAVE: 1, // Additional insight per resolved stressor for each wave after the first
+  INSIGHT_WAVE_CLEAR_BASE: 10, // Insight for completing a wave
+  INSIGHT_WAVE_CLEAR_PER_WAVE: 2, // Additional wave completion insight per wave
+  INSIGHT_EARLY_CLEAR_BONUS: 0.5, // Max bonus (fraction of wave reward) for clearing before the timer, scaled by time remaining
   UPGRADE_COST_BASE: 20,
   UPGRADE_COST_MULTIPLIER: 1.5,
   
+  // Save / resume
+  AUTOSAVE_INTERVAL_MS: 10000, // Wall-clock interval between autosaves of the current run
+  OFFLINE_PROGRESS_MIN_SECONDS: 60, // Shorter absences are not credited with offline progress
+  OFFLINE_PROGRESS_MAX_SECONDS: 8 * 60 * 60, // Cap on the absence credited with offline progress
+  OFFLINE_AREA_TARGETS: 3, // Offline estimate: average stressors caught by each area ability
+  OFFLINE_SERENITY_FLOOR: 0.25, // Offline estimate: fraction of max serenity at which progress stops (the run can't end offline)
+  
+  // Replays
+  STATE_HASH_INTERVAL_TICKS: 30, // Recorded runs hash their state every this many ticks (checked during playback)
+  REPLAY_SPEED_MIN: 0.25, // Slowest playback speed
+  REPLAY_SPEED_MAX: 16, // Fastest playback speed
+  REPLAY_MAX_TICKS_PER_FRAME: 64, // Cap on ticks played back per frame; excess is dropped like live play
+  
+  // Rewind (dev builds)
+  REWIND_BUFFER_SECONDS: 30, // Simulation seconds of snapshots kept for scrubbing back
+  REWIND_CAPTURE_RATE: 4, // Snapshots per simulation second
+  
   // Performance
   TARGET_FPS: 60,
   PERFORMANCE_THRESHOLD: 55, // Keep for backward compatibility
@@ -191,6 +191,7 @@ export const GameConfig = {
   
   // Debug
   DEBUG_SHOW_RINGS: 0, // 0 = off, 1 = on - Show concentric debug rings every 50px
+  DEBUG_SHOW_AURAS: 0, // 0 = off, 1 = on - Outline each stressor aura's radius
   
   // Colors (High Serenity)
   COLOR_HIGH_SERENITY: {
@@ -160,6 +160,29 @@ export class AudioSystem {
     osc.stop(this.audioContext.currentTime + duration);
   }
 
+  /**
+   * Rising chime for an upgrade purchase - higher levels ring higher
+   */
+  playUpgradeSound(level: number): void {
+    if (!this.audioContext || !this.masterGain || !this.isInitialized) return;
+    if (this.reducedMotion) return;
+    
+    const duration = 0.35;
+    const osc = this.audioContext.createOscillator();
+    const gain = this.audioContext.createGain();
+    
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(440 + level * 40, this.audioContext.currentTime);
+    osc.frequency.exponentialRampToValueAtTime(660 + level * 60, this.audioContext.currentTime + duration);
+    gain.gain.setValueAtTime(0.1, this.audioContext.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.01, this.audioContext.currentTime + duration);
+    
+    osc.connect(gain);
+    gain.connect(this.masterGain);
+    osc.start();
+    osc.stop(this.audioContext.currentTime + duration);
+  }
+
   stop(): void {
     this.ambientOscillators.forEach(osc => {
       try {
@@ -6,6 +6,8 @@
  * implementation, providing type-safe ability configurations.
  */
 
+import { AbilityBranchConfig } from '../systems/AbilityBranches';
+
 export type AbilityType = 
   | 'breathe'
   | 'recenter'
@@ -75,6 +77,8 @@ export interface AbilityDefinition {
   maxLevel: number;
   /** Branch points (levels where branching occurs) */
   branchPoints: number[];
+  /** Branch ids offered at each branch point, read from AbilityBranchConfig (where their effects live) */
+  branches: Record<number, string[]>;
 }
 
 /**
@@ -108,6 +112,7 @@ export const AbilityDefinitions: Record<AbilityType, AbilityDefinition> = {
     },
     maxLevel: 10,
     branchPoints: [3, 6, 9],
+    branches: branchIdsOf('breathe'),
   },
   recenter: {
     id: 'recenter',
@@ -136,6 +141,7 @@ export const AbilityDefinitions: Record<AbilityType, AbilityDefinition> = {
     },
     maxLevel: 10,
     branchPoints: [3, 6, 9],
+    branches: branchIdsOf('recenter'),
   },
   affirm: {
     id: 'affirm',
@@ -163,6 +169,7 @@ export const AbilityDefinitions: Record<AbilityType, AbilityDefinition> = {
     },
     maxLevel: 10,
     branchPoints: [3, 6, 9],
+    branches: branchIdsOf('affirm'),
   },
   exhale: {
     id: 'exhale',
@@ -191,6 +198,7 @@ export const AbilityDefinitions: Record<AbilityType, AbilityDefinition> = {
     },
     maxLevel: 10,
     branchPoints: [3, 6, 9],
+    branches: branchIdsOf('exhale'),
   },
   reflect: {
     id: 'reflect',
@@ -217,6 +225,7 @@ export const AbilityDefinitions: Record<AbilityType, AbilityDefinition> = {
     },
     maxLevel: 10,
     branchPoints: [3, 6, 9],
+    branches: branchIdsOf('reflect'),
   },
   mantra: {
     id: 'mantra',
@@ -243,6 +252,7 @@ export const AbilityDefinitions: Record<AbilityType, AbilityDefinition> = {
     },
     maxLevel: 10,
     branchPoints: [3, 6, 9],
+    branches: branchIdsOf('mantra'),
   },
   ground: {
     id: 'ground',
@@ -271,6 +281,7 @@ export const AbilityDefinitions: Record<AbilityType, AbilityDefinition> = {
     },
     maxLevel: 10,
     branchPoints: [3, 6, 9],
+    branches: branchIdsOf('ground'),
   },
   release: {
     id: 'release',
@@ -297,6 +308,7 @@ export const AbilityDefinitions: Record<AbilityType, AbilityDefinition> = {
     },
     maxLevel: 10,
     branchPoints: [3, 6, 9],
+    branches: branchIdsOf('release'),
   },
   align: {
     id: 'align',
@@ -321,6 +333,7 @@ export const AbilityDefinitions: Record<AbilityType, AbilityDefinition> = {
     },
     maxLevel: 10,
     branchPoints: [3, 6, 9],
+    branches: branchIdsOf('align'),
   },
 };
 
@@ -345,3 +358,14 @@ export function getAbilityVisual(id: AbilityType): AbilityVisualExpression {
   return AbilityDefinitions[id].visual;
 }
 
+
+/**
+ * Branch ids an ability offers at each branch point
+ */
+function branchIdsOf(id: AbilityType): Record<number, string[]> {
+  const branches: Record<number, string[]> = {};
+  for (const [level, options] of Object.entries(AbilityBranchConfig[id] ?? {})) {
+    branches[Number(level)] = options.map(branch => branch.id);
+  }
+  return branches;
+}
@@ -1,5 +1,5 @@
 import { AbilityType } from './AbilityDefinitions';
-import { StressorType } from '../types';
+import { StressorDefinition, getAllStressorDefinitions } from './StressorDefinitions';
 
 /**
  * Interaction Configuration
@@ -7,54 +7,50 @@ import { StressorType } from '../types';
  * Defines how abilities interact with stressors:
  * - Resistance: Stressor resists ability effects (0-1 multiplier, e.g., 0.5 = 50% resistance)
  * - Vulnerability: Stressor takes extra damage/effects (>1 multiplier, e.g., 2.0 = 2x damage)
- * - Special effects: Unique interactions (e.g., aura debuffs)
+ * 
+ * Interactions are declared per stressor in the stressor definitions (stressors.json);
+ * auras live there too and are registered with the StatusEffectManager by StressorSystem.
  */
 export interface InteractionConfig {
   abilityType: AbilityType;
-  stressorType: StressorType;
+  stressorType: string;
   resistance?: number;      // 0-1, e.g., 0.5 = 50% resistance
   vulnerability?: number;  // >1, e.g., 2.0 = 2x damage
-  specialEffects?: string[]; // e.g., 'exhaustion_aura', 'self_sabotage_aura'
 }
 
 /**
- * Complete interaction configuration matching design specifications.
+ * All ability-stressor interactions declared by the stressor definitions.
  * 
  * Reference: docs/design/STRESSORS.md - "Ability-Stressor Interactions"
- * 
- * Note: Self-Doubt and Overwhelm interactions are deferred until these stressor types
- * are implemented in the codebase.
  */
-export const InteractionConfigs: InteractionConfig[] = [
-  // Fatigue: 50% resistance to Breath ability
-  {
-    abilityType: 'breathe',
-    stressorType: StressorType.Fatigue,
-    resistance: 0.5,
-    specialEffects: ['exhaustion_aura']
-  },
-  
-  // Self-Doubt: 2x vulnerability to Affirm
-  {
-    abilityType: 'affirm',
-    stressorType: StressorType.SelfDoubt,
-    vulnerability: 2.0,
-    specialEffects: ['self_sabotage_aura']
-  },
-  
-  // Overwhelm interactions (deferred - stressor type not implemented)
-  // Add when Overwhelm stressor type is added to StressorType enum
-];
+export function getInteractionConfigs(): InteractionConfig[] {
+  const definitions = getAllStressorDefinitions();
+  if (definitions !== cachedDefinitions) {
+    cachedDefinitions = definitions;
+    cachedConfigs = definitions.flatMap(definition =>
+      definition.interactions.map(interaction => ({
+        abilityType: interaction.ability,
+        stressorType: definition.id,
+        resistance: interaction.resistance,
+        vulnerability: interaction.vulnerability
+      }))
+    );
+  }
+  return cachedConfigs;
+}
+
+// Rebuilt only when loadStressorDefinitions swaps the registry
+let cachedDefinitions: readonly StressorDefinition[] | null = null;
+let cachedConfigs: InteractionConfig[] = [];
 
 /**
  * Get interaction config for ability-stressor pair
  */
 export function getInteractionConfig(
   abilityType: AbilityType,
-  stressorType: StressorType
+  stressorType: string
 ): InteractionConfig | undefined {
-  return InteractionConfigs.find(
+  return getInteractionConfigs().find(
     config => config.abilityType === abilityType && config.stressorType === stressorType
   );
 }
-
@@ -0,0 +1,389 @@
+import { AbilityDefinitions, AbilityType } from './AbilityDefinitions';
+import { isRecord, isFiniteNumber } from '../utils/VersionedStorage';
+import defaultDefinitions from './stressors.json';
+
+/**
+ * Stressor Definitions
+ *
+ * Every stressor type is data: stats, the wave it unlocks at, its movement
+ * behavior and special mechanics, ability interactions, auras, what happens
+ * when it is resolved and its visual palette. The built-in types
+ * live in stressors.json (matching docs/design/STRESSORS.md), so adding a
+ * stressor means adding an entry there - StressorSystem, the interaction
+ * pipeline and the renderers all read from this registry.
+ *
+ * Definitions are validated when loaded; loadStressorDefinitions replaces the
+ * registry with another validated set (e.g. from a designer's JSON file).
+ */
+
+/** Movement behaviors a definition can use (implemented by MovementBehaviorFactory) */
+export const MOVEMENT_BEHAVIOR_IDS = ['direct', 'wobble', 'orbit_dash', 'erratic', 'accelerating', 'time_pressure'] as const;
+export type MovementBehaviorId = typeof MOVEMENT_BEHAVIOR_IDS[number];
+
+/** Status effects a stressor's aura can put on what is in range */
+export const STRESSOR_AURA_EFFECTS = ['slow', 'haste', 'vulnerability', 'damage_reduction'] as const;
+export type StressorAuraEffect = typeof STRESSOR_AURA_EFFECTS[number];
+
+/** What an aura affects: other stressors, or abilities landing in range (damage_reduction only) */
+export const STRESSOR_AURA_TARGETS = ['stressors', 'abilities'] as const;
+export type StressorAuraTarget = typeof STRESSOR_AURA_TARGETS[number];
+
+/** What can happen when a stressor is resolved by an ability */
+export const STRESSOR_RESOLVE_EFFECTS = ['split', 'surge'] as const;
+export type StressorResolveEffectType = typeof STRESSOR_RESOLVE_EFFECTS[number];
+
+export interface StressorStats {
+  /** Speed multiplier on STRESSOR_BASE_SPEED */
+  speed: number;
+  /** Health multiplier on STRESSOR_BASE_HEALTH */
+  health: number;
+  /** Insight reward multiplier when resolved */
+  insight: number;
+}
+
+export interface StressorInteraction {
+  ability: AbilityType;
+  /** 0-1, e.g. 0.5 = 50% less damage from this ability */
+  resistance?: number;
+  /** >1, e.g. 2.0 = double damage from this ability */
+  vulnerability?: number;
+}
+
+export interface StressorAura {
+  effect: StressorAuraEffect;
+  targets: StressorAuraTarget;
+  /** Reach in pixels from the stressor */
+  radius: number;
+  /** Strength per source in range: the fraction slow/damage_reduction take away, or haste/vulnerability add */
+  value: number;
+  /** Most the combined strength of auras with this effect can reach on one target */
+  cap: number;
+}
+
+/** Breaks into smaller, faster fragments of the same type */
+export interface StressorSplit {
+  effect: 'split';
+  /** Fragments per split */
+  count: number;
+  /** Fragment health as a fraction of the parent's max health */
+  health: number;
+  /** Fragment speed multiplier */
+  speed: number;
+  /** Fragment size as a fraction of the parent's */
+  size: number;
+  /** Fragments at this generation no longer split (1 = only original stressors split) */
+  maxGeneration: number;
+}
+
+/** Briefly speeds up stressors nearby */
+export interface StressorSurge {
+  effect: 'surge';
+  /** Reach in pixels from the resolved stressor */
+  radius: number;
+  /** Fraction added to speed, e.g. 0.3 = +30% */
+  speedBoost: number;
+  /** Seconds the surge lasts */
+  duration: number;
+}
+
+export type StressorResolveEffect = StressorSplit | StressorSurge;
+
+/** Time Pressure: a speed boost while serenity is low */
+export interface UrgencyMechanic {
+  /** Serenity ratio (0-1) below which the boost applies */
+  serenityThreshold: number;
+  /** Fraction added to speed, e.g. 0.1 = +10% */
+  speedBoost: number;
+}
+
+/** Environmental Noise: wobble grows with nearby stressors of the same type */
+export interface AmplificationMechanic {
+  /** Reach in pixels for counting neighbours */
+  radius: number;
+  /** Fraction added to wobble amplitude per neighbour */
+  perStressor: number;
+  /** Cap on the added fraction */
+  maxBonus: number;
+}
+
+/** Overwhelm: speeds up as serenity falls and stressors crowd around it */
+export interface CascadeMechanic {
+  /** Speed multiplier added at zero serenity (scaled by the serenity missing) */
+  serenityWeight: number;
+  /** Reach in pixels for counting nearby stressors of any type */
+  radius: number;
+  /** Speed multiplier added per nearby stressor */
+  perStressor: number;
+  /** Cap on the speed multiplier */
+  maxMultiplier: number;
+}
+
+/** Self-Doubt: now and then backs away from the center, then hesitates */
+export interface RetreatMechanic {
+  /** Seconds of approach between retreats (drawn between min and max) */
+  minInterval: number;
+  maxInterval: number;
+  /** Seconds a retreat lasts (drawn between min and max) */
+  minDuration: number;
+  maxDuration: number;
+  /** Speed multiplier while retreating */
+  retreatSpeed: number;
+  /** Seconds of slowed approach after a retreat */
+  hesitationDuration: number;
+  /** Speed multiplier while hesitating */
+  hesitationSpeed: number;
+}
+
+/**
+ * Special mechanics (docs/design/STRESSORS.md), each driven by one movement
+ * behavior. A definition without a mechanic's entry moves without it.
+ */
+export interface StressorMechanics {
+  urgency?: UrgencyMechanic;
+  amplification?: AmplificationMechanic;
+  cascade?: CascadeMechanic;
+  retreat?: RetreatMechanic;
+}
+
+/** The movement behavior that applies each mechanic */
+const MECHANIC_MOVEMENTS: Record<keyof StressorMechanics, MovementBehaviorId> = {
+  urgency: 'time_pressure',
+  amplification: 'wobble',
+  cascade: 'accelerating',
+  retreat: 'erratic'
+};
+
+export interface StressorPalette {
+  /** Hex colors by serenity band (see docs/design/COLOR_PALETTE.md) */
+  high: string;
+  medium: string;
+  low: string;
+  critical: string;
+}
+
+export interface StressorFluidBehavior {
+  diffusionRate: number;
+  viscosity: number;
+  baseStrength: number;
+}
+
+export interface StressorDefinition {
+  /** Unique identifier, stored on each Stressor as its type */
+  id: string;
+  /** Display name */
+  name: string;
+  /** First wave this type spawns in; null = never spawned by waves */
+  unlockWave: number | null;
+  stats: StressorStats;
+  movement: MovementBehaviorId;
+  interactions: StressorInteraction[];
+  auras: StressorAura[];
+  mechanics: StressorMechanics;
+  /** Effects triggered when an ability resolves the stressor */
+  onResolve: StressorResolveEffect[];
+  palette: StressorPalette;
+  /** Dye injection into the fluid field */
+  fluid: StressorFluidBehavior;
+}
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+let definitions: StressorDefinition[] = parseStressorDefinitions(defaultDefinitions);
+let definitionsById: Map<string, StressorDefinition> = indexDefinitions(definitions);
+
+/**
+ * Get a stressor definition. Unknown ids (e.g. a type removed from the
+ * definitions since a save was made) fall back to the first definition.
+ */
+export function getStressorDefinition(id: string): StressorDefinition {
+  return definitionsById.get(id) ?? definitions[0];
+}
+
+export function hasStressorDefinition(id: string): boolean {
+  return definitionsById.has(id);
+}
+
+/**
+ * All definitions, in registry order
+ */
+export function getAllStressorDefinitions(): readonly StressorDefinition[] {
+  return definitions;
+}
+
+/**
+ * Replace the registry with validated definitions. Throws (keeping the current
+ * definitions) if any are invalid.
+ */
+export function loadStressorDefinitions(data: unknown): void {
+  definitions = parseStressorDefinitions(data);
+  definitionsById = indexDefinitions(definitions);
+}
+
+/**
+ * Check stressor definitions parsed from JSON. Throws with a description of the
+ * first problem found.
+ */
+export function parseStressorDefinitions(data: unknown): StressorDefinition[] {
+  const problem = validateDefinitions(data);
+  if (problem) {
+    throw new Error(`Stressor definitions are invalid: ${problem}`);
+  }
+  return data as StressorDefinition[];
+}
+
+function indexDefinitions(list: StressorDefinition[]): Map<string, StressorDefinition> {
+  return new Map(list.map(definition => [definition.id, definition]));
+}
+
+function validateDefinitions(data: unknown): string | null {
+  if (!Array.isArray(data) || data.length === 0) return 'expected a non-empty array of definitions';
+
+  const ids = new Set<string>();
+  for (const definition of data) {
+    const problem = validateDefinition(definition);
+    const label = isRecord(definition) && typeof definition.id === 'string' ? definition.id : JSON.stringify(definition);
+    if (problem) return `${label}: ${problem}`;
+    if (ids.has(label)) return `${label}: duplicate id`;
+    ids.add(label);
+  }
+  return null;
+}
+
+function validateDefinition(data: unknown): string | null {
+  if (!isRecord(data)) return 'definition must be an object';
+  if (typeof data.id !== 'string' || data.id.length === 0) return 'id must be a non-empty string';
+  if (typeof data.name !== 'string') return 'name must be a string';
+  if (data.unlockWave !== null && !(isFiniteNumber(data.unlockWave) && data.unlockWave >= 0)) {
+    return 'unlockWave must be a wave number or null';
+  }
+
+  const stats = data.stats;
+  if (!isRecord(stats) || !isPositive(stats.speed) || !isPositive(stats.health) || !isFiniteNumber(stats.insight) || stats.insight < 0) {
+    return 'stats need positive speed and health and a non-negative insight';
+  }
+
+  if (!MOVEMENT_BEHAVIOR_IDS.includes(data.movement as MovementBehaviorId)) {
+    return `movement must be one of ${MOVEMENT_BEHAVIOR_IDS.join(', ')}`;
+  }
+
+  if (!Array.isArray(data.interactions)) return 'interactions must be an array';
+  for (const interaction of data.interactions) {
+    if (!isRecord(interaction) || !(typeof interaction.ability === 'string' && interaction.ability in AbilityDefinitions)) {
+      return `interaction ability must be one of ${Object.keys(AbilityDefinitions).join(', ')}`;
+    }
+    if (interaction.resistance !== undefined && !(isFiniteNumber(interaction.resistance) && interaction.resistance >= 0 && interaction.resistance <= 1)) {
+      return `${interaction.ability} resistance must be between 0 and 1`;
+    }
+    if (interaction.vulnerability !== undefined && !isPositive(interaction.vulnerability)) {
+      return `${interaction.ability} vulnerability must be positive`;
+    }
+  }
+
+  if (!Array.isArray(data.auras)) return 'auras must be an array';
+  for (const aura of data.auras) {
+    if (!isRecord(aura) || !STRESSOR_AURA_EFFECTS.includes(aura.effect as StressorAuraEffect)) {
+      return `aura effect must be one of ${STRESSOR_AURA_EFFECTS.join(', ')}`;
+    }
+    if (!STRESSOR_AURA_TARGETS.includes(aura.targets as StressorAuraTarget)) {
+      return `aura targets must be one of ${STRESSOR_AURA_TARGETS.join(', ')}`;
+    }
+    if (aura.targets === 'abilities' && aura.effect !== 'damage_reduction') return 'abilities auras must be damage_reduction';
+    if (!isPositive(aura.radius) || !isPositive(aura.value) || !isPositive(aura.cap)) {
+      return 'aura needs a positive radius, value and cap';
+    }
+    if ((aura.effect === 'slow' || aura.effect === 'damage_reduction') && (!isRatio(aura.value) || !isRatio(aura.cap))) {
+      return `${aura.effect} aura value and cap must be at most 1`;
+    }
+  }
+
+  if (!Array.isArray(data.onResolve)) return 'onResolve must be an array';
+  for (const effect of data.onResolve) {
+    const problem = validateResolveEffect(effect);
+    if (problem) return problem;
+  }
+
+  const mechanicsProblem = validateMechanics(data.mechanics, data.movement as MovementBehaviorId);
+  if (mechanicsProblem) return mechanicsProblem;
+
+  const palette = data.palette;
+  if (!isRecord(palette) || !['high', 'medium', 'low', 'critical'].every(band => typeof palette[band] === 'string' && HEX_COLOR.test(palette[band] as string))) {
+    return 'palette needs high, medium, low and critical #RRGGBB colors';
+  }
+
+  const fluid = data.fluid;
+  if (!isRecord(fluid) || !isFiniteNumber(fluid.diffusionRate) || !isFiniteNumber(fluid.viscosity) || !isFiniteNumber(fluid.baseStrength)) {
+    return 'fluid needs diffusionRate, viscosity and baseStrength';
+  }
+
+  return null;
+}
+
+function validateResolveEffect(effect: unknown): string | null {
+  if (!isRecord(effect) || !STRESSOR_RESOLVE_EFFECTS.includes(effect.effect as StressorResolveEffectType)) {
+    return `onResolve effect must be one of ${STRESSOR_RESOLVE_EFFECTS.join(', ')}`;
+  }
+  if (effect.effect === 'split') {
+    if (!(Number.isInteger(effect.count) && (effect.count as number) > 0) || !(Number.isInteger(effect.maxGeneration) && (effect.maxGeneration as number) > 0)) {
+      return 'split needs a positive whole count and maxGeneration';
+    }
+    if (!isPositive(effect.health) || !isPositive(effect.speed) || !isPositive(effect.size)) {
+      return 'split needs positive health, speed and size';
+    }
+  } else if (!isPositive(effect.radius) || !isNonNegative(effect.speedBoost) || !isPositive(effect.duration)) {
+    return 'surge needs a positive radius and duration and a non-negative speedBoost';
+  }
+  return null;
+}
+
+function validateMechanics(mechanics: unknown, movement: MovementBehaviorId): string | null {
+  if (!isRecord(mechanics)) return 'mechanics must be an object';
+
+  for (const [name, params] of Object.entries(mechanics)) {
+    if (!(name in MECHANIC_MOVEMENTS)) return `mechanics may only contain ${Object.keys(MECHANIC_MOVEMENTS).join(', ')}`;
+    const required = MECHANIC_MOVEMENTS[name as keyof StressorMechanics];
+    if (movement !== required) return `${name} needs ${required} movement`;
+    if (!isRecord(params)) return `${name} must be an object`;
+  }
+
+  const { urgency, amplification, cascade, retreat } = mechanics;
+  if (isRecord(urgency)) {
+    if (!isRatio(urgency.serenityThreshold) || !isFiniteNumber(urgency.speedBoost) || urgency.speedBoost < 0) {
+      return 'urgency needs a serenityThreshold between 0 and 1 and a non-negative speedBoost';
+    }
+  }
+  if (isRecord(amplification)) {
+    if (!isPositive(amplification.radius) || !isNonNegative(amplification.perStressor) || !isNonNegative(amplification.maxBonus)) {
+      return 'amplification needs a positive radius and non-negative perStressor and maxBonus';
+    }
+  }
+  if (isRecord(cascade)) {
+    if (!isPositive(cascade.radius) || !isNonNegative(cascade.serenityWeight) || !isNonNegative(cascade.perStressor) ||
+        !(isFiniteNumber(cascade.maxMultiplier) && cascade.maxMultiplier >= 1)) {
+      return 'cascade needs a positive radius, non-negative serenityWeight and perStressor and a maxMultiplier of at least 1';
+    }
+  }
+  if (isRecord(retreat)) {
+    if (!isPositive(retreat.minInterval) || !isFiniteNumber(retreat.maxInterval) || retreat.maxInterval < retreat.minInterval) {
+      return 'retreat needs a positive minInterval no greater than maxInterval';
+    }
+    if (!isPositive(retreat.minDuration) || !isFiniteNumber(retreat.maxDuration) || retreat.maxDuration < retreat.minDuration) {
+      return 'retreat needs a positive minDuration no greater than maxDuration';
+    }
+    if (!isNonNegative(retreat.retreatSpeed) || !isNonNegative(retreat.hesitationDuration) || !isRatio(retreat.hesitationSpeed)) {
+      return 'retreat needs a non-negative retreatSpeed and hesitationDuration and a hesitationSpeed between 0 and 1';
+    }
+  }
+  return null;
+}
+
+function isPositive(value: unknown): value is number {
+  return isFiniteNumber(value) && value > 0;
+}
+
+function isNonNegative(value: unknown): value is number {
+  return isFiniteNumber(value) && value >= 0;
+}
+
+function isRatio(value: unknown): value is number {
+  return isFiniteNumber(value) && value >= 0 && value <= 1;
+}
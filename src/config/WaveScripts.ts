@@ -0,0 +1,123 @@
+import { hasStressorDefinition } from './StressorDefinitions';
+import { isRecord, isFiniteNumber } from '../utils/VersionedStorage';
+import defaultScripts from './waves.json';
+
+/**
+ * Wave Scripts
+ *
+ * Authored wave compositions that override the procedural formula
+ * (uniformly random unlocked types). Each scripted wave is a list of groups: a
+ * stressor type and count, the playfield side they enter from, an optional
+ * delay after the wave starts and a formation. Waves without a script
+ * - including everything past the scripted range - fall back to the formula.
+ *
+ * The built-in script (waves.json) teaches each stressor type in turn, following
+ * the wave progression in docs/design/STRESSORS.md.
+ */
+
+/** Playfield sides, in StressorSystem spawn side order; 'any' picks one at random */
+export const WAVE_SPAWN_SIDES = ['top', 'right', 'bottom', 'left', 'any'] as const;
+export type WaveSpawnSide = typeof WAVE_SPAWN_SIDES[number];
+
+/**
+ * How a group is placed along its side:
+ * - scattered: each stressor at its own random point (sides picked per stressor for 'any')
+ * - cluster: bunched around one random point
+ * - line: spaced evenly along the whole side
+ */
+export const WAVE_FORMATIONS = ['scattered', 'cluster', 'line'] as const;
+export type WaveFormation = typeof WAVE_FORMATIONS[number];
+
+export interface WaveScriptGroup {
+  type: string; // Stressor definition id
+  count: number;
+  side?: WaveSpawnSide; // Default 'any'
+  delay?: number; // Seconds after the wave starts; without one the spawn scheduler places the group
+  formation?: WaveFormation; // Default 'scattered'
+}
+
+export interface WaveScript {
+  wave: number;
+  groups: WaveScriptGroup[];
+}
+
+let scripts: Map<number, WaveScript> = indexScripts(parseWaveScripts(defaultScripts));
+
+/**
+ * Script for a wave, or null if the wave is procedural
+ */
+export function getWaveScript(wave: number): WaveScript | null {
+  return scripts.get(wave) ?? null;
+}
+
+/**
+ * Stressor types a scripted wave spawns, one entry per stressor (null if procedural)
+ */
+export function getScriptedWaveTypes(wave: number): string[] | null {
+  const script = getWaveScript(wave);
+  if (!script) return null;
+  return script.groups.flatMap(group => new Array<string>(group.count).fill(group.type));
+}
+
+/**
+ * Replace the wave scripts with validated ones (an empty array makes every wave
+ * procedural). Throws, keeping the current scripts, if any are invalid.
+ */
+export function loadWaveScripts(data: unknown): void {
+  scripts = indexScripts(parseWaveScripts(data));
+}
+
+/**
+ * Check wave scripts parsed from JSON. Throws with a description of the first
+ * problem found.
+ */
+export function parseWaveScripts(data: unknown): WaveScript[] {
+  const problem = validateScripts(data);
+  if (problem) {
+    throw new Error(`Wave scripts are invalid: ${problem}`);
+  }
+  return data as WaveScript[];
+}
+
+function indexScripts(list: WaveScript[]): Map<number, WaveScript> {
+  return new Map(list.map(script => [script.wave, script]));
+}
+
+function validateScripts(data: unknown): string | null {
+  if (!Array.isArray(data)) return 'expected an array of wave scripts';
+
+  const waves = new Set<number>();
+  for (const script of data) {
+    if (!isRecord(script) || !Number.isInteger(script.wave) || (script.wave as number) < 1) {
+      return 'each script needs a wave number of 1 or more';
+    }
+    const wave = script.wave as number;
+    if (waves.has(wave)) return `wave ${wave}: scripted more than once`;
+    waves.add(wave);
+
+    if (!Array.isArray(script.groups) || script.groups.length === 0) return `wave ${wave}: groups must be a non-empty array`;
+    for (const group of script.groups) {
+      const problem = validateGroup(group);
+      if (problem) return `wave ${wave}: ${problem}`;
+    }
+  }
+  return null;
+}
+
+function validateGroup(group: unknown): string | null {
+  if (!isRecord(group)) return 'group must be an object';
+  if (typeof group.type !== 'string' || !hasStressorDefinition(group.type)) {
+    return `unknown stressor type ${String(group.type)}`;
+  }
+  if (!Number.isInteger(group.count) || (group.count as number) < 1) return `${group.type} count must be a whole number of 1 or more`;
+  if (group.side !== undefined && !WAVE_SPAWN_SIDES.includes(group.side as WaveSpawnSide)) {
+    return `${group.type} side must be one of ${WAVE_SPAWN_SIDES.join(', ')}`;
+  }
+  if (group.delay !== undefined && !(isFiniteNumber(group.delay) && group.delay >= 0)) {
+    return `${group.type} delay must be a non-negative number of seconds`;
+  }
+  if (group.formation !== undefined && !WAVE_FORMATIONS.includes(group.formation as WaveFormation)) {
+    return `${group.type} formation must be one of ${WAVE_FORMATIONS.join(', ')}`;
+  }
+  return null;
+}
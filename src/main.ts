@@ -1,18 +1,36 @@
 import { Game } from './Game';
 import { CanvasRenderer } from './rendering/CanvasRenderer';
-import { Vector2 } from './types';
+import { Vector2, AbilityState } from './types';
 import { GameConfig } from './GameConfig';
 import { dev } from './utils/dev';
 import { getKeyboardManager } from './utils/KeyboardManager';
 import { getFPSCounter } from './utils/FPSCounter';
+import { AudioSystem } from './audio/AudioSystem';
+import { SaveGame } from './utils/SaveGame';
+import { ReplayRecorder } from './replay/ReplayRecorder';
+import { ReplayPlayer } from './replay/ReplayPlayer';
+import { Replay, parseReplay, serializeReplay } from './replay/Replay';
+import { RewindBuffer } from './replay/RewindBuffer';
+import { StatusEffectType } from './systems/effects/StatusEffect';
+import { DevStatusEffectType, applyDevStatusEffect } from './systems/effects/DevStatusEffects';
+
+// Upgrade shortcuts: keys 1-9 buy abilities in this order
+const UPGRADE_KEY_ORDER: (keyof AbilityState)[] = [
+  'breathe', 'recenter', 'affirm', 'exhale', 'reflect', 'mantra', 'ground', 'release', 'align'
+];
 
 class GameApp {
   private canvas: HTMLCanvasElement;
   private game: Game;
   private renderer: CanvasRenderer;
+  private audioSystem: AudioSystem = new AudioSystem();
+  private recorder: ReplayRecorder;
+  private replayPlayer: ReplayPlayer | null = null; // Set while a replay is playing back
+  private rewindBuffer: RewindBuffer | null = null; // Dev builds only
   
   private lastFrameTime: number = 0;
   private lastFpsCheck: number = 0;
+  private lastAutosave: number = 0;
   
   private isRunning: boolean = false;
   
@@ -21,6 +39,7 @@ class GameApp {
   private unregisterHandlers: (() => void)[] = [];
   
   private performanceMode: boolean = false;
+  private statsTableVisible: boolean = false;
   private lastPerformanceModeChange: number = 0;
 
   constructor() {
@@ -30,16 +49,55 @@ class GameApp {
     
     this.game = new Game(this.canvas.width, this.canvas.height);
     this.renderer = new CanvasRenderer(this.canvas);
+    this.recorder = new ReplayRecorder(this.game);
     
-    // Set game instance in renderer for settings propagation
+    // Set game instance in renderer for settings propagation and event-driven visuals
     this.renderer.setGameInstance(this.game);
     
+    // End-of-run reflection
+    this.game.setGameOverCallback((summary) => {
+      if (this.replayPlayer) return; // The replay banner reports the end of playback
+      SaveGame.clear(); // A finished run can't be resumed
+      this.renderer.showReflection(summary.duration, summary.wave, summary.insight);
+      dev.log('Run ended', summary);
+    });
+    
+    // Upgrade feedback (the renderer subscribes to its own visuals)
+    this.game.getEvents().on('upgradePurchased', (purchase) => {
+      this.audioSystem.playUpgradeSound(purchase.level);
+    }, { presentation: true });
+    
+    this.setupRewind();
     this.setupKeyboardHandlers();
     this.setupEventListeners();
     
+    this.resumeSavedRun();
+    this.recorder.start();
+    this.rewindBuffer?.start();
     this.start();
   }
 
+  /**
+   * Dev builds keep recent snapshots to scrub back through from the developer panel.
+   */
+  private setupRewind(): void {
+    if (!dev.isEnabled()) return;
+    
+    this.rewindBuffer = new RewindBuffer(this.game);
+    this.rewindBuffer.setRestoreCallback((snapshot) => {
+      this.recorder.stop();
+      this.renderer.hideReflection();
+      this.renderer.resetFluid();
+      dev.log('Rewound', { tick: snapshot.tick, wave: snapshot.state.wave });
+    });
+    this.rewindBuffer.setResumeCallback(() => {
+      // The recording can't follow the jump back, so a new one starts here
+      this.recorder.start();
+      this.saveRun();
+    });
+    this.renderer.setRewindBuffer(this.rewindBuffer);
+  }
+
   private setupCanvas(): void {
     const resize = () => {
       this.canvas.width = window.innerWidth;
@@ -90,6 +148,381 @@ class GameApp {
       preventDefault: false // Let individual handlers decide
     });
     this.unregisterHandlers.push(unregisterDevPanel);
+
+    // Pace controls (global context only, so dev panel search can still type these keys)
+    const unregisterPaceDown = this.keyboardManager.register({
+      priority: 50,
+      context: 'global',
+      key: ['[', '-', 'BracketLeft', 'Minus'],
+      handler: () => {
+        if (this.replayPlayer) {
+          this.replayPlayer.adjustSpeed(-1);
+        } else {
+          this.game.adjustPace(-1);
+        }
+        return true;
+      },
+      preventDefault: true
+    });
+    this.unregisterHandlers.push(unregisterPaceDown);
+
+    const unregisterPaceUp = this.keyboardManager.register({
+      priority: 50,
+      context: 'global',
+      key: [']', '=', 'BracketRight', 'Equal'],
+      handler: () => {
+        if (this.replayPlayer) {
+          this.replayPlayer.adjustSpeed(1);
+        } else {
+          this.game.adjustPace(1);
+        }
+        return true;
+      },
+      preventDefault: true
+    });
+    this.unregisterHandlers.push(unregisterPaceUp);
+
+    // Pause / resume
+    const unregisterPause = this.keyboardManager.register({
+      priority: 50,
+      context: 'global',
+      key: ['p', 'P', 'KeyP'],
+      handler: () => {
+        if (this.replayPlayer) {
+          this.replayPlayer.togglePause();
+        } else {
+          this.game.togglePause();
+        }
+        return true;
+      },
+      preventDefault: true,
+      debounceMs: 150
+    });
+    this.unregisterHandlers.push(unregisterPause);
+
+    // Statistics table
+    const unregisterStatsTable = this.keyboardManager.register({
+      priority: 50,
+      context: 'global',
+      key: ['t', 'T', 'KeyT'],
+      handler: () => {
+        this.statsTableVisible = !this.statsTableVisible;
+        return true;
+      },
+      preventDefault: true,
+      debounceMs: 150
+    });
+    this.unregisterHandlers.push(unregisterStatsTable);
+
+    // Developer single-step (one fixed tick, only while paused)
+    const unregisterStep = this.keyboardManager.register({
+      priority: 50,
+      context: 'global',
+      key: ['.', 'Period'],
+      handler: () => {
+        if (this.replayPlayer) {
+          this.replayPlayer.stepOnce();
+          return true;
+        }
+        if (!this.game.isPaused()) return false;
+        this.game.stepOnce();
+        return true;
+      },
+      preventDefault: true
+    });
+    this.unregisterHandlers.push(unregisterStep);
+
+    // Continue from the offline summary, or restart after game over
+    const unregisterRestart = this.keyboardManager.register({
+      priority: 60,
+      context: 'global',
+      key: [' ', 'Space'],
+      handler: () => {
+        if (this.replayPlayer) return false;
+        if (this.renderer.isOfflineSummaryVisible()) {
+          this.dismissOfflineSummary();
+          return true;
+        }
+        if (!this.game.getState().gameOver) return false;
+        this.restart();
+        return true;
+      },
+      preventDefault: true,
+      debounceMs: 300
+    });
+    this.unregisterHandlers.push(unregisterRestart);
+
+    // Replays: export the current run, load one to play back, leave playback
+    const unregisterExportReplay = this.keyboardManager.register({
+      priority: 50,
+      context: 'global',
+      key: ['R', 'KeyR'],
+      modifiers: { shift: true },
+      handler: () => {
+        if (this.replayPlayer) return false;
+        this.exportReplay();
+        return true;
+      },
+      preventDefault: true,
+      debounceMs: 500
+    });
+    this.unregisterHandlers.push(unregisterExportReplay);
+
+    const unregisterLoadReplay = this.keyboardManager.register({
+      priority: 50,
+      context: 'global',
+      key: ['L', 'KeyL'],
+      modifiers: { shift: true },
+      handler: () => {
+        this.loadReplayFile();
+        return true;
+      },
+      preventDefault: true,
+      debounceMs: 500
+    });
+    this.unregisterHandlers.push(unregisterLoadReplay);
+
+    const unregisterExitReplay = this.keyboardManager.register({
+      priority: 50,
+      context: 'global',
+      key: ['Escape'],
+      handler: () => {
+        if (!this.replayPlayer) return false;
+        this.stopPlayback();
+        return true;
+      },
+      preventDefault: true
+    });
+    this.unregisterHandlers.push(unregisterExitReplay);
+
+    // Upgrade shortcuts (1-9)
+    UPGRADE_KEY_ORDER.forEach((ability, index) => {
+      const digit = `${index + 1}`;
+      const unregisterUpgrade = this.keyboardManager.register({
+        priority: 50,
+        context: 'global',
+        key: [digit, `Digit${digit}`, `Numpad${digit}`],
+        handler: () => {
+          this.purchaseUpgrade(ability);
+          return true;
+        },
+        preventDefault: true,
+        debounceMs: 100
+      });
+      this.unregisterHandlers.push(unregisterUpgrade);
+    });
+
+    // Branch choice shortcuts (1-3) take precedence over upgrades while the choice is open
+    [1, 2, 3].forEach((keyNumber) => {
+      const digit = `${keyNumber}`;
+      const unregisterBranch = this.keyboardManager.register({
+        priority: 55,
+        context: 'global',
+        key: [digit, `Digit${digit}`, `Numpad${digit}`],
+        handler: () => {
+          const branch = this.renderer.getBranchForKey(keyNumber);
+          if (!branch) return false;
+          this.chooseBranch(branch.ability, branch.branchId);
+          return true;
+        },
+        // No debounce: it is tracked per key and would swallow the upgrade shortcut
+        preventDefault: true
+      });
+      this.unregisterHandlers.push(unregisterBranch);
+    });
+
+    // Developer status effects on every live stressor (dev builds only)
+    if (dev.isEnabled()) {
+      const devEffectKeys: Array<[string[], DevStatusEffectType]> = [
+        [['D', 'KeyD'], StatusEffectType.DAMAGE_OVER_TIME],
+        [['S', 'KeyS'], StatusEffectType.STUN]
+      ];
+      devEffectKeys.forEach(([key, type]) => {
+        const unregisterDevEffect = this.keyboardManager.register({
+          priority: 50,
+          context: 'global',
+          key,
+          modifiers: { shift: true },
+          handler: () => {
+            if (this.replayPlayer) return false;
+            this.applyDevStatusEffect(type);
+            return true;
+          },
+          preventDefault: true,
+          debounceMs: 150
+        });
+        this.unregisterHandlers.push(unregisterDevEffect);
+      });
+    }
+  }
+
+  /**
+   * Put a developer damage over time or stun on every live stressor. These aren't
+   * commands, so the replay recording can't follow them and restarts here.
+   */
+  private applyDevStatusEffect(type: DevStatusEffectType): void {
+    const affected = applyDevStatusEffect(type, this.game.getSystemContext());
+    this.recorder.start();
+    dev.log('Dev status effect applied', { type, stressors: affected });
+  }
+
+  /**
+   * Purchase an ability upgrade from any input source.
+   */
+  private purchaseUpgrade(ability: keyof AbilityState): void {
+    if (this.replayPlayer) return; // Playback only applies recorded commands
+    if (!this.game.executeCommand({ type: 'purchaseUpgrade', ability })) {
+      dev.log('Upgrade not available', { ability, insight: this.game.getState().insight });
+    }
+  }
+
+  /**
+   * Record a branch choice from any input source.
+   */
+  private chooseBranch(ability: keyof AbilityState, branchId: string): void {
+    if (this.replayPlayer) return;
+    if (!this.game.executeCommand({ type: 'chooseBranch', ability, branchId })) {
+      dev.log('Branch choice not available', { ability, branchId });
+    }
+  }
+
+  /**
+   * Continue the run saved in a previous session, if any.
+   * It resumes paused so the player can get their bearings first; time spent away
+   * is credited as offline progress and summarized before play continues.
+   */
+  private resumeSavedRun(): void {
+    const snapshot = SaveGame.load();
+    if (!snapshot) return;
+    
+    if (!this.game.restoreSnapshot(snapshot)) {
+      SaveGame.clear();
+      return;
+    }
+    
+    this.game.pause();
+    dev.log('Resumed saved run', { wave: snapshot.state.wave, simulationTime: snapshot.simulationTime });
+    
+    const awayTime = Math.max(0, (Date.now() - snapshot.savedAt) / 1000);
+    const offline = this.game.applyOfflineProgress(awayTime);
+    if (offline) {
+      // Save straight away so a quick reload can't credit the same absence twice
+      this.saveRun();
+      this.renderer.showOfflineSummary(offline);
+      dev.log('Offline progress', offline);
+    }
+  }
+
+  /**
+   * Close the "while you were away" summary and continue the run.
+   */
+  private dismissOfflineSummary(): void {
+    this.renderer.hideOfflineSummary();
+    this.game.resume();
+  }
+
+  /**
+   * Save the current run so it can be resumed after a reload.
+   */
+  private saveRun(): void {
+    if (this.replayPlayer || this.game.getState().gameOver) return;
+    SaveGame.save(this.game.createSnapshot());
+  }
+
+  /**
+   * Start a new run from the reflection screen.
+   */
+  private restart(): void {
+    SaveGame.clear();
+    this.game.reset();
+    this.renderer.hideReflection();
+    this.renderer.resetFluid();
+    this.recorder.start();
+    this.rewindBuffer?.start();
+    this.lastFrameTime = performance.now();
+  }
+
+  /**
+   * Download the current run's replay as a JSON file.
+   */
+  private exportReplay(): void {
+    const replay = this.recorder.getReplay();
+    if (!replay) return;
+    
+    const url = URL.createObjectURL(new Blob([serializeReplay(replay)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `meditativeidle-replay-${replay.seed}-${replay.endTick}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    dev.log('Replay exported', { seed: replay.seed, endTick: replay.endTick, commands: replay.commands.length });
+  }
+
+  /**
+   * Pick a replay file and play it back.
+   */
+  private loadReplayFile(): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+    input.addEventListener('change', () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      file.text()
+        .then((text) => this.startPlayback(parseReplay(text)))
+        .catch((error) => {
+          console.error('Failed to load replay:', error);
+        });
+    });
+    input.click();
+  }
+
+  /**
+   * Replace the live run with replay playback. The live run is saved first
+   * and picked up again (recording included) when playback stops.
+   */
+  private startPlayback(replay: Replay): void {
+    this.stopPlayback();
+    this.saveRun();
+    this.recorder.stop();
+    this.rewindBuffer?.stop(); // Rewinding would pull playback off the recording
+    
+    const player = new ReplayPlayer(this.game, replay);
+    if (!player.begin()) {
+      console.error('Failed to start replay: its start snapshot is from an incompatible version');
+      this.recorder.resume();
+      this.rewindBuffer?.start();
+      return;
+    }
+    
+    this.replayPlayer = player;
+    this.renderer.hideOfflineSummary();
+    this.renderer.hideReflection();
+    this.renderer.resetFluid();
+    dev.log('Replay started', { seed: replay.seed, endTick: replay.endTick, commands: replay.commands.length });
+  }
+
+  /**
+   * Leave replay playback and return to the saved live run (or a new one).
+   */
+  private stopPlayback(): void {
+    if (!this.replayPlayer) return;
+    
+    this.replayPlayer.end();
+    this.replayPlayer = null;
+    this.renderer.setReplayStatus(null);
+    this.renderer.hideReflection();
+    this.renderer.resetFluid();
+    
+    const snapshot = SaveGame.load();
+    if (snapshot && this.game.restoreSnapshot(snapshot)) {
+      this.game.pause();
+      this.recorder.resume();
+    } else {
+      this.game.reset();
+      this.recorder.start();
+    }
+    this.rewindBuffer?.start();
   }
 
   private setupEventListeners(): void {
@@ -111,8 +544,53 @@ class GameApp {
         x: e.clientX - rect.left,
         y: e.clientY - rect.top
       };
-      // Check if developer panel handled the click
-      this.renderer.checkAbilityClick(mousePos);
+      // Playback ignores player input
+      if (this.replayPlayer) return;
+      // Click anywhere on the offline summary to continue
+      if (this.renderer.isOfflineSummaryVisible()) {
+        this.dismissOfflineSummary();
+        return;
+      }
+      // Click anywhere on the reflection screen to restart
+      if (this.game.getState().gameOver && this.renderer.isReflectionVisible()) {
+        this.restart();
+        return;
+      }
+      // Branch choice cards sit over the HUD, so they get the click first
+      const branch = this.renderer.checkBranchClick(mousePos);
+      if (branch) {
+        this.chooseBranch(branch.ability, branch.branchId);
+        return;
+      }
+      // Developer panel clicks are consumed by the renderer (returns null)
+      const ability = this.renderer.checkAbilityClick(mousePos);
+      if (ability && ability in this.game.getAbilities()) {
+        this.purchaseUpgrade(ability as keyof AbilityState);
+      }
+    });
+
+    // Audio can only start after a user gesture
+    const initializeAudio = () => {
+      this.audioSystem.initialize().catch((error) => {
+        console.error('Failed to initialize audio:', error);
+      });
+    };
+    window.addEventListener('pointerdown', initializeAudio, { once: true });
+    window.addEventListener('keydown', initializeAudio, { once: true });
+
+    // Auto-pause when the game loses visibility or focus
+    document.addEventListener('visibilitychange', () => {
+      if (document.hidden) {
+        this.game.pause();
+        this.saveRun();
+      }
+    });
+    // Last chance to save before the page is closed or reloaded
+    window.addEventListener('pagehide', () => {
+      this.saveRun();
+    });
+    window.addEventListener('blur', () => {
+      this.game.pause();
     });
 
     // Wheel handler for developer panel scrolling
@@ -128,6 +606,7 @@ class GameApp {
     this.isRunning = true;
     this.lastFrameTime = performance.now();
     this.lastFpsCheck = performance.now();
+    this.lastAutosave = performance.now();
     this.lastPerformanceModeChange = performance.now();
     this.animate();
   }
@@ -165,8 +644,18 @@ class GameApp {
       }
     }
     
-    // Update game
-    this.game.update(deltaTime);
+    // Update game (replay playback drives the simulation itself)
+    if (this.replayPlayer) {
+      this.replayPlayer.update(deltaTime);
+      this.renderer.setReplayStatus(this.replayPlayer.getStatus());
+    } else {
+      this.game.update(deltaTime);
+      
+      if (currentTime - this.lastAutosave >= GameConfig.AUTOSAVE_INTERVAL_MS) {
+        this.lastAutosave = currentTime;
+        this.saveRun();
+      }
+    }
     
     // Render - player, stressors, and abilities
     const state = this.game.getState();
@@ -185,6 +674,10 @@ class GameApp {
       systemContext
     );
     
+    if (this.statsTableVisible) {
+      this.renderer.renderStatsTable(state, stressors, systemContext.getStatusEffectManager());
+    }
+    
     requestAnimationFrame(this.animate);
   };
 }
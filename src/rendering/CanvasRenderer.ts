@@ -1,4 +1,5 @@
-import { GameState, Vector2, Stressor, AbilityState } from '../types';
+import { GameState, Vector2, Stressor, AbilityState, UpgradePurchase, OfflineProgressSummary } from '../types';
+import { GameConfig } from '../GameConfig';
 import { SystemContext } from '../systems/ISystem';
 import { Game } from '../Game';
 import { LiquidField } from './fluid/LiquidField';
@@ -12,9 +13,15 @@ import { LiquidWatermediaStateController } from './watercolor/LiquidWatermediaSt
 import { LiquidWatermediaUIRenderer } from './ui/LiquidWatermediaUIRenderer';
 import { FluidStatsTable } from './ui/elements/FluidStatsTable';
 import { FluidReflectionScreen } from './ui/elements/FluidReflectionScreen';
+import { FluidBranchChoice } from './ui/elements/FluidBranchChoice';
+import { FluidOfflineSummary } from './ui/elements/FluidOfflineSummary';
+import { FluidReplayStatus } from './ui/elements/FluidReplayStatus';
+import { ReplayStatus } from '../replay/ReplayPlayer';
 import { DeveloperPanel } from '../ui/DeveloperPanel';
+import { RewindBuffer } from '../replay/RewindBuffer';
 import { getKeyboardManager } from '../utils/KeyboardManager';
 import { getFPSCounter } from '../utils/FPSCounter';
+import { StatusEffectManager } from '../systems/effects/StatusEffectManager';
 
 /**
  * CanvasRenderer - Grid-based canvas renderer replacing ThreeRenderer
@@ -50,12 +57,16 @@ export class CanvasRenderer {
   // Modal screens
   private fluidStatsTable: FluidStatsTable | null = null;
   private fluidReflectionScreen: FluidReflectionScreen | null = null;
+  private fluidBranchChoice: FluidBranchChoice | null = null;
+  private fluidOfflineSummary: FluidOfflineSummary | null = null;
+  private fluidReplayStatus: FluidReplayStatus | null = null;
   
   // Developer panel
   private developerPanel: DeveloperPanel | null = null;
   
   // Game instance for settings propagation
   private gameInstance: Game | null = null;
+  private unsubscribeGameEvents: Array<() => void> = [];
   
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
@@ -122,6 +133,24 @@ export class CanvasRenderer {
     });
     this.fluidReflectionScreen.setDimensions(this.width, this.height);
     
+    this.fluidBranchChoice = new FluidBranchChoice({
+      x: this.width / 2,
+      y: this.height / 2
+    });
+    this.fluidBranchChoice.setDimensions(this.width, this.height);
+    
+    this.fluidOfflineSummary = new FluidOfflineSummary({
+      x: this.width / 2,
+      y: this.height / 2
+    });
+    this.fluidOfflineSummary.setDimensions(this.width, this.height);
+    
+    this.fluidReplayStatus = new FluidReplayStatus({
+      x: this.width / 2,
+      y: 0
+    });
+    this.fluidReplayStatus.setDimensions(this.width, this.height);
+    
     // Initialize developer panel
     this.developerPanel = new DeveloperPanel({ x: 0, y: 0 });
     this.developerPanel.setDimensions(this.width, this.height);
@@ -198,11 +227,20 @@ export class CanvasRenderer {
     this.fluidRenderer.render(this.ctx, this.liquidField, this.width, this.height, serenityRatio);
     
     // Phase 3: Render stressors visually
+    this.stressorRenderer.update(deltaTime);
     if (stressors && stressors.length > 0) {
-      this.stressorRenderer.update(deltaTime);
       this.stressorRenderer.render(this.ctx, stressors, center, serenityRatio);
     }
     
+    // Edge telegraphs for stressors about to arrive
+    if (systemContext) {
+      this.stressorRenderer.renderTelegraphs(this.ctx, systemContext.getUpcomingSpawns(), systemContext.getSimulationTime(), serenityRatio);
+    }
+    
+    if (systemContext && GameConfig.DEBUG_SHOW_AURAS === 1) {
+      this.stressorRenderer.renderAuraRadii(this.ctx, systemContext.getStatusEffectManager().getAuras(), serenityRatio);
+    }
+    
     // Phase 4: Render ability effects
     if (systemContext) {
       this.abilityRenderer.update(deltaTime);
@@ -210,15 +248,44 @@ export class CanvasRenderer {
     }
     
     // Render UI overlay
-    this.renderUI(state, undefined, deltaTime);
+    this.renderUI(state, systemContext, deltaTime);
   }
   
   /**
    * Render UI overlay
    */
-  renderUI(state: GameState, abilitySystem?: any, deltaTime: number = 0.016): void {
+  renderUI(state: GameState, systemContext?: SystemContext, deltaTime: number = 0.016): void {
     if (this.liquidWatermediaUIRenderer) {
-      this.liquidWatermediaUIRenderer.render(state, abilitySystem, deltaTime);
+      this.liquidWatermediaUIRenderer.render(state, systemContext, deltaTime);
+    }
+    
+    // Render branch choice (shown while an ability waits at a branch point)
+    if (this.fluidBranchChoice && this.liquidWatermediaUIRenderer) {
+      this.syncBranchChoice(systemContext);
+      if (this.fluidBranchChoice.getIsVisible()) {
+        const fluidField = this.liquidWatermediaUIRenderer.getFluidField();
+        this.fluidBranchChoice.update(deltaTime, fluidField, []);
+        this.fluidBranchChoice.render(this.uiCtx, Date.now() * 0.001);
+      }
+    }
+    
+    // Render offline progress summary (resumed run) over the branch choice
+    if (this.fluidOfflineSummary && this.fluidOfflineSummary.getIsVisible() && this.liquidWatermediaUIRenderer) {
+      const fluidField = this.liquidWatermediaUIRenderer.getFluidField();
+      this.fluidOfflineSummary.update(deltaTime, fluidField, []);
+      this.fluidOfflineSummary.render(this.uiCtx, Date.now() * 0.001);
+    }
+    
+    // Render reflection screen (game over) over the HUD
+    if (this.fluidReflectionScreen && this.fluidReflectionScreen.getIsVisible() && this.liquidWatermediaUIRenderer) {
+      const fluidField = this.liquidWatermediaUIRenderer.getFluidField();
+      this.fluidReflectionScreen.update(deltaTime, fluidField, []);
+      this.fluidReflectionScreen.render(this.uiCtx, Date.now() * 0.001);
+    }
+    
+    // Render replay playback banner over everything but the developer panel
+    if (this.fluidReplayStatus && this.fluidReplayStatus.getIsVisible()) {
+      this.fluidReplayStatus.render(this.uiCtx, Date.now() * 0.001);
     }
     
     // Render developer panel if visible
@@ -238,6 +305,9 @@ export class CanvasRenderer {
     if (this.fluidStatsTable) {
       this.fluidStatsTable.updateMousePos(pos);
     }
+    if (this.fluidBranchChoice) {
+      this.fluidBranchChoice.updateMousePos(pos);
+    }
     if (this.developerPanel) {
       this.developerPanel.updateMousePos(pos);
     }
@@ -261,6 +331,59 @@ export class CanvasRenderer {
     return null;
   }
   
+  /**
+   * Check if a branch card was clicked
+   */
+  checkBranchClick(mousePos: Vector2): { ability: keyof AbilityState; branchId: string } | null {
+    if (!this.fluidBranchChoice || this.isDeveloperPanelVisible()) return null;
+    
+    const choice = this.fluidBranchChoice.getChoice();
+    const branchId = this.fluidBranchChoice.checkClick(mousePos);
+    return choice && branchId ? { ability: choice.ability, branchId } : null;
+  }
+  
+  /**
+   * Branch offered under a number key (1-based) while the branch choice is open
+   */
+  getBranchForKey(keyNumber: number): { ability: keyof AbilityState; branchId: string } | null {
+    if (!this.fluidBranchChoice) return null;
+    
+    const choice = this.fluidBranchChoice.getChoice();
+    const branchId = this.fluidBranchChoice.getBranchIdForKey(keyNumber);
+    return choice && branchId ? { ability: choice.ability, branchId } : null;
+  }
+  
+  isBranchChoiceVisible(): boolean {
+    return this.fluidBranchChoice ? this.fluidBranchChoice.getIsVisible() : false;
+  }
+  
+  /**
+   * Show, switch or hide the branch choice to match the pending choice
+   */
+  private syncBranchChoice(systemContext?: SystemContext): void {
+    if (!this.fluidBranchChoice) return;
+    
+    const pending = systemContext ? systemContext.getPendingBranchChoice() : null;
+    const current = this.fluidBranchChoice.getChoice();
+    
+    if (!pending) {
+      if (this.fluidBranchChoice.getIsVisible()) {
+        this.fluidBranchChoice.hide();
+      }
+    } else if (!current || current.ability !== pending.ability || current.level !== pending.level) {
+      this.fluidBranchChoice.show(pending);
+    }
+  }
+  
+  /**
+   * Visual feedback for a purchased upgrade
+   */
+  private onUpgradePurchased(purchase: UpgradePurchase): void {
+    if (this.liquidWatermediaUIRenderer) {
+      this.liquidWatermediaUIRenderer.onUpgradePurchased(purchase.ability);
+    }
+  }
+  
   /**
    * Toggle developer panel visibility
    */
@@ -307,10 +430,22 @@ export class CanvasRenderer {
   }
   
   /**
-   * Set game instance for settings propagation
+   * Set game instance for settings propagation and subscribe to its events
    */
   setGameInstance(game: Game): void {
+    this.unsubscribeGameEvents.forEach(unsubscribe => unsubscribe());
     this.gameInstance = game;
+    
+    const events = game.getEvents();
+    this.unsubscribeGameEvents = [
+      events.on('abilityTriggered', (event) => {
+        if (event.ability === 'release') {
+          this.abilityFluidBridge.onReleaseTriggered();
+          this.abilityRenderer.onReleaseTriggered();
+        }
+      }, { presentation: true }),
+      events.on('upgradePurchased', (purchase) => this.onUpgradePurchased(purchase), { presentation: true })
+    ];
   }
   
   /**
@@ -340,9 +475,9 @@ export class CanvasRenderer {
   /**
    * Render stats table
    */
-  renderStatsTable(state: GameState, stressors: any[]): void {
+  renderStatsTable(state: GameState, stressors: any[], statusEffects: StatusEffectManager | null = null): void {
     if (this.fluidStatsTable && this.liquidWatermediaUIRenderer) {
-      this.fluidStatsTable.show(state, stressors);
+      this.fluidStatsTable.show(state, stressors, statusEffects);
       const fluidField = this.liquidWatermediaUIRenderer.getFluidField();
       this.fluidStatsTable.update(0.016, fluidField, []);
       this.fluidStatsTable.render(this.uiCtx, Date.now() * 0.001);
@@ -350,17 +485,73 @@ export class CanvasRenderer {
   }
   
   /**
-   * Render reflection screen (game over)
+   * Show reflection screen (game over)
    */
-  renderReflection(duration: number, wave: number, insight: number): void {
-    if (this.fluidReflectionScreen && this.liquidWatermediaUIRenderer) {
+  showReflection(duration: number, wave: number, insight: number): void {
+    if (this.fluidReflectionScreen) {
       this.fluidReflectionScreen.show(duration, wave, insight);
-      const fluidField = this.liquidWatermediaUIRenderer.getFluidField();
-      this.fluidReflectionScreen.update(0.016, fluidField, []);
-      this.fluidReflectionScreen.render(this.uiCtx, Date.now() * 0.001);
     }
   }
   
+  /**
+   * Hide reflection screen
+   */
+  hideReflection(): void {
+    if (this.fluidReflectionScreen) {
+      this.fluidReflectionScreen.hide();
+    }
+  }
+  
+  isReflectionVisible(): boolean {
+    return this.fluidReflectionScreen ? this.fluidReflectionScreen.getIsVisible() : false;
+  }
+  
+  /**
+   * Show the "while you were away" summary for a resumed run
+   */
+  showOfflineSummary(summary: OfflineProgressSummary): void {
+    if (this.fluidOfflineSummary) {
+      this.fluidOfflineSummary.show(summary);
+    }
+  }
+  
+  hideOfflineSummary(): void {
+    if (this.fluidOfflineSummary) {
+      this.fluidOfflineSummary.hide();
+    }
+  }
+  
+  isOfflineSummaryVisible(): boolean {
+    return this.fluidOfflineSummary ? this.fluidOfflineSummary.getIsVisible() : false;
+  }
+  
+  /**
+   * Give the developer panel a rewind buffer to scrub (dev builds only)
+   */
+  setRewindBuffer(buffer: RewindBuffer | null): void {
+    if (this.developerPanel) {
+      this.developerPanel.setRewindBuffer(buffer);
+    }
+  }
+  
+  /**
+   * Show replay playback progress (null hides the banner)
+   */
+  setReplayStatus(status: ReplayStatus | null): void {
+    if (this.fluidReplayStatus) {
+      this.fluidReplayStatus.setStatus(status);
+    }
+  }
+  
+  /**
+   * Clear the fluid field and any lingering effects (call when a new run starts)
+   */
+  resetFluid(): void {
+    this.liquidField.clear();
+    this.effectPrimitives.clearAll();
+    this.stressorFluidBridge.reset();
+  }
+  
   /**
    * Render FPS display
    */
@@ -414,6 +605,20 @@ export class CanvasRenderer {
       this.fluidReflectionScreen.setTargetPosition({ x: width / 2, y: height / 2 });
     }
     
+    if (this.fluidBranchChoice) {
+      this.fluidBranchChoice.setDimensions(width, height);
+      this.fluidBranchChoice.setTargetPosition({ x: width / 2, y: height / 2 });
+    }
+    
+    if (this.fluidOfflineSummary) {
+      this.fluidOfflineSummary.setDimensions(width, height);
+      this.fluidOfflineSummary.setTargetPosition({ x: width / 2, y: height / 2 });
+    }
+    
+    if (this.fluidReplayStatus) {
+      this.fluidReplayStatus.setDimensions(width, height);
+    }
+    
     // Resize developer panel
     if (this.developerPanel) {
       this.developerPanel.setDimensions(width, height);
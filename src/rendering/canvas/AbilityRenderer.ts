@@ -13,12 +13,20 @@ export class AbilityRenderer {
   private width: number;
   private height: number;
   private time: number = 0;
+  private releasePending: boolean = false; // Release triggered since the last render
   
   constructor(width: number, height: number) {
     this.width = width;
     this.height = height;
   }
   
+  /**
+   * Queue the Release flash for the next render
+   */
+  onReleaseTriggered(): void {
+    this.releasePending = true;
+  }
+  
   /**
    * Update renderer (advances animation time)
    */
@@ -40,11 +48,11 @@ export class AbilityRenderer {
     center: Vector2,
     serenityRatio: number
   ): void {
-    const affirmActive = context.getAffirmAmplification() > 1.0;
+    const affirmActive = context.isAffirmActive();
     
     // Breathe: Pulsing circle
     if (context.isAuraActive()) {
-      const breathRadius = getBreathRadius(context.getBreatheCycleProgress());
+      const breathRadius = context.getModifiedRadius('breathe', getBreathRadius(context.getBreatheCycleProgress()));
       if (Number.isFinite(breathRadius) && breathRadius > 0) {
         const breathColors = getAbilityColor('breathe', serenityRatio, affirmActive);
         const color = this.hexToRgb(breathColors.primary);
@@ -113,21 +121,23 @@ export class AbilityRenderer {
     
     // Mantra: Beam line
     if (context.isMantraBeamActive()) {
-      const targetId = context.getMantraTargetId();
+      const targetIds = context.getMantraTargetIds();
       const stressors = context.getStressors();
-      const target = stressors.find(s => s.id === targetId);
+      const mantraColors = getAbilityColor('mantra', serenityRatio, affirmActive);
+      const color = this.hexToRgb(mantraColors.primary);
       
-      if (target) {
-        const mantraColors = getAbilityColor('mantra', serenityRatio, affirmActive);
-        const color = this.hexToRgb(mantraColors.primary);
+      targetIds.forEach((targetId, index) => {
+        const target = stressors.find(s => s.id === targetId);
+        if (!target) return;
         
+        // Split branch beams are thinner than the primary
         ctx.beginPath();
         ctx.moveTo(center.x, center.y);
         ctx.lineTo(center.x + target.position.x, center.y + target.position.y);
-        ctx.strokeStyle = `rgba(${color.r}, ${color.g}, ${color.b}, 0.8)`;
-        ctx.lineWidth = 4;
+        ctx.strokeStyle = `rgba(${color.r}, ${color.g}, ${color.b}, ${index === 0 ? 0.8 : 0.5})`;
+        ctx.lineWidth = index === 0 ? 4 : 2;
         ctx.stroke();
-      }
+      });
     }
     
     // Ground: Field circle
@@ -151,7 +161,8 @@ export class AbilityRenderer {
     }
     
     // Release: Expanding clear effect
-    if (context.wasReleaseJustTriggered()) {
+    if (this.releasePending) {
+      this.releasePending = false;
       const releaseColors = getReleaseColor(serenityRatio);
       const color = this.hexToRgb(releaseColors.color);
       
@@ -1,10 +1,15 @@
-import { Stressor, Vector2 } from '../../types';
+import { Stressor, Vector2, PendingSpawn } from '../../types';
+import { AuraEffect } from '../../systems/effects/StatusEffect';
+import { GameConfig } from '../../GameConfig';
 import { getStressorColor } from '../../config/ColorConfig';
+import { getStressorDefinition, StressorMechanics } from '../../config/StressorDefinitions';
 
 /**
  * StressorRenderer - Renders stressors as circles on canvas
  * 
- * Simple canvas-based rendering with health-based opacity and pulse animation.
+ * Simple canvas-based rendering with health-based opacity and pulse animation,
+ * cues for each type's special mechanic, plus edge telegraphs for stressors
+ * about to spawn and a debug outline of aura radii.
  */
 export class StressorRenderer {
   private width: number;
@@ -53,21 +58,34 @@ export class StressorRenderer {
       
       // Calculate health-based opacity
       const healthRatio = Math.max(0, Math.min(1, stressor.health / stressor.maxHealth));
-      const baseOpacity = 0.6 + healthRatio * 0.4; // 0.6 to 1.0
+      let baseOpacity = 0.6 + healthRatio * 0.4; // 0.6 to 1.0
       
       // Add pulse animation (subtle)
       const pulse = Math.sin(this.time * 2) * 0.1 + 1.0; // 0.9 to 1.1
-      const radius = stressor.size * pulse;
+      let radius = stressor.size * pulse;
+      
+      const mechanics = getStressorDefinition(stressor.type).mechanics;
+      const intensity = Math.max(0, Math.min(1, stressor.mechanicIntensity ?? 0));
+      
+      // Self-Doubt shrinks and fades while retreating
+      if (mechanics.retreat) {
+        radius *= 1 - intensity * 0.3;
+        baseOpacity *= 1 - intensity * 0.4;
+      }
       
       // Validate radius before drawing
       if (!Number.isFinite(radius) || radius <= 0) continue;
       
+      const rgb = this.hexToRgb(color);
+      if (intensity > 0) {
+        this.renderMechanicCue(ctx, stressor, mechanics, intensity, x, y, radius, rgb);
+      }
+      
       // Draw stressor circle
       ctx.beginPath();
       ctx.arc(x, y, radius, 0, Math.PI * 2);
       
       // Fill with color and opacity
-      const rgb = this.hexToRgb(color);
       ctx.fillStyle = `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${baseOpacity})`;
       ctx.fill();
       
@@ -75,7 +93,139 @@ export class StressorRenderer {
       ctx.strokeStyle = `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${baseOpacity * 0.8})`;
       ctx.lineWidth = 2;
       ctx.stroke();
+      
+      // Urgency and cascade run hot: a bright core
+      if (mechanics.urgency || mechanics.cascade) {
+        ctx.beginPath();
+        ctx.arc(x, y, radius * 0.5, 0, Math.PI * 2);
+        ctx.fillStyle = `rgba(255, 240, 220, ${intensity * 0.45})`;
+        ctx.fill();
+      }
+    }
+  }
+  
+  /**
+   * Cue drawn beneath a stressor while its special mechanic is active:
+   * a motion streak for speed boosts (urgency, cascade) and shimmering
+   * rings for amplified wobble
+   */
+  private renderMechanicCue(
+    ctx: CanvasRenderingContext2D,
+    stressor: Stressor,
+    mechanics: StressorMechanics,
+    intensity: number,
+    x: number,
+    y: number,
+    radius: number,
+    rgb: { r: number; g: number; b: number }
+  ): void {
+    if (mechanics.urgency || mechanics.cascade) {
+      const speed = Math.sqrt(stressor.velocity.x ** 2 + stressor.velocity.y ** 2);
+      if (speed <= 0) return;
+      
+      // Streak trailing behind, longer as the boost grows
+      const length = radius * (2 + intensity * 4);
+      const tailX = x - (stressor.velocity.x / speed) * length;
+      const tailY = y - (stressor.velocity.y / speed) * length;
+      const streak = ctx.createLinearGradient(x, y, tailX, tailY);
+      streak.addColorStop(0, `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${0.2 + intensity * 0.4})`);
+      streak.addColorStop(1, `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0)`);
+      ctx.beginPath();
+      ctx.moveTo(x, y);
+      ctx.lineTo(tailX, tailY);
+      ctx.strokeStyle = streak;
+      ctx.lineWidth = radius * 1.2;
+      ctx.lineCap = 'round';
+      ctx.stroke();
+      ctx.lineCap = 'butt';
+    } else if (mechanics.amplification) {
+      // Static: offset rings jittering faster and wider with amplification
+      for (let i = 0; i < 2; i++) {
+        const phase = this.time * (12 + i * 5) + i * Math.PI;
+        const jitter = radius * 0.4 * intensity;
+        ctx.beginPath();
+        ctx.arc(x + Math.sin(phase) * jitter, y + Math.cos(phase * 1.3) * jitter, radius * (1.3 + i * 0.3), 0, Math.PI * 2);
+        ctx.strokeStyle = `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${0.15 + intensity * 0.3})`;
+        ctx.lineWidth = 1;
+        ctx.stroke();
+      }
+    }
+  }
+  
+  /**
+   * Render telegraphs for scheduled stressors: a bloom of the stressor's color
+   * at its spawn point that gathers as arrival nears, and a ring closing in on it.
+   * 
+   * @param ctx Canvas 2D context
+   * @param spawns Stressors arriving within SPAWN_TELEGRAPH_TIME
+   * @param simulationTime Current simulation time (seconds)
+   * @param serenityRatio Current serenity ratio (0-1) for color modulation
+   */
+  renderTelegraphs(
+    ctx: CanvasRenderingContext2D,
+    spawns: PendingSpawn[],
+    simulationTime: number,
+    serenityRatio: number
+  ): void {
+    const leadTime = GameConfig.SPAWN_TELEGRAPH_TIME;
+    if (leadTime <= 0) return;
+    
+    for (const spawn of spawns) {
+      const { x, y } = spawn.position;
+      if (!Number.isFinite(x) || !Number.isFinite(y)) continue;
+      
+      // 0 when the telegraph appears, 1 as the stressor arrives
+      const progress = Math.max(0, Math.min(1, 1 - (spawn.spawnTime - simulationTime) / leadTime));
+      const rgb = this.hexToRgb(getStressorColor(spawn.type, serenityRatio));
+      
+      // Bloom gathers and brightens
+      const bloomRadius = 40 - progress * 16;
+      const bloom = ctx.createRadialGradient(x, y, 0, x, y, bloomRadius);
+      bloom.addColorStop(0, `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${0.15 + progress * 0.35})`);
+      bloom.addColorStop(1, `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0)`);
+      ctx.fillStyle = bloom;
+      ctx.beginPath();
+      ctx.arc(x, y, bloomRadius, 0, Math.PI * 2);
+      ctx.fill();
+      
+      // Ring closes in, breathing slightly
+      const pulse = Math.sin(this.time * 8) * 0.05 + 1.0;
+      const ringRadius = (30 - progress * 20) * pulse;
+      ctx.beginPath();
+      ctx.arc(x, y, ringRadius, 0, Math.PI * 2);
+      ctx.strokeStyle = `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${0.3 + progress * 0.5})`;
+      ctx.lineWidth = 1.5;
+      ctx.stroke();
+    }
+  }
+  
+  /**
+   * Debug overlay: outline each aura's radius in its source's color, dashed for
+   * auras that weaken abilities, labelled with effect and strength
+   */
+  renderAuraRadii(ctx: CanvasRenderingContext2D, auras: AuraEffect[], serenityRatio: number): void {
+    ctx.save();
+    ctx.font = '10px sans-serif';
+    ctx.textAlign = 'center';
+    
+    for (const aura of auras) {
+      const { x, y } = aura.position;
+      const rgb = this.hexToRgb(getStressorColor(aura.sourceType, serenityRatio));
+      
+      ctx.beginPath();
+      ctx.arc(x, y, aura.radius, 0, Math.PI * 2);
+      ctx.fillStyle = `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0.05)`;
+      ctx.fill();
+      ctx.setLineDash(aura.targets === 'abilities' ? [6, 4] : []);
+      ctx.strokeStyle = `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0.6)`;
+      ctx.lineWidth = 1;
+      ctx.stroke();
+      
+      ctx.fillStyle = `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0.9)`;
+      ctx.fillText(`${aura.effectType} ${Math.round(aura.value * 100)}%`, x, y - aura.radius - 4);
     }
+    
+    ctx.restore();
   }
   
   /**
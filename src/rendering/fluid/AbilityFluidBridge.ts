@@ -16,6 +16,7 @@ export class AbilityFluidBridge {
   private effectPrimitives: EffectPrimitives;
   private width: number;
   private height: number;
+  private releasePending: boolean = false; // Release triggered since the last update
   
   constructor(effectPrimitives: EffectPrimitives, width: number, height: number) {
     this.effectPrimitives = effectPrimitives;
@@ -23,6 +24,13 @@ export class AbilityFluidBridge {
     this.height = height;
   }
   
+  /**
+   * Queue the Release clearing effect for the next update
+   */
+  onReleaseTriggered(): void {
+    this.releasePending = true;
+  }
+  
   /**
    * Update ability effects - maps abilities to fluid effects
    * 
@@ -37,12 +45,12 @@ export class AbilityFluidBridge {
     serenityRatio: number,
     deltaTime: number
   ): void {
-    const affirmActive = context.getAffirmAmplification() > 1.0;
+    const affirmActive = context.isAffirmActive();
     const affirmAmplification = context.getAffirmAmplification();
     
     // Breathe: AddPigment (lavender) + ModifyFlow (slow)
     if (context.isAuraActive()) {
-      const breathRadius = getBreathRadius(context.getBreatheCycleProgress());
+      const breathRadius = context.getModifiedRadius('breathe', getBreathRadius(context.getBreatheCycleProgress()));
       const breathColors = getAbilityColor('breathe', serenityRatio, affirmActive);
       const color = this.hexToRgb(breathColors.primary);
       
@@ -164,13 +172,14 @@ export class AbilityFluidBridge {
     
     // Mantra: Focused AddPigment beam
     if (context.isMantraBeamActive()) {
-      const targetId = context.getMantraTargetId();
+      const targetIds = context.getMantraTargetIds();
       const stressors = context.getStressors();
-      const target = stressors.find(s => s.id === targetId);
+      const mantraColors = getAbilityColor('mantra', serenityRatio, affirmActive);
+      const color = this.hexToRgb(mantraColors.primary);
       
-      if (target) {
-        const mantraColors = getAbilityColor('mantra', serenityRatio, affirmActive);
-        const color = this.hexToRgb(mantraColors.primary);
+      for (const targetId of targetIds) {
+        const target = stressors.find(s => s.id === targetId);
+        if (!target) continue;
         
         // Beam line from center to target
         const steps = 20;
@@ -212,7 +221,8 @@ export class AbilityFluidBridge {
     }
     
     // Release: Large ClearRegion
-    if (context.wasReleaseJustTriggered()) {
+    if (this.releasePending) {
+      this.releasePending = false;
       const releaseColors = getReleaseColor(serenityRatio);
       const color = this.hexToRgb(releaseColors.color);
       
@@ -79,6 +79,18 @@ export class LiquidField {
     this.gridHeight = height;
   }
   
+  /**
+   * Clear all pigment and flow (keeps resolution and parameters)
+   */
+  clear(): void {
+    for (let y = 0; y < this.gridHeight; y++) {
+      for (let x = 0; x < this.gridWidth; x++) {
+        this.grid[y][x] = createEmptyCell();
+      }
+    }
+    this.time = 0;
+  }
+  
   /**
    * Get cell at grid coordinates (clamped to bounds)
    */
@@ -1,75 +1,38 @@
-import { Stressor, StressorType, Vector2, RGB } from '../../types';
+import { Stressor, Vector2, RGB } from '../../types';
 import { LiquidField } from './LiquidField';
 import { getStressorColor } from '../../config/ColorConfig';
+import { getStressorDefinition } from '../../config/StressorDefinitions';
 import { ColorInterpolator } from '../../utils/ColorInterpolator';
 
-interface FluidBehaviorConfig {
-  diffusionRate: number;
-  viscosity: number;
-  baseStrength: number;
-}
-
 /**
  * StressorFluidBridge - Bridge between StressorSystem and grid-based LiquidField
  * 
- * Converts stressors to dye injections with type-specific behaviors.
- * Handles death bursts and serenity-based color modulation.
+ * Converts stressors to dye injections with type-specific behaviors (the
+ * fluid settings of each stressor definition).
+ * Handles death bursts (for types with onResolve effects, e.g. Overwhelm
+ * splitting) and serenity-based color modulation.
  */
 export class StressorFluidBridge {
   private width: number;
   private height: number;
-  private injectionRate: number = 1.0; // For LOD throttling
-  private previousStressorIds: Set<string> = new Set();
+  private static readonly BURST_DIRECTIONS = 6;
+  private static readonly BURST_FLOW = 40; // Outward flow pushed by a death burst
   
-  // Type-specific behavior mapping (simplified from WebGL version)
-  private typeBehaviors: Map<StressorType, FluidBehaviorConfig> = new Map([
-    [StressorType.IntrusiveThought, {
-      diffusionRate: 0.5,
-      viscosity: 0.3,
-      baseStrength: 0.4
-    }],
-    [StressorType.TimePressure, {
-      diffusionRate: 0.8,
-      viscosity: 0.2,
-      baseStrength: 0.6
-    }],
-    [StressorType.EnvironmentalNoise, {
-      diffusionRate: 0.6,
-      viscosity: 0.4,
-      baseStrength: 0.5
-    }],
-    [StressorType.Expectation, {
-      diffusionRate: 0.4,
-      viscosity: 0.5,
-      baseStrength: 0.3
-    }],
-    [StressorType.Fatigue, {
-      diffusionRate: 0.3,
-      viscosity: 0.6,
-      baseStrength: 0.4
-    }],
-    [StressorType.Impulse, {
-      diffusionRate: 0.9,
-      viscosity: 0.1,
-      baseStrength: 0.7
-    }],
-    [StressorType.SelfDoubt, {
-      diffusionRate: 0.5,
-      viscosity: 0.35,
-      baseStrength: 0.35
-    }],
-    [StressorType.Overwhelm, {
-      diffusionRate: 0.95,
-      viscosity: 0.15,
-      baseStrength: 0.75
-    }]
-  ]);
+  private injectionRate: number = 1.0; // For LOD throttling
+  private previousStressors: Map<string, Stressor> = new Map(); // Last frame's stressors by id
   
   constructor(width: number, height: number) {
     this.width = width;
     this.height = height;
   }
   
+  /**
+   * Forget tracked stressors (call when a new run starts)
+   */
+  reset(): void {
+    this.previousStressors.clear();
+  }
+  
   /**
    * Set injection rate for LOD throttling (0-1)
    */
@@ -89,13 +52,12 @@ export class StressorFluidBridge {
     field: LiquidField,
     serenityRatio: number
   ): void {
-    const currentIds = new Set<string>();
+    const current = new Map<string, Stressor>();
     
     for (const stressor of stressors) {
-      currentIds.add(stressor.id);
+      current.set(stressor.id, stressor);
       
-      const behavior = this.typeBehaviors.get(stressor.type);
-      if (!behavior) continue;
+      const behavior = getStressorDefinition(stressor.type).fluid;
       
       // Get serenity-modulated color
       const hexColor = getStressorColor(stressor.type, serenityRatio);
@@ -115,13 +77,6 @@ export class StressorFluidBridge {
         this.height
       );
       
-      // Increase turbulence for certain stressor types
-      if (stressor.type === StressorType.Overwhelm || 
-          stressor.type === StressorType.EnvironmentalNoise) {
-        // These stressors create more turbulence
-        // Note: Turbulence is handled in LiquidField.addPigment now
-      }
-      
       // Apply flow modification based on stressor velocity
       const speed = Math.sqrt(stressor.velocity.x ** 2 + stressor.velocity.y ** 2);
       if (speed > 0.1) {
@@ -139,31 +94,46 @@ export class StressorFluidBridge {
     }
     
     // Handle death bursts (detect stressors that disappeared)
-    this.handleDeathBursts(currentIds, stressors, field, serenityRatio);
+    this.handleDeathBursts(current, field, serenityRatio);
     
     // Update previous frame tracking
-    this.previousStressorIds = currentIds;
+    this.previousStressors = current;
   }
   
   /**
-   * Handle death bursts - create dramatic dye injection when stressors die
+   * Handle death bursts - a splash of dye pushed outward where a stressor with
+   * onResolve effects disappeared (stressor objects keep their last position)
    */
   private handleDeathBursts(
-    currentIds: Set<string>,
-    currentStressors: Stressor[],
+    current: Map<string, Stressor>,
     field: LiquidField,
     serenityRatio: number
   ): void {
-    // Find stressors that existed last frame but not this frame (deaths)
-    const deaths = Array.from(this.previousStressorIds).filter(id => !currentIds.has(id));
-    
-    // Create burst for each death
-    // Note: We don't have access to dead stressor properties, so we'll use a generic burst
-    // In a full implementation, we'd track stressor properties to create accurate death bursts
-    for (const deadId of deaths) {
-      // Find the stressor in current list before it died (if available)
-      // For now, create a generic burst at center
-      // This is a simplified implementation - full version would track stressor positions
+    for (const [id, stressor] of this.previousStressors) {
+      if (current.has(id)) continue;
+      const definition = getStressorDefinition(stressor.type);
+      if (definition.onResolve.length === 0) continue;
+      
+      const behavior = definition.fluid;
+      const color = ColorInterpolator.hexToRgb(getStressorColor(stressor.type, serenityRatio));
+      const radius = stressor.size * 3;
+      
+      field.addPigment(stressor.position, radius, color, behavior.baseStrength * 2, this.width, this.height);
+      
+      // Push flow outward in a ring around the burst
+      for (let i = 0; i < StressorFluidBridge.BURST_DIRECTIONS; i++) {
+        const angle = (Math.PI * 2 * i) / StressorFluidBridge.BURST_DIRECTIONS;
+        const direction = { x: Math.cos(angle), y: Math.sin(angle) };
+        const flow = StressorFluidBridge.BURST_FLOW * behavior.diffusionRate;
+        field.modifyFlow(
+          { x: stressor.position.x + direction.x * radius * 0.5, y: stressor.position.y + direction.y * radius * 0.5 },
+          radius * 0.5,
+          direction.x * flow,
+          direction.y * flow,
+          this.width,
+          this.height
+        );
+      }
     }
   }
   
@@ -1,9 +1,14 @@
-import { GameState, Vector2 } from '../../types';
+import { GameState, Vector2, AbilityState } from '../../types';
+import { SystemContext } from '../../systems/ISystem';
 import { FluidField } from './fluid/FluidField';
 import { FluidUIElement } from './fluid/FluidUIElement';
 import { FluidParticle } from './fluid/FluidParticle';
 import { LiquidWatermediaStateController } from '../watercolor/LiquidWatermediaStateController';
 import { SimpleStatsDisplay } from './elements/SimpleStatsDisplay';
+import { FluidInsightCrystal } from './elements/FluidInsightCrystal';
+import { FluidAbilityPalette } from './elements/FluidAbilityPalette';
+import { getAllAbilityDefinitions, AbilityType } from '../../config/AbilityDefinitions';
+import { getAbilityBaseColor } from '../watercolor/ColorPalette';
 
 /**
  * LiquidWatermediaUIRenderer manages all fluid UI elements and integrates
@@ -21,6 +26,14 @@ export class LiquidWatermediaUIRenderer {
   // Simple stats display
   private statsDisplay: SimpleStatsDisplay | null = null;
   
+  // Insight crystal (below stats)
+  private insightCrystal: FluidInsightCrystal | null = null;
+  
+  // Ability upgrade palette (bottom right)
+  private abilityPalette: FluidAbilityPalette | null = null;
+  private static readonly PALETTE_RADIUS = 150;
+  private static readonly PALETTE_MARGIN = 200; // Distance of palette center from bottom-right corner
+  
   private initialized: boolean = false;
   
   constructor(
@@ -46,6 +59,20 @@ export class LiquidWatermediaUIRenderer {
     });
     this.elements.push(this.statsDisplay);
     
+    // Insight crystal (below stats display)
+    this.insightCrystal = new FluidInsightCrystal({
+      x: 48,
+      y: 200
+    });
+    this.elements.push(this.insightCrystal);
+    
+    // Ability upgrade palette (bottom right)
+    this.abilityPalette = new FluidAbilityPalette(
+      this.getPaletteCenter(),
+      LiquidWatermediaUIRenderer.PALETTE_RADIUS
+    );
+    this.elements.push(this.abilityPalette);
+    
     this.initialized = true;
   }
   
@@ -53,7 +80,7 @@ export class LiquidWatermediaUIRenderer {
    * Main render method. Updates all fluid elements and particles,
    * then renders them with liquid watermedia effects.
    */
-  render(state: GameState, abilitySystem: any, deltaTime: number): void {
+  render(state: GameState, context: SystemContext | undefined, deltaTime: number): void {
     this.time += deltaTime;
     
     // Initialize elements on first render
@@ -65,7 +92,7 @@ export class LiquidWatermediaUIRenderer {
     this.fluidField.update(deltaTime);
     
     // Update element states from game state
-    this.updateElementStates(state, abilitySystem);
+    this.updateElementStates(state, context);
     
     // Update all elements with fluid dynamics
     for (const element of this.elements) {
@@ -87,11 +114,39 @@ export class LiquidWatermediaUIRenderer {
   /**
    * Update all element states from game state.
    */
-  private updateElementStates(state: GameState, abilitySystem: any): void {
+  private updateElementStates(state: GameState, context: SystemContext | undefined): void {
     // Update simple stats display
     if (this.statsDisplay) {
       this.statsDisplay.setState(state);
     }
+    
+    // Update insight crystal
+    if (this.insightCrystal) {
+      this.insightCrystal.setInsight(state.insight);
+    }
+    
+    // Update ability palette (levels, costs, affordability)
+    if (this.abilityPalette && context) {
+      const abilityState = context.getAbilities();
+      const abilities: Record<string, { level: number; maxLevel: number }> = {};
+      for (const key of Object.keys(abilityState) as (keyof AbilityState)[]) {
+        abilities[key] = abilityState[key];
+      }
+      const costFn = (key: string) => context.getUpgradeCost(key as keyof AbilityState);
+      
+      if (this.abilityPalette.getButtons().length === 0) {
+        const definitions = getAllAbilityDefinitions();
+        const names: Record<string, string> = {};
+        const colors: Record<string, string> = {};
+        for (const key of Object.keys(abilities) as AbilityType[]) {
+          names[key] = definitions[key].name;
+          colors[key] = getAbilityBaseColor(key);
+        }
+        this.abilityPalette.initializeButtons(abilities, names, colors, state.insight, costFn);
+      } else {
+        this.abilityPalette.updateButtons(abilities, state.insight, costFn);
+      }
+    }
   }
   
   /**
@@ -162,6 +217,9 @@ export class LiquidWatermediaUIRenderer {
    */
   updateMousePos(pos: Vector2): void {
     this.currentMousePos = pos;
+    if (this.abilityPalette) {
+      this.abilityPalette.updateMousePos(pos);
+    }
   }
   
   /**
@@ -169,16 +227,37 @@ export class LiquidWatermediaUIRenderer {
    * Returns the ability key if clicked, null otherwise.
    */
   checkAbilityClick(mousePos: Vector2): string | null {
-    // Simple UI doesn't have clickable elements yet
+    if (this.abilityPalette) {
+      return this.abilityPalette.checkClick(mousePos);
+    }
     return null;
   }
   
+  /**
+   * Visual feedback for a purchased upgrade.
+   */
+  onUpgradePurchased(ability: string): void {
+    if (this.abilityPalette) {
+      this.abilityPalette.playPurchaseRipple(ability);
+    }
+  }
+  
   /**
    * Resize the renderer (called when window resizes).
    */
   resize(width: number, height: number): void {
     this.width = width;
     this.height = height;
+    if (this.abilityPalette) {
+      this.abilityPalette.setCenterPosition(this.getPaletteCenter());
+    }
+  }
+  
+  private getPaletteCenter(): Vector2 {
+    return {
+      x: this.width - LiquidWatermediaUIRenderer.PALETTE_MARGIN,
+      y: this.height - LiquidWatermediaUIRenderer.PALETTE_MARGIN
+    };
   }
   
   /**
@@ -53,8 +53,8 @@ export class FluidAbilityButton extends FluidUIElement {
     this.isHovered = hovered;
     if (hovered && this.canAfford && !this.isMaxLevel) {
       // Color intensifies and bleeds outward
-      this.setTargetSize(this.size * 1.2);
-      this.blendRadius *= 1.5;
+      this.setTargetSize(36); // 1.2x base size
+      this.blendRadius = 90; // 1.5x base blend radius
       this.setTargetColor(this.buttonColor.saturate(0.2));
     } else {
       this.setTargetSize(30);
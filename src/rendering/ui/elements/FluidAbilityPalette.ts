@@ -3,6 +3,7 @@ import { Color } from '../fluid/Color';
 import { Vector2 } from '../../../types';
 import { FluidAbilityButton } from './FluidAbilityButton';
 import { distance } from '../../../utils/MathUtils';
+import { FluidParticle } from '../fluid/FluidParticle';
 
 /**
  * FluidAbilityPalette manages a flowing arrangement of ability buttons.
@@ -11,16 +12,36 @@ import { distance } from '../../../utils/MathUtils';
 export class FluidAbilityPalette extends FluidUIElement {
   private buttons: FluidAbilityButton[] = [];
   private centerPosition: Vector2;
-  private arrangementRadius: number = 200;
+  private arrangementRadius: number;
   private currentMousePos: Vector2 | null = null;
+  private particles: FluidParticle[] = [];
   
-  constructor(position: Vector2) {
+  constructor(position: Vector2, arrangementRadius: number = 200) {
     const initialColor = Color.fromRGB(135, 206, 235, 0.1); // Light blue, very transparent
     super(position, initialColor, 0); // No visual size, just container
     this.centerPosition = position;
+    this.arrangementRadius = arrangementRadius;
     this.blendRadius = 0;
   }
   
+  /**
+   * Move the arrangement center (e.g. after a resize).
+   */
+  setCenterPosition(position: Vector2): void {
+    this.centerPosition = { ...position };
+    this.setTargetPosition(position);
+  }
+  
+  /**
+   * Ripple feedback on the button for a purchased upgrade.
+   */
+  playPurchaseRipple(abilityKey: string): void {
+    const button = this.buttons.find(b => b.abilityName.toLowerCase() === abilityKey);
+    if (button) {
+      this.particles.push(...button.createRippleParticles());
+    }
+  }
+  
   /**
    * Initialize buttons from ability data.
    */
@@ -129,6 +150,12 @@ export class FluidAbilityPalette extends FluidUIElement {
         button.setHovered(false);
       }
     });
+    
+    // Update purchase ripples
+    this.particles = this.particles.filter(p => {
+      p.update(deltaTime, fluidField);
+      return !p.isExpired();
+    });
   }
   
   /**
@@ -198,6 +225,11 @@ export class FluidAbilityPalette extends FluidUIElement {
     for (const button of this.buttons) {
       button.render(ctx, time);
     }
+    
+    // Purchase ripples on top
+    for (const particle of this.particles) {
+      particle.render(ctx);
+    }
   }
   
   /**
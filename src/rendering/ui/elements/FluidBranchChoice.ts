@@ -0,0 +1,297 @@
+import { FluidUIElement } from '../fluid/FluidUIElement';
+import { Color } from '../fluid/Color';
+import { Vector2, PendingBranchChoice, AbilityBranch } from '../../../types';
+import { GameConfig } from '../../../GameConfig';
+import { getAbilityDefinition } from '../../../config/AbilityDefinitions';
+import { getAbilityBaseColor } from '../../watercolor/ColorPalette';
+
+const PANEL_WIDTH = 760;
+const PANEL_HEIGHT = 380;
+const CARD_GAP = 16;
+const CARD_TOP = 90; // Offset from panel top
+const CARD_BOTTOM = 50; // Space reserved for the hint below the cards
+
+/**
+ * FluidBranchChoice renders the branch selection modal shown when an ability
+ * reaches a branch point. Each branch is a card listing its effects; the player
+ * picks one by clicking a card or pressing its number key.
+ */
+export class FluidBranchChoice extends FluidUIElement {
+  private choice: PendingBranchChoice | null = null;
+  private fadeInProgress: number = 0;
+  private isVisible: boolean = false;
+  private hoveredCard: number | null = null;
+  private currentMousePos: Vector2 | null = null;
+  private width: number = 0;
+  private height: number = 0;
+
+  constructor(position: Vector2) {
+    const initialColor = Color.fromRGB(0, 0, 0, 0.85);
+    super(position, initialColor, 0);
+    this.blendRadius = 0;
+    this.setTargetOpacity(0);
+  }
+
+  /**
+   * Show the modal for a pending choice with fade-in effect.
+   */
+  show(choice: PendingBranchChoice): void {
+    this.choice = choice;
+    this.isVisible = true;
+    this.fadeInProgress = 0;
+    this.setTargetOpacity(1.0);
+    this.updateHoveredCard();
+  }
+
+  /**
+   * Hide the modal with fade-out effect.
+   */
+  hide(): void {
+    this.isVisible = false;
+    this.choice = null;
+    this.hoveredCard = null;
+    this.setTargetOpacity(0);
+  }
+
+  getIsVisible(): boolean {
+    return this.isVisible;
+  }
+
+  /**
+   * Choice currently being offered (null when hidden)
+   */
+  getChoice(): PendingBranchChoice | null {
+    return this.choice;
+  }
+
+  /**
+   * Update mouse position for hover detection.
+   */
+  updateMousePos(pos: Vector2): void {
+    this.currentMousePos = pos;
+    this.updateHoveredCard();
+  }
+
+  /**
+   * Branch id of the card under the click, or null.
+   */
+  checkClick(pos: Vector2): string | null {
+    if (!this.isVisible || !this.choice) return null;
+    const index = this.getCardIndexAt(pos);
+    return index !== null ? this.choice.branches[index].id : null;
+  }
+
+  /**
+   * Branch id for a 1-based number key, or null if out of range.
+   */
+  getBranchIdForKey(keyNumber: number): string | null {
+    if (!this.isVisible || !this.choice) return null;
+    const branch = this.choice.branches[keyNumber - 1];
+    return branch ? branch.id : null;
+  }
+
+  private updateHoveredCard(): void {
+    this.hoveredCard = this.currentMousePos && this.isVisible
+      ? this.getCardIndexAt(this.currentMousePos)
+      : null;
+  }
+
+  private getCardIndexAt(pos: Vector2): number | null {
+    if (!this.choice) return null;
+
+    for (let i = 0; i < this.choice.branches.length; i++) {
+      const card = this.getCardRect(i, this.choice.branches.length);
+      if (pos.x >= card.x && pos.x <= card.x + card.width &&
+          pos.y >= card.y && pos.y <= card.y + card.height) {
+        return i;
+      }
+    }
+    return null;
+  }
+
+  private getCardRect(index: number, count: number): { x: number; y: number; width: number; height: number } {
+    const panelX = (this.width - PANEL_WIDTH) / 2;
+    const panelY = (this.height - PANEL_HEIGHT) / 2;
+    const innerWidth = PANEL_WIDTH - 40;
+    const cardWidth = (innerWidth - CARD_GAP * (count - 1)) / count;
+
+    return {
+      x: panelX + 20 + index * (cardWidth + CARD_GAP),
+      y: panelY + CARD_TOP,
+      width: cardWidth,
+      height: PANEL_HEIGHT - CARD_TOP - CARD_BOTTOM
+    };
+  }
+
+  /**
+   * Get organic panel shape points (flowing blob).
+   */
+  private getPanelShape(time: number): Vector2[] {
+    const points: Vector2[] = [];
+    const numPoints = 16;
+
+    for (let i = 0; i < numPoints; i++) {
+      const angle = (i / numPoints) * Math.PI * 2;
+
+      // Add wobble for organic shape
+      const wobbleX = Math.sin(angle * 3 + time * 0.001) * 5;
+      const wobbleY = Math.cos(angle * 2 + time * 0.001) * 5;
+
+      points.push({
+        x: this.position.x + Math.cos(angle) * (PANEL_WIDTH / 2 + wobbleX),
+        y: this.position.y + Math.sin(angle) * (PANEL_HEIGHT / 2 + wobbleY)
+      });
+    }
+
+    return points;
+  }
+
+  render(ctx: CanvasRenderingContext2D, time: number): void {
+    if (!this.isVisible || !this.choice || this.opacity <= 0) return;
+
+    const panelY = (this.height - PANEL_HEIGHT) / 2;
+
+    // Update fade-in progress
+    this.fadeInProgress = Math.min(1, this.fadeInProgress + 0.05);
+    const alpha = this.opacity * this.fadeInProgress;
+
+    // Draw organic panel background
+    const panelShape = this.getPanelShape(time);
+    ctx.beginPath();
+    ctx.moveTo(panelShape[0].x, panelShape[0].y);
+    for (let i = 1; i < panelShape.length; i++) {
+      const point = panelShape[i];
+      const nextPoint = panelShape[(i + 1) % panelShape.length];
+      ctx.quadraticCurveTo(point.x, point.y, (point.x + nextPoint.x) / 2, (point.y + nextPoint.y) / 2);
+    }
+    ctx.closePath();
+
+    const gradient = ctx.createRadialGradient(
+      this.position.x, this.position.y, 0,
+      this.position.x, this.position.y, PANEL_WIDTH / 2
+    );
+    gradient.addColorStop(0, this.color.withAlpha(0.9 * alpha).toString());
+    gradient.addColorStop(1, this.color.withAlpha(0.75 * alpha).toString());
+    ctx.fillStyle = gradient;
+    ctx.fill();
+
+    // Edge darkening (pigment pooling)
+    ctx.strokeStyle = this.color.darken(0.2).withAlpha(0.8 * alpha).toString();
+    ctx.lineWidth = 3;
+    ctx.stroke();
+
+    // Title
+    const abilityName = getAbilityDefinition(this.choice.ability).name;
+    const gold = Color.fromHex(GameConfig.COLOR_HIGH_SERENITY.gold);
+    ctx.fillStyle = gold.withAlpha(alpha).toString();
+    ctx.font = 'bold 24px serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ctx.shadowBlur = 4;
+    ctx.shadowColor = gold.darken(0.3).withAlpha(0.6 * alpha).toString();
+    ctx.fillText(`${abilityName} - Level ${this.choice.level}`, this.position.x, panelY + 24);
+    ctx.shadowBlur = 0;
+
+    ctx.fillStyle = Color.fromRGB(255, 255, 255).withAlpha(0.8 * alpha).toString();
+    ctx.font = '14px serif';
+    ctx.fillText('Choose a path to continue growing', this.position.x, panelY + 58);
+
+    // Branch cards
+    const abilityColor = Color.fromHex(getAbilityBaseColor(this.choice.ability));
+    const count = this.choice.branches.length;
+    this.choice.branches.forEach((branch, index) => {
+      this.renderCard(ctx, branch, index, this.getCardRect(index, count), abilityColor, alpha);
+    });
+
+    // Hint
+    ctx.fillStyle = Color.fromRGB(255, 255, 255).withAlpha(0.5 * alpha).toString();
+    ctx.font = '12px serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ctx.fillText(`Click a path or press 1-${count} to choose`, this.position.x, panelY + PANEL_HEIGHT - 32);
+  }
+
+  private renderCard(
+    ctx: CanvasRenderingContext2D,
+    branch: AbilityBranch,
+    index: number,
+    rect: { x: number; y: number; width: number; height: number },
+    abilityColor: Color,
+    alpha: number
+  ): void {
+    const isHovered = this.hoveredCard === index;
+    const padding = 12;
+    const textWidth = rect.width - padding * 2;
+
+    // Card background (ability color bleeds in on hover)
+    const cardGradient = ctx.createLinearGradient(rect.x, rect.y, rect.x, rect.y + rect.height);
+    cardGradient.addColorStop(0, abilityColor.withAlpha((isHovered ? 0.35 : 0.18) * alpha).toString());
+    cardGradient.addColorStop(1, abilityColor.withAlpha((isHovered ? 0.15 : 0.05) * alpha).toString());
+    ctx.fillStyle = cardGradient;
+    ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+
+    ctx.strokeStyle = abilityColor.withAlpha((isHovered ? 0.9 : 0.4) * alpha).toString();
+    ctx.lineWidth = isHovered ? 2 : 1;
+    ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+
+    // Name with key hint
+    let currentY = rect.y + padding;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = abilityColor.lerp(Color.fromRGB(255, 255, 255), 0.3).withAlpha(alpha).toString();
+    ctx.font = 'bold 16px serif';
+    ctx.fillText(`${index + 1}. ${branch.name}`, rect.x + padding, currentY);
+    currentY += 26;
+
+    // Description
+    ctx.fillStyle = Color.fromRGB(255, 255, 255).withAlpha(0.85 * alpha).toString();
+    ctx.font = 'italic 13px serif';
+    for (const line of this.wrapText(ctx, branch.description, textWidth)) {
+      ctx.fillText(line, rect.x + padding, currentY);
+      currentY += 17;
+    }
+    currentY += 8;
+
+    // Effects
+    ctx.fillStyle = Color.fromRGB(255, 255, 255).withAlpha(0.75 * alpha).toString();
+    ctx.font = '12px serif';
+    for (const effect of branch.effects) {
+      const lines = this.wrapText(ctx, effect.description, textWidth - 12);
+      lines.forEach((line, lineIndex) => {
+        ctx.fillText(lineIndex === 0 ? `• ${line}` : `  ${line}`, rect.x + padding, currentY);
+        currentY += 16;
+      });
+      currentY += 4;
+    }
+  }
+
+  /**
+   * Split text into lines that fit within maxWidth using the current font.
+   */
+  private wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+    const words = text.split(' ');
+    const lines: string[] = [];
+    let line = '';
+
+    for (const word of words) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) lines.push(line);
+
+    return lines;
+  }
+
+  /**
+   * Set dimensions for hit testing.
+   */
+  setDimensions(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+  }
+}
@@ -0,0 +1,136 @@
+import { FluidUIElement } from '../fluid/FluidUIElement';
+import { Color } from '../fluid/Color';
+import { Vector2, OfflineProgressSummary } from '../../../types';
+import { GameConfig } from '../../../GameConfig';
+
+const PANEL_WIDTH = 520;
+const PANEL_HEIGHT = 320;
+
+/**
+ * FluidOfflineSummary renders the "while you were away" panel shown when a saved
+ * run resumes with offline progress. It stays up until the player dismisses it.
+ */
+export class FluidOfflineSummary extends FluidUIElement {
+  private summary: OfflineProgressSummary | null = null;
+  private fadeInProgress: number = 0;
+  private isVisible: boolean = false;
+  private width: number = 0;
+  private height: number = 0;
+
+  constructor(position: Vector2) {
+    const initialColor = Color.fromRGB(0, 0, 0, 0.85);
+    super(position, initialColor, 0);
+    this.blendRadius = 0;
+    this.setTargetOpacity(0);
+  }
+
+  /**
+   * Show the summary with fade-in effect.
+   */
+  show(summary: OfflineProgressSummary): void {
+    this.summary = summary;
+    this.isVisible = true;
+    this.fadeInProgress = 0;
+    this.setTargetOpacity(1.0);
+  }
+
+  /**
+   * Hide the summary.
+   */
+  hide(): void {
+    this.isVisible = false;
+    this.summary = null;
+    this.setTargetOpacity(0);
+  }
+
+  getIsVisible(): boolean {
+    return this.isVisible;
+  }
+
+  render(ctx: CanvasRenderingContext2D, time: number): void {
+    if (!this.isVisible || !this.summary || this.opacity <= 0) return;
+
+    const summary = this.summary;
+    const panelX = (this.width - PANEL_WIDTH) / 2;
+    const panelY = (this.height - PANEL_HEIGHT) / 2;
+
+    // Update fade-in progress
+    this.fadeInProgress = Math.min(1, this.fadeInProgress + 0.05);
+    const alpha = this.opacity * this.fadeInProgress;
+
+    // Panel background (soft breathing edge)
+    const breath = Math.sin(time * 0.8) * 4;
+    const gradient = ctx.createRadialGradient(
+      this.position.x, this.position.y, 0,
+      this.position.x, this.position.y, PANEL_WIDTH / 2 + breath
+    );
+    gradient.addColorStop(0, this.color.withAlpha(0.9 * alpha).toString());
+    gradient.addColorStop(1, this.color.withAlpha(0.75 * alpha).toString());
+    ctx.fillStyle = gradient;
+    ctx.fillRect(panelX, panelY, PANEL_WIDTH, PANEL_HEIGHT);
+
+    ctx.strokeStyle = this.color.darken(0.2).withAlpha(0.8 * alpha).toString();
+    ctx.lineWidth = 3;
+    ctx.strokeRect(panelX, panelY, PANEL_WIDTH, PANEL_HEIGHT);
+
+    // Title
+    const gold = Color.fromHex(GameConfig.COLOR_HIGH_SERENITY.gold);
+    ctx.fillStyle = gold.withAlpha(alpha).toString();
+    ctx.font = 'bold 26px serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ctx.shadowBlur = 4;
+    ctx.shadowColor = gold.darken(0.3).withAlpha(0.6 * alpha).toString();
+    ctx.fillText('While you were away', this.position.x, panelY + 28);
+    ctx.shadowBlur = 0;
+
+    ctx.fillStyle = Color.fromRGB(255, 255, 255).withAlpha(0.7 * alpha).toString();
+    ctx.font = 'italic 14px serif';
+    const capped = summary.creditedTime < summary.awayTime;
+    ctx.fillText(
+      `Away for ${formatDuration(summary.awayTime)}${capped ? ` (progress capped at ${formatDuration(summary.creditedTime)})` : ''}`,
+      this.position.x,
+      panelY + 66
+    );
+
+    // Results
+    const lines = [
+      summary.wavesSurvived > 0
+        ? `Waves survived: ${summary.wavesSurvived} (wave ${summary.startWave} to ${summary.endWave})`
+        : `Still holding wave ${summary.endWave}`,
+      `Insight gained: +${summary.insightEarned}`,
+      `Serenity: ${summary.serenityChange < 0 ? summary.serenityChange.toFixed(0) : 'undisturbed'}`
+    ];
+    ctx.fillStyle = Color.fromRGB(255, 255, 255).withAlpha(0.9 * alpha).toString();
+    ctx.font = '20px serif';
+    lines.forEach((line, index) => {
+      ctx.fillText(line, this.position.x, panelY + 110 + index * 36);
+    });
+
+    if (summary.stalled) {
+      ctx.fillStyle = Color.fromRGB(255, 200, 150).withAlpha(0.85 * alpha).toString();
+      ctx.font = 'italic 15px serif';
+      ctx.fillText('The stressors grew too strong to hold back without you', this.position.x, panelY + 226);
+    }
+
+    // Continue hint (pulses)
+    const pulse = 0.5 + Math.sin(time * 2) * 0.15;
+    ctx.fillStyle = Color.fromRGB(255, 255, 255).withAlpha(pulse * alpha).toString();
+    ctx.font = '14px serif';
+    ctx.fillText('Press SPACE or click to continue', this.position.x, panelY + PANEL_HEIGHT - 40);
+  }
+
+  /**
+   * Set dimensions for rendering.
+   */
+  setDimensions(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+  }
+}
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
@@ -49,6 +49,10 @@ export class FluidReflectionScreen extends FluidUIElement {
     this.particles = [];
   }
   
+  getIsVisible(): boolean {
+    return this.isVisible;
+  }
+  
   /**
    * Create particles for dissipation effect.
    */
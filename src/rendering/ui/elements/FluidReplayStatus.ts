@@ -0,0 +1,77 @@
+import { FluidUIElement } from '../fluid/FluidUIElement';
+import { Color } from '../fluid/Color';
+import { Vector2 } from '../../../types';
+import { ReplayStatus } from '../../../replay/ReplayPlayer';
+import { GameConfig } from '../../../GameConfig';
+
+const BANNER_WIDTH = 440;
+const BANNER_HEIGHT = 64;
+
+/**
+ * FluidReplayStatus renders the replay playback banner: progress, speed and a
+ * warning once the playback stops matching the recording.
+ */
+export class FluidReplayStatus extends FluidUIElement {
+  private status: ReplayStatus | null = null;
+  private width: number = 0;
+  private height: number = 0;
+
+  constructor(position: Vector2) {
+    const initialColor = Color.fromRGB(0, 0, 0, 0.75);
+    super(position, initialColor, 0);
+    this.blendRadius = 0;
+  }
+
+  setStatus(status: ReplayStatus | null): void {
+    this.status = status;
+  }
+
+  getIsVisible(): boolean {
+    return this.status !== null;
+  }
+
+  render(ctx: CanvasRenderingContext2D, time: number): void {
+    const status = this.status;
+    if (!status) return;
+
+    const panelX = (this.width - BANNER_WIDTH) / 2;
+    const panelY = 16;
+
+    ctx.fillStyle = this.color.withAlpha(0.75).toString();
+    ctx.fillRect(panelX, panelY, BANNER_WIDTH, BANNER_HEIGHT);
+    ctx.strokeStyle = Color.fromHex(GameConfig.COLOR_HIGH_SERENITY.gold).withAlpha(0.6).toString();
+    ctx.lineWidth = 2;
+    ctx.strokeRect(panelX, panelY, BANNER_WIDTH, BANNER_HEIGHT);
+
+    // Progress
+    const progress = status.endTick > 0 ? Math.min(1, status.tick / status.endTick) : 1;
+    ctx.fillStyle = Color.fromHex(GameConfig.COLOR_HIGH_SERENITY.gold).withAlpha(0.5).toString();
+    ctx.fillRect(panelX, panelY + BANNER_HEIGHT - 4, BANNER_WIDTH * progress, 4);
+
+    const state = status.finished ? 'finished' : status.paused ? 'paused' : `${status.speed}x`;
+    ctx.fillStyle = Color.fromRGB(255, 255, 255).withAlpha(0.9).toString();
+    ctx.font = '16px serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    ctx.fillText(`Replay · tick ${status.tick} / ${status.endTick} · ${state}`, this.width / 2, panelY + 10);
+
+    if (status.mismatch) {
+      const pulse = 0.75 + Math.sin(time * 4) * 0.25;
+      ctx.fillStyle = Color.fromRGB(255, 140, 120).withAlpha(pulse).toString();
+      const sections = status.mismatch.sections.join(', ');
+      ctx.fillText(`Diverged from the recording at tick ${status.mismatch.tick} (${sections})`, this.width / 2, panelY + 34);
+    } else {
+      ctx.fillStyle = Color.fromRGB(255, 255, 255).withAlpha(0.6).toString();
+      ctx.font = 'italic 13px serif';
+      ctx.fillText('[ ] speed · P pause · . step · Esc exit', this.width / 2, panelY + 36);
+    }
+  }
+
+  /**
+   * Set dimensions for rendering.
+   */
+  setDimensions(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+  }
+}
@@ -3,6 +3,10 @@ import { Color } from '../fluid/Color';
 import { Vector2, GameState, Stressor } from '../../../types';
 import { GameConfig } from '../../../GameConfig';
 import { smoothstep } from '../../../utils/MathUtils';
+import { StressorDefinition, getAllStressorDefinitions } from '../../../config/StressorDefinitions';
+import { getWaveStressorCount } from '../../../systems/StressorSystem';
+import { StatusEffectManager } from '../../../systems/effects/StatusEffectManager';
+import { StatusEffectType } from '../../../systems/effects/StatusEffect';
 
 /**
  * FluidStatsTable renders the stats table with liquid watermedia effects.
@@ -11,6 +15,7 @@ import { smoothstep } from '../../../utils/MathUtils';
 export class FluidStatsTable extends FluidUIElement {
   private state: GameState | null = null;
   private stressors: Stressor[] = [];
+  private statusEffects: StatusEffectManager | null = null;
   private fadeInProgress: number = 0;
   private isVisible: boolean = false;
   private hoveredRow: number | null = null;
@@ -28,9 +33,10 @@ export class FluidStatsTable extends FluidUIElement {
   /**
    * Show the stats table with fade-in effect.
    */
-  show(state: GameState, stressors: Stressor[]): void {
+  show(state: GameState, stressors: Stressor[], statusEffects: StatusEffectManager | null = null): void {
     this.state = state;
     this.stressors = stressors;
+    this.statusEffects = statusEffects;
     this.isVisible = true;
     this.fadeInProgress = 0;
     this.setTargetOpacity(1.0);
@@ -79,7 +85,7 @@ export class FluidStatsTable extends FluidUIElement {
     const row = Math.floor((this.currentMousePos.y - startY) / lineHeight);
     
     // Check if row is valid (skip header row)
-    if (row > 0 && row <= 6) {
+    if (row > 0 && row <= this.getWaveStressors().length) {
       this.hoveredRow = row - 1; // -1 because header is row 0
     } else {
       this.hoveredRow = null;
@@ -191,8 +197,9 @@ export class FluidStatsTable extends FluidUIElement {
     const lineHeight = 35;
     const col1X = x + 20;
     const col2X = x + 150;
-    const col3X = x + 280;
-    const col4X = x + 380;
+    const col3X = x + 220;
+    const col4X = x + 290;
+    const col5X = x + 350;
     
     // Headers
     ctx.fillStyle = Color.fromHex(GameConfig.COLOR_HIGH_SERENITY.accent)
@@ -203,6 +210,7 @@ export class FluidStatsTable extends FluidUIElement {
     ctx.fillText('Speed', col2X, currentY);
     ctx.fillText('Health', col3X, currentY);
     ctx.fillText('Wave', col4X, currentY);
+    ctx.fillText('Damage Taken', col5X, currentY);
     
     currentY += lineHeight;
     
@@ -215,19 +223,11 @@ export class FluidStatsTable extends FluidUIElement {
     ctx.lineTo(x + panelWidth - 20, currentY - 5);
     ctx.stroke();
     
-    // Stressor types data
-    const stressorData = [
-      { name: 'Intrusive Thought', key: 'intrusive_thought', waves: '1-3', color: '#8B9DC3' },
-      { name: 'Time Pressure', key: 'time_pressure', waves: '4-5', color: '#FFB347' },
-      { name: 'Environmental Noise', key: 'environmental_noise', waves: '6-8', color: '#C8A2C8' },
-      { name: 'Expectation', key: 'expectation', waves: '9-10', color: '#FF6B6B' },
-      { name: 'Fatigue', key: 'fatigue', waves: '11-13', color: '#4A5568' },
-      { name: 'Impulse', key: 'impulse', waves: '14+', color: '#FF4757' }
-    ];
-    
-    stressorData.forEach((data, index) => {
+    this.getWaveStressors().forEach((definition, index) => {
+      const color = definition.palette.medium;
+      const waves = `${definition.unlockWave}+`;
       const isHovered = this.hoveredRow === index;
-      const isAvailable = this.isStressorAvailable(data.key, this.state!.wave);
+      const isAvailable = definition.unlockWave! <= this.state!.wave;
       
       // Row background (flows on hover)
       if (isHovered && isAvailable) {
@@ -235,9 +235,9 @@ export class FluidStatsTable extends FluidUIElement {
           col1X, currentY,
           x + panelWidth - 20, currentY
         );
-        hoverGradient.addColorStop(0, Color.fromHex(data.color)
+        hoverGradient.addColorStop(0, Color.fromHex(color)
           .withAlpha(0.2 * this.opacity).toString());
-        hoverGradient.addColorStop(1, Color.fromHex(data.color)
+        hoverGradient.addColorStop(1, Color.fromHex(color)
           .withAlpha(0.05 * this.opacity).toString());
         
         ctx.fillStyle = hoverGradient;
@@ -246,11 +246,11 @@ export class FluidStatsTable extends FluidUIElement {
       
       // Type name
       const typeColor = isAvailable 
-        ? Color.fromHex(data.color)
+        ? Color.fromHex(color)
         : Color.fromRGB(100, 100, 100);
       ctx.fillStyle = typeColor.withAlpha((isAvailable ? 0.9 : 0.4) * this.opacity).toString();
       ctx.font = isHovered ? 'bold 12px serif' : '12px serif';
-      ctx.fillText(data.name, col1X, currentY);
+      ctx.fillText(definition.name, col1X, currentY);
       
       if (isAvailable) {
         const healthMultiplier = Math.pow(GameConfig.STRESSOR_HEALTH_MULTIPLIER, this.state!.wave - 1);
@@ -258,23 +258,23 @@ export class FluidStatsTable extends FluidUIElement {
         const baseHealth = GameConfig.STRESSOR_BASE_HEALTH;
         const baseSpeed = GameConfig.STRESSOR_BASE_SPEED;
         
-        const typeConfig = GameConfig.STRESSOR_TYPES[data.key as keyof typeof GameConfig.STRESSOR_TYPES];
-        const health = baseHealth * healthMultiplier * (typeConfig?.health || 1);
-        const speed = baseSpeed * speedMultiplier * (typeConfig?.speed || 1);
+        const health = baseHealth * healthMultiplier * definition.stats.health;
+        const speed = baseSpeed * speedMultiplier * definition.stats.speed;
         
         ctx.fillStyle = Color.fromRGB(255, 255, 255)
           .withAlpha(0.9 * this.opacity).toString();
         ctx.font = '12px serif';
         ctx.fillText(`${speed.toFixed(0)}`, col2X, currentY);
         ctx.fillText(`${health.toFixed(1)}`, col3X, currentY);
-        ctx.fillText(data.waves, col4X, currentY);
+        ctx.fillText(waves, col4X, currentY);
+        ctx.fillText(this.getStatusSummary(definition.id), col5X, currentY);
       } else {
         ctx.fillStyle = Color.fromRGB(100, 100, 100)
           .withAlpha(0.4 * this.opacity).toString();
         ctx.font = '12px serif';
         ctx.fillText('-', col2X, currentY);
         ctx.fillText('-', col3X, currentY);
-        ctx.fillText(data.waves, col4X, currentY);
+        ctx.fillText(waves, col4X, currentY);
       }
       
       currentY += lineHeight;
@@ -308,7 +308,7 @@ export class FluidStatsTable extends FluidUIElement {
     currentY += 20;
     ctx.fillText(`Base Speed: ${(baseSpeed * speedMultiplier).toFixed(0)} px/s`, col1X, currentY);
     currentY += 20;
-    ctx.fillText(`Stressor Count: ${Math.floor(GameConfig.STRESSOR_BASE_COUNT * Math.pow(GameConfig.STRESSOR_COUNT_MULTIPLIER, this.state.wave - 1))}`, col1X, currentY);
+    ctx.fillText(`Stressor Count: ${getWaveStressorCount(this.state.wave)}`, col1X, currentY);
     currentY += 20;
     ctx.fillText(`Active Stressors: ${this.stressors.length}`, col1X, currentY);
     
@@ -320,13 +320,32 @@ export class FluidStatsTable extends FluidUIElement {
     ctx.fillText('Press T to close', this.position.x, y + panelHeight - 30);
   }
   
-  private isStressorAvailable(key: string, wave: number): boolean {
-    if (wave <= 3) return key === 'intrusive_thought';
-    if (wave <= 5) return key === 'intrusive_thought' || key === 'time_pressure';
-    if (wave <= 8) return key === 'intrusive_thought' || key === 'time_pressure' || key === 'environmental_noise';
-    if (wave <= 10) return key !== 'fatigue' && key !== 'impulse';
-    if (wave <= 13) return key !== 'impulse';
-    return true; // All available at wave 14+
+  /**
+   * Live stressors of a type under damage status effects (vulnerability, damage
+   * reduction): their average damage taken multiplier and how many of them are
+   * affected, e.g. "×1.19 3/5"
+   */
+  private getStatusSummary(type: string): string {
+    const live = this.stressors.filter(s => s.type === type && s.health > 0);
+    if (!this.statusEffects || live.length === 0) return '-';
+    
+    const multipliers = live
+      .map(s => this.statusEffects!.getEffectiveValue(StatusEffectType.VULNERABILITY, s.id) *
+        this.statusEffects!.getEffectiveValue(StatusEffectType.DAMAGE_REDUCTION, s.id))
+      .filter(multiplier => multiplier !== 1);
+    if (multipliers.length === 0) return `×1.00 0/${live.length}`;
+    
+    const average = multipliers.reduce((sum, multiplier) => sum + multiplier, 0) / multipliers.length;
+    return `×${average.toFixed(2)} ${multipliers.length}/${live.length}`;
+  }
+  
+  /**
+   * Stressor types that waves spawn, in unlock order
+   */
+  private getWaveStressors(): StressorDefinition[] {
+    return getAllStressorDefinitions()
+      .filter(definition => definition.unlockWave !== null)
+      .sort((a, b) => a.unlockWave! - b.unlockWave!);
   }
   
   /**
@@ -71,13 +71,19 @@ export class SimpleStatsDisplay extends FluidUIElement {
   private getStats(): Array<{ key: string; value: string }> {
     if (!this.state) return [];
     
-    return [
+    const stats = [
       { key: 'Serenity', value: `${Math.round(this.state.serenity)}/${this.state.maxSerenity}` },
       { key: 'Insight', value: Math.round(this.state.insight).toString() },
       { key: 'Wave', value: this.state.wave.toString() },
       { key: 'Wave Timer', value: `${Math.round(this.state.waveTimer)}s` },
-      { key: 'Pace', value: this.state.pace.toString() }
+      { key: 'Pace', value: `${this.state.pace.toFixed(2)}x` }
     ];
+    
+    if (this.state.isPaused) {
+      stats.push({ key: 'Paused', value: 'P to resume, . to step' });
+    }
+    
+    return stats;
   }
   
   getBounds(): { x: number; y: number; width: number; height: number } {
@@ -247,6 +247,13 @@ export function getAbilityColor(
   };
 }
 
+/**
+ * Get an ability's signature color as hex (high-serenity primary), for UI elements
+ */
+export function getAbilityBaseColor(ability: AbilityType): string {
+  return AbilityColors[ability].high.primary;
+}
+
 /**
  * Get color for exhale wave based on progress
  */
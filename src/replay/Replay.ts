@@ -0,0 +1,87 @@
+import { GameSnapshot } from '../Game';
+import { GameCommand } from '../types';
+import { isRecord, isFiniteNumber } from '../utils/VersionedStorage';
+import { StateTraceEntry } from './StateHash';
+
+/**
+ * Replay format
+ *
+ * A replay is everything needed to re-run a recorded session: the snapshot the
+ * recording started from (a fresh run holds just its seed and wave 0), the dev
+ * GameConfig overrides in effect, and every accepted player command with the tick
+ * it was applied at. State hashes taken along the way (see StateHash) let playback
+ * detect the first checkpoint where the re-run stops matching the recording.
+ */
+
+export const REPLAY_FORMAT_VERSION = 2; // 2: checkpoints are StateHash trace entries
+
+export type ReplayCommand = [tick: number, command: GameCommand]; // Applied once `tick` steps have run
+export type ReplayCheckpoint = StateTraceEntry; // State hashes once `tick` steps have run
+
+export interface Replay {
+  version: number;
+  recordedAt: number; // Wall-clock time the recording started (ms since epoch); metadata only
+  seed: number; // Seed of the recorded run (also in start.state.randomSeed)
+  configOverrides: Record<string, unknown>; // Dev panel settings that differed from their defaults
+  start: GameSnapshot;
+  commands: ReplayCommand[];
+  checkpoints: ReplayCheckpoint[];
+  endTick: number; // Tick the recording stopped at
+}
+
+const COMMAND_TYPES = new Set<GameCommand['type']>(['setPace', 'purchaseUpgrade', 'chooseBranch']);
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse and check a replay file. Throws with a description of the problem.
+ */
+export function parseReplay(json: string): Replay {
+  const data: unknown = JSON.parse(json);
+  const problem = validateReplay(data);
+  if (problem) {
+    throw new Error(`Replay is invalid: ${problem}`);
+  }
+  return data as Replay;
+}
+
+function validateReplay(data: unknown): string | null {
+  if (!isRecord(data)) return 'replay must be an object';
+  if (data.version !== REPLAY_FORMAT_VERSION) {
+    return `replay version ${String(data.version)} is not ${REPLAY_FORMAT_VERSION}`;
+  }
+  if (!isFiniteNumber(data.seed) || !isFiniteNumber(data.endTick)) return 'seed or end tick is missing';
+  if (!isRecord(data.configOverrides)) return 'config overrides are missing';
+  // The start snapshot is checked by Game.restoreSnapshot (which rejects other versions)
+  if (!isRecord(data.start) || !isFiniteNumber(data.start.version)) return 'start snapshot is missing';
+
+  if (!Array.isArray(data.commands)) return 'commands are missing';
+  for (const entry of data.commands) {
+    if (!Array.isArray(entry) || !isFiniteNumber(entry[0]) || !isCommand(entry[1])) {
+      return `malformed command ${JSON.stringify(entry)}`;
+    }
+  }
+
+  if (!Array.isArray(data.checkpoints)) return 'checkpoints are missing';
+  for (const entry of data.checkpoints) {
+    if (!Array.isArray(entry) || !isFiniteNumber(entry[0]) || typeof entry[1] !== 'string' || !Array.isArray(entry[2])) {
+      return `malformed checkpoint ${JSON.stringify(entry)}`;
+    }
+  }
+
+  return null;
+}
+
+function isCommand(value: unknown): value is GameCommand {
+  if (!isRecord(value) || !COMMAND_TYPES.has(value.type as GameCommand['type'])) return false;
+  switch (value.type) {
+    case 'setPace':
+      return isFiniteNumber(value.pace);
+    case 'purchaseUpgrade':
+      return typeof value.ability === 'string';
+    default:
+      return typeof value.ability === 'string' && typeof value.branchId === 'string';
+  }
+}
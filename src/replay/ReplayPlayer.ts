@@ -0,0 +1,164 @@
+import { Game } from '../Game';
+import { GameConfig } from '../GameConfig';
+import { ConfigUpdater } from '../ui/dev/ConfigUpdater';
+import { dev } from '../utils/dev';
+import { Replay } from './Replay';
+import { StateSection, createTraceEntry, findTraceDivergence } from './StateHash';
+
+export interface ReplayMismatch {
+  tick: number;
+  expected: string;
+  actual: string;
+  sections: StateSection[]; // Parts of the state that differ
+}
+
+export interface ReplayStatus {
+  tick: number;
+  endTick: number;
+  speed: number;
+  paused: boolean;
+  finished: boolean;
+  mismatch: ReplayMismatch | null; // First checkpoint that didn't match the recording
+}
+
+/**
+ * ReplayPlayer - Re-drives a Game from a replay
+ *
+ * Restores the replay's start snapshot under its config overrides, then runs
+ * fixed ticks (scaled by playback speed), applying each recorded command at
+ * its tick and comparing state hashes at the recorded checkpoints.
+ */
+export class ReplayPlayer {
+  private commandIndex: number = 0;
+  private checkpointIndex: number = 0;
+  private tickAccumulator: number = 0; // Speed-scaled seconds not yet played back
+  private speed: number = 1;
+  private paused: boolean = false;
+  private mismatch: ReplayMismatch | null = null;
+  private previousOverrides: Record<string, unknown> = {};
+
+  constructor(private game: Game, private replay: Replay) {}
+
+  /**
+   * Load the replay into the game. Returns false (leaving the game and config
+   * untouched) if its start snapshot can't be restored.
+   */
+  begin(): boolean {
+    this.previousOverrides = ConfigUpdater.getOverrides();
+    const rejected = ConfigUpdater.applyOverrides(this.replay.configOverrides);
+    if (rejected.length > 0) {
+      dev.warn('Replay config overrides not applied', rejected);
+    }
+
+    if (!this.game.restoreSnapshot(this.replay.start)) {
+      ConfigUpdater.applyOverrides(this.previousOverrides);
+      return false;
+    }
+    this.verifyCheckpoint();
+    return true;
+  }
+
+  /**
+   * Restore the config overrides that were in effect before playback.
+   */
+  end(): void {
+    ConfigUpdater.applyOverrides(this.previousOverrides);
+  }
+
+  /**
+   * Play back real frame time at the current speed.
+   */
+  update(deltaTime: number): void {
+    if (this.paused || this.isFinished()) return;
+
+    const frameDelta = Math.min(Math.max(deltaTime, 0), GameConfig.MAX_FRAME_DELTA);
+    this.tickAccumulator += frameDelta * this.speed;
+
+    let ticks = 0;
+    while (this.tickAccumulator >= GameConfig.SIMULATION_STEP && ticks < GameConfig.REPLAY_MAX_TICKS_PER_FRAME && !this.isFinished()) {
+      this.playTick();
+      this.tickAccumulator -= GameConfig.SIMULATION_STEP;
+      ticks++;
+    }
+
+    if (ticks >= GameConfig.REPLAY_MAX_TICKS_PER_FRAME) {
+      this.tickAccumulator = Math.min(this.tickAccumulator, GameConfig.SIMULATION_STEP);
+    }
+  }
+
+  /**
+   * Advance exactly one tick (while paused).
+   */
+  stepOnce(): void {
+    if (!this.paused || this.isFinished()) return;
+    this.playTick();
+  }
+
+  togglePause(): void {
+    this.paused = !this.paused;
+    this.tickAccumulator = 0;
+  }
+
+  /**
+   * Double or halve playback speed (negative steps slow down)
+   */
+  adjustSpeed(steps: number): void {
+    const speed = this.speed * Math.pow(2, steps);
+    this.speed = Math.max(GameConfig.REPLAY_SPEED_MIN, Math.min(GameConfig.REPLAY_SPEED_MAX, speed));
+  }
+
+  isFinished(): boolean {
+    return this.game.getTick() >= this.replay.endTick || this.game.getState().gameOver;
+  }
+
+  getStatus(): ReplayStatus {
+    return {
+      tick: this.game.getTick(),
+      endTick: this.replay.endTick,
+      speed: this.speed,
+      paused: this.paused,
+      finished: this.isFinished(),
+      mismatch: this.mismatch
+    };
+  }
+
+  /**
+   * Apply the commands recorded at the current tick, simulate it, then check the
+   * result against the recording
+   */
+  private playTick(): void {
+    const tick = this.game.getTick();
+    const commands = this.replay.commands;
+    while (this.commandIndex < commands.length && commands[this.commandIndex][0] <= tick) {
+      const [commandTick, command] = commands[this.commandIndex++];
+      if (!this.game.executeCommand(command)) {
+        dev.warn('Replay command rejected', { tick: commandTick, command });
+      }
+    }
+
+    this.game.advanceTick();
+    this.verifyCheckpoint();
+  }
+
+  /**
+   * Compare the state hashes with the recording at a checkpoint tick; only the first mismatch is kept
+   */
+  private verifyCheckpoint(): void {
+    const tick = this.game.getTick();
+    const checkpoints = this.replay.checkpoints;
+    while (this.checkpointIndex < checkpoints.length && checkpoints[this.checkpointIndex][0] < tick) {
+      this.checkpointIndex++; // Passed without being checked (e.g. the run ended early)
+    }
+
+    const checkpoint = checkpoints[this.checkpointIndex];
+    if (!checkpoint || checkpoint[0] !== tick) return;
+    this.checkpointIndex++;
+
+    const actual = createTraceEntry(this.game.createSnapshot());
+    const divergence = findTraceDivergence([checkpoint], [actual]);
+    if (divergence && !this.mismatch) {
+      this.mismatch = { tick, expected: checkpoint[1], actual: actual[1], sections: divergence.sections };
+      console.warn(`Replay diverged from the recording at tick ${tick}`, this.mismatch);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { Game } from '../Game';
+import { GameConfig } from '../GameConfig';
+import { ConfigUpdater } from '../ui/dev/ConfigUpdater';
+import { Replay, REPLAY_FORMAT_VERSION } from './Replay';
+import { createTraceEntry } from './StateHash';
+
+/**
+ * ReplayRecorder - Records the live run as a replay
+ *
+ * Captures the starting snapshot and config overrides when recording starts,
+ * every accepted command (from the game's commandExecuted events) and a state
+ * trace entry on every tick that is a multiple of STATE_HASH_INTERVAL_TICKS.
+ */
+export class ReplayRecorder {
+  private replay: Replay | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(private game: Game) {}
+
+  /**
+   * Start a new recording from the game's current state, discarding any previous one.
+   */
+  start(): void {
+    this.stop();
+
+    const start = this.game.createSnapshot();
+    this.replay = {
+      version: REPLAY_FORMAT_VERSION,
+      recordedAt: Date.now(),
+      seed: start.state.randomSeed,
+      configOverrides: ConfigUpdater.getOverrides(),
+      start,
+      commands: [],
+      checkpoints: [createTraceEntry(start)],
+      endTick: start.tick
+    };
+    this.resume();
+  }
+
+  /**
+   * Stop recording. The recording so far is kept (see resume).
+   */
+  stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  /**
+   * Continue a stopped recording. Only valid if the game is back at the tick it
+   * was stopped at (e.g. the run was saved and restored around a replay playback).
+   */
+  resume(): void {
+    if (!this.replay || this.isRecording()) return;
+    const events = this.game.getEvents();
+    this.unsubscribers.push(
+      events.on('commandExecuted', ({ tick, command }) => {
+        this.replay?.commands.push([tick, command]);
+      }),
+      events.on('tickCompleted', ({ tick }) => {
+        if (tick % GameConfig.STATE_HASH_INTERVAL_TICKS === 0) {
+          this.replay?.checkpoints.push(createTraceEntry(this.game.createSnapshot()));
+        }
+      })
+    );
+  }
+
+  isRecording(): boolean {
+    return this.unsubscribers.length > 0;
+  }
+
+  /**
+   * The recording up to the current tick, ending with a checkpoint at that tick.
+   */
+  getReplay(): Replay | null {
+    if (!this.replay) return null;
+
+    const tick = this.game.getTick();
+    const checkpoints = [...this.replay.checkpoints];
+    if (checkpoints[checkpoints.length - 1][0] !== tick) {
+      checkpoints.push(createTraceEntry(this.game.createSnapshot()));
+    }
+
+    return {
+      ...this.replay,
+      commands: [...this.replay.commands],
+      checkpoints,
+      endTick: tick
+    };
+  }
+}
@@ -0,0 +1,161 @@
+import { Game, GameSnapshot } from '../Game';
+import { GameConfig } from '../GameConfig';
+
+export interface RewindSelection {
+  index: number; // Position in the buffer, 0 = oldest
+  count: number;
+  snapshot: GameSnapshot;
+  secondsBehind: number; // Simulation seconds behind the newest snapshot
+}
+
+/**
+ * RewindBuffer - Dev-only time travel over recent game snapshots
+ *
+ * Keeps a ring buffer of the last REWIND_BUFFER_SECONDS of simulation, captured
+ * REWIND_CAPTURE_RATE times per simulation second. Scrubbing pauses the game and
+ * restores the selected snapshot so it can be inspected on screen; resuming
+ * continues the run from there and drops the snapshots after it.
+ */
+export class RewindBuffer {
+  private slots: GameSnapshot[] = [];
+  private head: number = 0; // Slot the next capture goes to
+  private count: number = 0;
+  private cursor: number | null = null; // Selected index while scrubbing
+  private unsubscribe?: () => void;
+  private onRestore?: (snapshot: GameSnapshot) => void;
+  private onResume?: (snapshot: GameSnapshot) => void;
+
+  constructor(private game: Game) {}
+
+  /**
+   * Start capturing, discarding anything captured before.
+   */
+  start(): void {
+    this.stop();
+    this.unsubscribe = this.game.getEvents().on('tickCompleted', ({ tick }) => {
+      if (this.cursor !== null) {
+        // Unpaused elsewhere while scrubbing: play carries on from the selection
+        if (!this.game.isPaused()) this.resume();
+        return;
+      }
+      if (tick % this.getCaptureInterval() === 0) {
+        this.capture();
+      }
+    });
+  }
+
+  /**
+   * Stop capturing and discard the buffer.
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    this.slots = [];
+    this.head = 0;
+    this.count = 0;
+    this.cursor = null;
+  }
+
+  /**
+   * Called with each snapshot restored while scrubbing.
+   */
+  setRestoreCallback(callback: (snapshot: GameSnapshot) => void): void {
+    this.onRestore = callback;
+  }
+
+  /**
+   * Called when play resumes from a rewound snapshot.
+   */
+  setResumeCallback(callback: (snapshot: GameSnapshot) => void): void {
+    this.onResume = callback;
+  }
+
+  getCount(): number {
+    return this.count;
+  }
+
+  isScrubbing(): boolean {
+    return this.cursor !== null;
+  }
+
+  /**
+   * Move the selection back (negative steps) or forward through the buffer and
+   * restore the selected snapshot, paused. The first scrub also captures the
+   * current state so scrubbing forward can return to it.
+   */
+  scrub(steps: number): void {
+    if (this.cursor === null) {
+      if (this.count === 0) return;
+      if (this.at(this.count - 1).tick !== this.game.getTick()) {
+        this.capture();
+      }
+      this.cursor = this.count - 1;
+    }
+
+    const cursor = Math.max(0, Math.min(this.count - 1, this.cursor + steps));
+    if (cursor === this.cursor && steps !== 0) return;
+    this.cursor = cursor;
+
+    const snapshot = this.at(cursor);
+    if (!this.game.restoreSnapshot(snapshot)) {
+      console.error('Failed to restore rewind snapshot at tick', snapshot.tick);
+      return;
+    }
+    this.game.pause();
+    this.onRestore?.(snapshot);
+  }
+
+  /**
+   * Continue play from the game's current state (the selected snapshot, unless
+   * stepped since), dropping the snapshots after the selection.
+   */
+  resume(): void {
+    if (this.cursor === null) return;
+
+    const snapshot = this.at(this.cursor);
+    const capacity = this.slots.length;
+    const oldest = (this.head - this.count + capacity) % capacity;
+    this.count = this.cursor + 1;
+    this.head = (oldest + this.count) % capacity;
+    this.cursor = null;
+
+    this.game.resume();
+    this.onResume?.(snapshot);
+  }
+
+  getSelection(): RewindSelection | null {
+    if (this.cursor === null) return null;
+
+    const snapshot = this.at(this.cursor);
+    const newest = this.at(this.count - 1);
+    return {
+      index: this.cursor,
+      count: this.count,
+      snapshot,
+      secondsBehind: newest.simulationTime - snapshot.simulationTime
+    };
+  }
+
+  private capture(): void {
+    const capacity = Math.max(1, Math.round(GameConfig.REWIND_BUFFER_SECONDS * GameConfig.REWIND_CAPTURE_RATE));
+    if (capacity !== this.slots.length && this.count === 0) {
+      this.slots = new Array(capacity);
+    }
+
+    this.slots[this.head] = this.game.createSnapshot();
+    this.head = (this.head + 1) % this.slots.length;
+    this.count = Math.min(this.count + 1, this.slots.length);
+  }
+
+  /**
+   * Snapshot at an index counted from the oldest
+   */
+  private at(index: number): GameSnapshot {
+    const capacity = this.slots.length;
+    return this.slots[(this.head - this.count + index + capacity) % capacity];
+  }
+
+  private getCaptureInterval(): number {
+    return Math.max(1, Math.round(1 / (GameConfig.REWIND_CAPTURE_RATE * GameConfig.SIMULATION_STEP)));
+  }
+}
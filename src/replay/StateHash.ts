@@ -0,0 +1,158 @@
+import { GameSnapshot } from '../Game';
+
+/**
+ * State hashing
+ *
+ * Reduces a GameSnapshot to its canonical simulation fields - a flat map from
+ * field path ('state.serenity', 'stressors.stressor_12.position.x',
+ * 'abilities.exhaleCooldown') to value - and hashes them per section. Two runs
+ * that hash the same at a tick are in the same simulation state; when they
+ * don't, the section hashes narrow down what diverged and diffStateFields names
+ * the exact fields.
+ *
+ * Fields that depend on frame timing or presentation rather than the simulation
+ * (savedAt, stepAccumulator, isPaused, playfield) are left out, so a run hashes
+ * the same however its frames were split.
+ */
+
+export const STATE_SECTIONS = ['clock', 'state', 'stressors', 'abilities', 'abilityEffects', 'statusEffects', 'insight'] as const;
+
+export type StateSection = typeof STATE_SECTIONS[number];
+export type StateFieldValue = number | string | boolean | null;
+export type StateFields = Record<string, StateFieldValue>; // Keys are sorted; each starts with its section
+
+export type StateTraceEntry = [tick: number, hash: string, sectionHashes: string[]]; // Section hashes in STATE_SECTIONS order
+
+export interface StateDivergence {
+  tick: number; // First tick both traces hashed where they differ
+  lastMatchingTick: number | null; // Last tick both hashed the same before it
+  sections: StateSection[]; // Sections whose hashes differ at that tick
+}
+
+export interface FieldDifference {
+  field: string;
+  a: StateFieldValue | undefined; // undefined: the field doesn't exist in that run (e.g. the stressor is gone)
+  b: StateFieldValue | undefined;
+}
+
+/**
+ * Flatten a snapshot's simulation state into canonical fields. Stressors are
+ * keyed by id rather than list position, so a field path follows one stressor.
+ */
+export function canonicalizeState(snapshot: GameSnapshot): StateFields {
+  const fields: StateFields = {};
+
+  flatten({ tick: snapshot.tick, simulationTime: snapshot.simulationTime, randomState: snapshot.randomState }, 'clock', fields);
+  flatten({ ...snapshot.state, isPaused: undefined }, 'state', fields);
+
+  const { stressors, ...stressorBookkeeping } = snapshot.stressors;
+  flatten(stressorBookkeeping, 'stressors', fields);
+  for (const stressor of stressors) {
+    flatten(stressor, `stressors.${stressor.id}`, fields);
+  }
+
+  flatten(snapshot.abilities, 'abilities', fields);
+  flatten(snapshot.abilityEffects, 'abilityEffects', fields);
+  flatten(snapshot.statusEffects, 'statusEffects', fields);
+  flatten(snapshot.insight, 'insight', fields);
+
+  const sorted: StateFields = {};
+  for (const key of Object.keys(fields).sort()) {
+    sorted[key] = fields[key];
+  }
+  return sorted;
+}
+
+/**
+ * Hash canonical fields: one FNV-1a hash per section, and an overall hash of those.
+ */
+export function hashStateFields(fields: StateFields): { hash: string; sectionHashes: string[] } {
+  const sectionHashes = STATE_SECTIONS.map(section => {
+    const prefix = `${section}.`;
+    let text = '';
+    for (const key of Object.keys(fields)) {
+      if (key.startsWith(prefix)) {
+        text += `${key}=${String(fields[key])}\n`;
+      }
+    }
+    return fnv1a(text);
+  });
+
+  return { hash: fnv1a(sectionHashes.join('')), sectionHashes };
+}
+
+/**
+ * Overall state hash of a snapshot
+ */
+export function hashGameState(snapshot: GameSnapshot): string {
+  return hashStateFields(canonicalizeState(snapshot)).hash;
+}
+
+/**
+ * Trace entry for a snapshot, at the tick it was taken
+ */
+export function createTraceEntry(snapshot: GameSnapshot): StateTraceEntry {
+  const { hash, sectionHashes } = hashStateFields(canonicalizeState(snapshot));
+  return [snapshot.tick, hash, sectionHashes];
+}
+
+/**
+ * First tick hashed by both traces where they differ, or null if they agree at
+ * every tick they share.
+ */
+export function findTraceDivergence(a: StateTraceEntry[], b: StateTraceEntry[]): StateDivergence | null {
+  const bByTick = new Map(b.map(entry => [entry[0], entry]));
+  let lastMatchingTick: number | null = null;
+
+  for (const [tick, hash, sectionHashes] of a) {
+    const other = bByTick.get(tick);
+    if (!other) continue;
+
+    if (other[1] === hash) {
+      lastMatchingTick = tick;
+      continue;
+    }
+
+    const sections = STATE_SECTIONS.filter((_, i) => sectionHashes[i] !== other[2][i]);
+    return { tick, lastMatchingTick, sections };
+  }
+
+  return null;
+}
+
+/**
+ * Every field that differs between two canonical states, in field order
+ */
+export function diffStateFields(a: StateFields, b: StateFields): FieldDifference[] {
+  const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).sort();
+  return keys
+    .filter(field => a[field] !== b[field])
+    .map(field => ({ field, a: a[field], b: b[field] }));
+}
+
+function flatten(value: unknown, path: string, fields: StateFields): void {
+  if (value === undefined) return;
+
+  if (value === null || typeof value !== 'object') {
+    fields[path] = value as StateFieldValue;
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => flatten(item, `${path}.${i}`, fields));
+    return;
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    flatten(item, `${path}.${key}`, fields);
+  }
+}
+
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -1,4 +1,4 @@
-import { AbilityBranch } from '../types';
+import { AbilityBranch, BranchEffect } from '../types';
 
 export const AbilityBranchConfig: Record<string, Record<number, AbilityBranch[]>> = {
   breathe: {
@@ -137,41 +137,419 @@ export const AbilityBranchConfig: Record<string, Record<number, AbilityBranch[]>
       }
     ]
   },
-  // Placeholder configurations for other abilities - will be fully implemented in later phases
   affirm: {
-    3: [],
-    6: [],
-    9: []
+    3: [
+      {
+        id: 'affirm_radiant',
+        name: 'Radiant',
+        description: '+50% amplification bonus',
+        effects: [
+          { type: 'special', modifier: 1.5, description: '+50% amplification bonus' }
+        ]
+      },
+      {
+        id: 'affirm_enduring',
+        name: 'Enduring',
+        description: '+40% active duration',
+        effects: [
+          { type: 'duration', modifier: 1.4, description: '+40% active duration' }
+        ]
+      },
+      {
+        id: 'affirm_swift',
+        name: 'Swift',
+        description: '-30% cooldown, -20% active duration',
+        effects: [
+          { type: 'cooldown', modifier: 0.7, description: '-30% cooldown' },
+          { type: 'duration', modifier: 0.8, description: '-20% active duration' }
+        ]
+      }
+    ],
+    6: [
+      {
+        id: 'affirm_soothing',
+        name: 'Soothing',
+        description: 'Restores 2 Serenity/sec while active',
+        effects: [
+          { type: 'special', modifier: 2, description: 'Restores 2 Serenity/sec while active' }
+        ]
+      },
+      {
+        id: 'affirm_insightful',
+        name: 'Insightful',
+        description: '+50% Insight from stressors resolved while active',
+        effects: [
+          { type: 'special', modifier: 1.5, description: '+50% Insight from stressors resolved while active' }
+        ]
+      }
+    ],
+    9: [
+      {
+        id: 'affirm_eternal',
+        name: 'Eternal',
+        description: 'Keeps 50% of its amplification between activations',
+        effects: [
+          { type: 'special', modifier: 0.5, description: 'Keeps 50% of its amplification between activations' }
+        ]
+      },
+      {
+        id: 'affirm_ascendant',
+        name: 'Ascendant',
+        description: 'Activation strips 20% max health from every stressor',
+        effects: [
+          { type: 'special', modifier: 0.2, description: 'Activation strips 20% max health from every stressor' }
+        ]
+      }
+    ]
   },
   exhale: {
-    3: [],
-    6: [],
-    9: []
+    3: [
+      {
+        id: 'exhale_forceful',
+        name: 'Forceful',
+        description: '+40% damage, +20% cooldown',
+        effects: [
+          { type: 'damage', modifier: 1.4, description: '+40% damage' },
+          { type: 'cooldown', modifier: 1.2, description: '+20% cooldown' }
+        ]
+      },
+      {
+        id: 'exhale_rapid',
+        name: 'Rapid',
+        description: '-30% cooldown, -15% damage',
+        effects: [
+          { type: 'cooldown', modifier: 0.7, description: '-30% cooldown' },
+          { type: 'damage', modifier: 0.85, description: '-15% damage' }
+        ]
+      }
+    ],
+    6: [
+      {
+        id: 'exhale_lingering',
+        name: 'Lingering',
+        description: '+100% slow duration',
+        effects: [
+          { type: 'duration', modifier: 2.0, description: '+100% slow duration' }
+        ]
+      },
+      {
+        id: 'exhale_extended',
+        name: 'Extended',
+        description: 'Releases an extra, wider wave',
+        effects: [
+          { type: 'special', modifier: 1, description: 'Releases an extra, wider wave' }
+        ]
+      }
+    ],
+    9: [
+      {
+        id: 'exhale_shattering',
+        name: 'Shattering',
+        description: '+50% damage to already slowed stressors',
+        effects: [
+          { type: 'special', modifier: 1.5, description: '+50% damage to already slowed stressors' }
+        ]
+      },
+      {
+        id: 'exhale_chilling',
+        name: 'Chilling',
+        description: 'Wave slow is 50% stronger',
+        effects: [
+          { type: 'special', modifier: 1.5, description: 'Wave slow is 50% stronger' }
+        ]
+      }
+    ]
   },
   reflect: {
-    3: [],
-    6: [],
-    9: []
+    3: [
+      {
+        id: 'reflect_wide',
+        name: 'Wide',
+        description: '+40% barrier radius',
+        effects: [
+          { type: 'radius', modifier: 1.4, description: '+40% barrier radius' }
+        ]
+      },
+      {
+        id: 'reflect_enduring',
+        name: 'Enduring',
+        description: '+50% barrier duration',
+        effects: [
+          { type: 'duration', modifier: 1.5, description: '+50% barrier duration' }
+        ]
+      }
+    ],
+    6: [
+      {
+        id: 'reflect_converting',
+        name: 'Converting',
+        description: '10% of reflected damage becomes Serenity',
+        effects: [
+          { type: 'special', modifier: 0.1, description: '10% of reflected damage becomes Serenity' }
+        ]
+      },
+      {
+        id: 'reflect_punishing',
+        name: 'Punishing',
+        description: '+50% reflected damage',
+        effects: [
+          { type: 'damage', modifier: 1.5, description: '+50% reflected damage' }
+        ]
+      }
+    ],
+    9: [
+      {
+        id: 'reflect_vigilant',
+        name: 'Vigilant',
+        description: 'Raises the barrier at 50% Serenity instead of 25%',
+        effects: [
+          { type: 'special', modifier: 50, description: 'Raises the barrier at 50% Serenity' }
+        ]
+      },
+      {
+        id: 'reflect_renewing',
+        name: 'Renewing',
+        description: '-50% cooldown',
+        effects: [
+          { type: 'cooldown', modifier: 0.5, description: '-50% cooldown' }
+        ]
+      }
+    ]
   },
   mantra: {
-    3: [],
-    6: [],
-    9: []
+    3: [
+      {
+        id: 'mantra_intense',
+        name: 'Intense',
+        description: '+50% beam damage, -20% channel duration',
+        effects: [
+          { type: 'damage', modifier: 1.5, description: '+50% beam damage' },
+          { type: 'duration', modifier: 0.8, description: '-20% channel duration' }
+        ]
+      },
+      {
+        id: 'mantra_sustained',
+        name: 'Sustained',
+        description: '+50% channel duration, -10% beam damage',
+        effects: [
+          { type: 'duration', modifier: 1.5, description: '+50% channel duration' },
+          { type: 'damage', modifier: 0.9, description: '-10% beam damage' }
+        ]
+      }
+    ],
+    6: [
+      {
+        id: 'mantra_split',
+        name: 'Split',
+        description: 'Beam also strikes the 2 next-nearest stressors at half damage',
+        effects: [
+          { type: 'special', modifier: 2, description: 'Strikes 2 extra stressors at half damage' }
+        ]
+      },
+      {
+        id: 'mantra_binding',
+        name: 'Binding',
+        description: 'Beam slow is twice as strong',
+        effects: [
+          { type: 'special', modifier: 2, description: 'Beam slow is twice as strong' }
+        ]
+      }
+    ],
+    9: [
+      {
+        id: 'mantra_unwavering',
+        name: 'Unwavering',
+        description: '+25% damage per second focused on the same target',
+        effects: [
+          { type: 'special', modifier: 0.25, description: '+25% damage per second on the same target' }
+        ]
+      },
+      {
+        id: 'mantra_quickened',
+        name: 'Quickened',
+        description: '-50% cooldown',
+        effects: [
+          { type: 'cooldown', modifier: 0.5, description: '-50% cooldown' }
+        ]
+      }
+    ]
   },
   ground: {
-    3: [],
-    6: [],
-    9: []
+    3: [
+      {
+        id: 'ground_wide',
+        name: 'Wide',
+        description: '+40% field radius, -15% damage',
+        effects: [
+          { type: 'radius', modifier: 1.4, description: '+40% field radius' },
+          { type: 'damage', modifier: 0.85, description: '-15% damage' }
+        ]
+      },
+      {
+        id: 'ground_deep',
+        name: 'Deep',
+        description: '+50% damage, -20% field radius',
+        effects: [
+          { type: 'damage', modifier: 1.5, description: '+50% damage' },
+          { type: 'radius', modifier: 0.8, description: '-20% field radius' }
+        ]
+      }
+    ],
+    6: [
+      {
+        id: 'ground_persistent',
+        name: 'Persistent',
+        description: '+100% field duration, +20% cooldown',
+        effects: [
+          { type: 'duration', modifier: 2.0, description: '+100% field duration' },
+          { type: 'cooldown', modifier: 1.2, description: '+20% cooldown' }
+        ]
+      },
+      {
+        id: 'ground_anchored',
+        name: 'Anchored',
+        description: 'Field forms on the densest cluster of stressors',
+        effects: [
+          { type: 'special', modifier: 1, description: 'Field forms on the densest cluster of stressors' }
+        ]
+      }
+    ],
+    9: [
+      {
+        id: 'ground_nurturing',
+        name: 'Nurturing',
+        description: 'Restores 0.5 Serenity/sec per stressor in the field',
+        effects: [
+          { type: 'special', modifier: 0.5, description: 'Restores 0.5 Serenity/sec per stressor in the field' }
+        ]
+      },
+      {
+        id: 'ground_quicksand',
+        name: 'Quicksand',
+        description: 'Field slow lingers 3s after leaving the field',
+        effects: [
+          { type: 'special', modifier: 3, description: 'Field slow lingers 3s after leaving the field' }
+        ]
+      }
+    ]
   },
   release: {
-    3: [],
-    6: [],
-    9: []
+    3: [
+      {
+        id: 'release_cathartic',
+        name: 'Cathartic',
+        description: '+50% damage',
+        effects: [
+          { type: 'damage', modifier: 1.5, description: '+50% damage' }
+        ]
+      },
+      {
+        id: 'release_serene',
+        name: 'Serene',
+        description: '+50% Serenity restored',
+        effects: [
+          { type: 'special', modifier: 1.5, description: '+50% Serenity restored' }
+        ]
+      }
+    ],
+    6: [
+      {
+        id: 'release_early',
+        name: 'Early',
+        description: 'Triggers at 25% Serenity instead of 10%',
+        effects: [
+          { type: 'special', modifier: 25, description: 'Triggers at 25% Serenity' }
+        ]
+      },
+      {
+        id: 'release_swift',
+        name: 'Swift',
+        description: '-40% cooldown',
+        effects: [
+          { type: 'cooldown', modifier: 0.6, description: '-40% cooldown' }
+        ]
+      }
+    ],
+    9: [
+      {
+        id: 'release_purifying',
+        name: 'Purifying',
+        description: 'Resets the cooldowns of all other abilities',
+        effects: [
+          { type: 'special', modifier: 1, description: 'Resets the cooldowns of all other abilities' }
+        ]
+      },
+      {
+        id: 'release_stilling',
+        name: 'Stilling',
+        description: 'Stressors caught are slowed 50% for 4s',
+        effects: [
+          { type: 'special', modifier: 4, description: 'Stressors caught are slowed 50% for 4s' }
+        ]
+      }
+    ]
   },
   align: {
-    3: [],
-    6: [],
-    9: []
+    3: [
+      {
+        id: 'align_offensive',
+        name: 'Offensive',
+        description: '+50% bonus during the offense phase',
+        effects: [
+          { type: 'special', modifier: 1.5, description: '+50% bonus during the offense phase' }
+        ]
+      },
+      {
+        id: 'align_defensive',
+        name: 'Defensive',
+        description: '+50% bonus during the defense phase',
+        effects: [
+          { type: 'special', modifier: 1.5, description: '+50% bonus during the defense phase' }
+        ]
+      }
+    ],
+    6: [
+      {
+        id: 'align_fluid',
+        name: 'Fluid',
+        description: 'Phases alternate twice as fast',
+        effects: [
+          { type: 'duration', modifier: 0.5, description: 'Phases alternate twice as fast' }
+        ]
+      },
+      {
+        id: 'align_steady',
+        name: 'Steady',
+        description: 'Phases last 50% longer',
+        effects: [
+          { type: 'duration', modifier: 1.5, description: 'Phases last 50% longer' }
+        ]
+      }
+    ],
+    9: [
+      {
+        id: 'align_harmonized',
+        name: 'Harmonized',
+        description: 'Restores 5 Serenity on each phase change',
+        effects: [
+          { type: 'special', modifier: 5, description: 'Restores 5 Serenity on each phase change' }
+        ]
+      },
+      {
+        id: 'align_surging',
+        name: 'Surging',
+        description: '+30% bonus in both phases',
+        effects: [
+          { type: 'special', modifier: 1.3, description: '+30% bonus in both phases' }
+        ]
+      }
+    ]
   }
 };
 
+/**
+ * Modifier of a branch's first effect of the given type (1 if it has none)
+ */
+export function getBranchEffectModifier(branch: AbilityBranch, type: BranchEffect['type']): number {
+  return branch.effects.find(e => e.type === type)?.modifier ?? 1;
+}
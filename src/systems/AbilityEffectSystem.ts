@@ -1,20 +1,52 @@
 import { ISystem, SystemContext } from './ISystem';
 import { GameConfig } from '../GameConfig';
 import { distance } from '../utils/MathUtils';
-import { Stressor, AbilityState, Vector2, StressorType } from '../types';
+import { Stressor, AbilityState, Vector2 } from '../types';
 import { InteractionCalculator } from './interactions/InteractionCalculator';
-import { InteractionConfigs, InteractionConfig } from '../config/InteractionConfigs';
+import { getInteractionConfigs } from '../config/InteractionConfigs';
 import { AbilityType } from '../config/AbilityDefinitions';
 import { getBreathRadius } from '../utils/BreathUtils';
 import { dev } from '../utils/dev';
 import { StatusEffect, StatusEffectType, StackingRule } from './effects/StatusEffect';
+import { getBranchEffectModifier } from './AbilityBranches';
+
+/**
+ * Branch bookkeeping that persists across steps (for save/resume)
+ */
+export interface AbilityEffectSnapshot {
+  breatheLingerUntil: Array<[string, number]>;
+  breathePulseTimer: number;
+  breatheExecuteRolled: string[];
+}
 
 export class AbilityEffectSystem implements ISystem {
   private interactionCalculator: InteractionCalculator;
+  
+  // Breathe branch state
+  private breatheLingerUntil: Map<string, number> = new Map(); // Lingering: stressor id -> simulation time damage stops
+  private breathePulseTimer: number = 0; // Rhythmic: seconds since the last damage pulse
+  private breatheExecuteRolled: Set<string> = new Set(); // Overwhelming: stressors that already had their execute roll
+  
+  // Abilities that triggered during the current simulation step (from abilityTriggered events)
+  private triggeredThisStep: Set<keyof AbilityState> = new Set();
+  private unsubscribeTriggers?: () => void;
 
   constructor() {
     this.interactionCalculator = new InteractionCalculator();
   }
+  
+  initialize(context: SystemContext): void {
+    this.unsubscribeTriggers = context.getEvents().on('abilityTriggered', (event) => {
+      this.triggeredThisStep.add(event.ability);
+    });
+  }
+  
+  cleanup(): void {
+    this.unsubscribeTriggers?.();
+    this.unsubscribeTriggers = undefined;
+    this.triggeredThisStep.clear();
+  }
+  
   update(deltaTime: number, context: SystemContext): void {
     const stressors = context.getStressors();
     const abilities = context.getAbilities();
@@ -47,6 +79,33 @@ export class AbilityEffectSystem implements ISystem {
     if (GameConfig.ABILITY_ENABLED.release) {
       this.applyReleaseEffects(stressors, abilities, center, context, affirmAmplification, alignBonus, alignPhase);
     }
+    if (GameConfig.ABILITY_ENABLED.affirm) {
+      this.applyAffirmEffects(stressors, context, deltaTime);
+    }
+    if (GameConfig.ABILITY_ENABLED.align) {
+      this.applyAlignEffects(context);
+    }
+    
+    // AbilitySystem updates first each step, so every trigger for this step has been handled
+    this.triggeredThisStep.clear();
+  }
+
+  /**
+   * Restore serenity, capped at the maximum
+   */
+  private restoreSerenity(context: SystemContext, amount: number): void {
+    if (amount <= 0) return;
+    context.modifyState({
+      serenity: Math.min(context.state.maxSerenity, context.state.serenity + amount)
+    });
+  }
+
+  /**
+   * Scale a slow's strength (the speed it takes away) by a branch modifier.
+   * Slow factors are speed multipliers, so strength is 1 - factor; floored so stressors never stop outright.
+   */
+  private scaleSlowStrength(slowFactor: number, modifier: number): number {
+    return Math.max(0.1, 1 - (1 - slowFactor) * modifier);
   }
 
   /**
@@ -56,7 +115,7 @@ export class AbilityEffectSystem implements ISystem {
     return this.interactionCalculator.getStressorResistance(
       stressor.type,
       abilityType,
-      InteractionConfigs
+      getInteractionConfigs()
     );
   }
 
@@ -64,31 +123,37 @@ export class AbilityEffectSystem implements ISystem {
    * Get stressor vulnerability to specific ability
    */
   private getStressorVulnerability(stressor: Stressor, abilityType: AbilityType): number {
-    // Check for conditional vulnerability: SelfDoubt takes 2x damage from Affirm
-    if (stressor.type === StressorType.SelfDoubt && abilityType === 'affirm') {
-      return 2.0;
-    }
-    
     return this.interactionCalculator.getStressorVulnerability(
       stressor.type,
       abilityType,
-      InteractionConfigs
+      getInteractionConfigs()
     );
   }
 
   /**
-   * Calculate aura reduction for a stressor
+   * Calculate aura reduction for a stressor (ability auras reaching its position)
    */
   private calculateAuraReduction(stressor: Stressor, context: SystemContext): number {
-    return this.interactionCalculator.calculateAuraReduction(
-      stressor,
-      context.getStressors(),
-      InteractionConfigs
-    );
+    return context.getStatusEffectManager().getAbilityAuraReduction(stressor.id, stressor.position);
+  }
+
+  /**
+   * Damage modifiers from status effects on a stressor (Recenter marks, Mantra exposure)
+   */
+  private getStatusDamageModifiers(stressor: Stressor, context: SystemContext): { statusVulnerability: number; statusDamageReduction: number } {
+    const statusEffects = context.getStatusEffectManager();
+    return {
+      statusVulnerability: statusEffects.getEffectiveValue(StatusEffectType.VULNERABILITY, stressor.id),
+      statusDamageReduction: statusEffects.getEffectiveValue(StatusEffectType.DAMAGE_REDUCTION, stressor.id)
+    };
   }
 
   /**
    * Apply Breath ability effects - continuous damage to stressors in range
+   * 
+   * Branch specials: Penetrating ignores part of stressor resistance, Lingering keeps
+   * damaging after a stressor leaves the AoE, Rhythmic delivers damage in pulses,
+   * Transcendent restores serenity per stressor in range, Overwhelming can execute.
    */
   private applyBreathEffects(
     stressors: Stressor[],
@@ -102,19 +167,55 @@ export class AbilityEffectSystem implements ISystem {
   ): void {
     const breatheLevel = abilities.breathe.level;
     const rawProgress = context.getBreatheRawCycleProgress();
-    const breathRadius = getBreathRadius(rawProgress);
+    const breathRadius = context.getModifiedRadius('breathe', getBreathRadius(rawProgress));
+    const now = context.getSimulationTime();
+    
+    const penetrating = context.getChosenBranch('breathe', 'breathe_penetrating');
+    const lingering = context.getChosenBranch('breathe', 'breathe_lingering');
+    const rhythmic = context.getChosenBranch('breathe', 'breathe_rhythmic');
+    const transcendent = context.getChosenBranch('breathe', 'breathe_transcendent');
+    const overwhelming = context.getChosenBranch('breathe', 'breathe_overwhelming');
+
+    // Seconds of damage dealt this step - Rhythmic holds it back and releases a full interval per pulse
+    let damageWindow = deltaTime;
+    if (rhythmic) {
+      const interval = context.getModifiedCooldown('breathe', GameConfig.BREATHE_RHYTHMIC_INTERVAL);
+      this.breathePulseTimer += deltaTime;
+      if (this.breathePulseTimer >= interval) {
+        this.breathePulseTimer -= interval;
+        damageWindow = interval;
+      } else {
+        damageWindow = 0;
+      }
+    }
 
-    // Calculate base damage per frame (DPS * deltaTime)
+    // Calculate base damage for this step (DPS * damage window, with branch damage modifiers)
     const baseDPS = GameConfig.BREATHE_BASE_DAMAGE_PER_SECOND;
-    const baseDamagePerFrame = baseDPS * deltaTime;
+    const baseDamagePerFrame = context.getModifiedDamage('breathe', baseDPS * damageWindow);
     
     // Calculate breath slow factor (affected by Affirm amplification)
     const breathSlowFactor = GameConfig.BREATHE_SLOW_STRENGTH / affirmAmplification;
+    
+    let stressorsInRange = 0;
 
     for (const stressor of stressors) {
       // Check if stressor is within breath AoE radius
       const dist = distance(stressor.position, center);
-      if (dist <= breathRadius) {
+      const inRange = dist <= breathRadius;
+      if (inRange) {
+        stressorsInRange++;
+        if (lingering) {
+          this.breatheLingerUntil.set(stressor.id, now + getBranchEffectModifier(lingering, 'duration'));
+        }
+      }
+      const isLingering = !inRange && (this.breatheLingerUntil.get(stressor.id) ?? 0) > now;
+      
+      if ((inRange || isLingering) && baseDamagePerFrame > 0) {
+        let resistance = this.getStressorResistance(stressor, 'breathe');
+        if (penetrating) {
+          resistance *= 1 - getBranchEffectModifier(penetrating, 'special');
+        }
+        
         // Calculate final damage with all modifiers
         const finalDamage = this.interactionCalculator.calculateDamage({
           baseDamage: baseDamagePerFrame,
@@ -124,13 +225,20 @@ export class AbilityEffectSystem implements ISystem {
           affirmAmplification,
           alignBonus,
           alignPhase,
-          stressorResistance: this.getStressorResistance(stressor, 'breathe'),
+          stressorResistance: resistance,
           stressorVulnerability: this.getStressorVulnerability(stressor, 'breathe'),
-          auraReduction: this.calculateAuraReduction(stressor, context)
+          auraReduction: this.calculateAuraReduction(stressor, context),
+          ...this.getStatusDamageModifiers(stressor, context)
         });
 
-        context.damageStressor(stressor.id, finalDamage);
-        
+        context.damageStressor(stressor.id, finalDamage, 'breathe');
+      }
+      
+      if (inRange && overwhelming) {
+        this.rollBreatheExecute(stressor, getBranchEffectModifier(overwhelming, 'special'), context);
+      }
+      
+      if (inRange) {
         // Apply slow effect (50% slow) while in breath AoE
         const effect: StatusEffect = {
           id: `breathe-${stressor.id}`,
@@ -138,7 +246,7 @@ export class AbilityEffectSystem implements ISystem {
           source: 'breathe',
           value: breathSlowFactor,
           duration: undefined, // Persistent while in AoE
-          startTime: Date.now(),
+          startTime: context.getStatusEffectManager().getCurrentTime(),
           stackingRule: StackingRule.MULTIPLICATIVE
         };
         context.getStatusEffectManager().apply(effect, stressor.id);
@@ -147,8 +255,49 @@ export class AbilityEffectSystem implements ISystem {
         context.getStatusEffectManager().removeBySource('breathe', stressor.id);
       }
     }
+    
+    if (transcendent && stressorsInRange > 0) {
+      this.restoreSerenity(context, getBranchEffectModifier(transcendent, 'special') * stressorsInRange * deltaTime);
+    }
+    
+    this.pruneBreatheState(stressors);
+  }
+  
+  /**
+   * Overwhelming: one execute roll per stressor, the first time it is in range below the health threshold
+   */
+  private rollBreatheExecute(stressor: Stressor, chance: number, context: SystemContext): void {
+    if (stressor.health <= 0 || this.breatheExecuteRolled.has(stressor.id)) return;
+    if (stressor.health / stressor.maxHealth >= GameConfig.BREATHE_EXECUTE_HEALTH_THRESHOLD) return;
+    
+    this.breatheExecuteRolled.add(stressor.id);
+    if (context.getRandom().next() < chance) {
+      context.damageStressor(stressor.id, stressor.health, 'breathe');
+    }
   }
   
+  /**
+   * Drop branch tracking for stressors that no longer exist
+   */
+  private pruneBreatheState(stressors: Stressor[]): void {
+    if (this.breatheLingerUntil.size === 0 && this.breatheExecuteRolled.size === 0) return;
+    
+    const liveIds = new Set(stressors.map(s => s.id));
+    for (const id of this.breatheLingerUntil.keys()) {
+      if (!liveIds.has(id)) this.breatheLingerUntil.delete(id);
+    }
+    for (const id of this.breatheExecuteRolled) {
+      if (!liveIds.has(id)) this.breatheExecuteRolled.delete(id);
+    }
+  }
+  
+  /**
+   * Apply Recenter pulse slow and marks
+   * 
+   * Every stressor the pulse touches is marked: it takes more damage until the
+   * mark runs out. Branch specials: Wide/Intense scale slow strength, Cascading chains the slow
+   * from each newly slowed stressor to stressors near it.
+   */
   private applyRecenterEffects(
     stressors: Stressor[],
     abilities: AbilityState,
@@ -161,7 +310,13 @@ export class AbilityEffectSystem implements ISystem {
     // Automatic Recenter - pulse burst
     if (context.isRecenterPulseActive()) {
       const recenterLevel = abilities.recenter.level;
-      const slowFactorBase = GameConfig.RECENTER_BASE_SLOW * (1 - recenterLevel * GameConfig.RECENTER_SLOW_SCALING);
+      let slowFactorBase = GameConfig.RECENTER_BASE_SLOW * (1 - recenterLevel * GameConfig.RECENTER_SLOW_SCALING);
+      // Wide/Intense scale slow strength
+      const strengthBranch = context.getChosenBranch('recenter', 'recenter_wide') ??
+        context.getChosenBranch('recenter', 'recenter_intense');
+      if (strengthBranch) {
+        slowFactorBase = this.scaleSlowStrength(slowFactorBase, getBranchEffectModifier(strengthBranch, 'special'));
+      }
       // Apply Affirm amplification to slow strength (divide: higher amplification = stronger slow = lower multiplier)
       let slowFactor = slowFactorBase / affirmAmplification;
       // Apply Affirm amplification to pulse radius
@@ -172,32 +327,67 @@ export class AbilityEffectSystem implements ISystem {
         pulseRadius *= (1 + alignBonus);
       }
       
+      const newlySlowed: Stressor[] = [];
       for (const stressor of stressors) {
         // Check if stressor is within pulse radius
         const dist = distance(stressor.position, center);
         if (dist <= pulseRadius) {
-          // Apply persistent slow effect (only set once, persists until stressor dies)
-          // Check if effect already exists to avoid re-applying
-          const existingEffects = context.getStatusEffectManager().getEffects(StatusEffectType.SLOW, stressor.id);
-          const hasRecenterSlow = existingEffects.some(e => e.source === 'recenter');
-          
-          if (!hasRecenterSlow) {
-            const effect: StatusEffect = {
-              id: `recenter-${stressor.id}`,
-              type: StatusEffectType.SLOW,
-              source: 'recenter',
-              value: slowFactor,
-              duration: undefined, // Persistent until death
-              startTime: Date.now(),
-              stackingRule: StackingRule.MULTIPLICATIVE
-            };
-            context.getStatusEffectManager().apply(effect, stressor.id);
+          this.applyRecenterMark(stressor, context);
+          if (this.applyRecenterSlow(stressor, slowFactor, context)) {
+            newlySlowed.push(stressor);
+          }
+        }
+      }
+      
+      // Cascading: the pulse jumps once from each stressor it just slowed
+      if (context.getChosenBranch('recenter', 'recenter_cascading')) {
+        for (const source of newlySlowed) {
+          for (const stressor of stressors) {
+            if (distance(stressor.position, source.position) <= GameConfig.RECENTER_CASCADE_RADIUS) {
+              this.applyRecenterSlow(stressor, slowFactor, context);
+            }
           }
         }
       }
     }
   }
   
+  /**
+   * Apply the persistent Recenter slow (only set once, persists until stressor dies)
+   * Returns true if the stressor wasn't already slowed by Recenter.
+   */
+  private applyRecenterSlow(stressor: Stressor, slowFactor: number, context: SystemContext): boolean {
+    const existingEffects = context.getStatusEffectManager().getEffects(StatusEffectType.SLOW, stressor.id);
+    if (existingEffects.some(e => e.source === 'recenter')) return false;
+    
+    const effect: StatusEffect = {
+      id: `recenter-${stressor.id}`,
+      type: StatusEffectType.SLOW,
+      source: 'recenter',
+      value: slowFactor,
+      duration: undefined, // Persistent until death
+      startTime: context.getStatusEffectManager().getCurrentTime(),
+      stackingRule: StackingRule.MULTIPLICATIVE
+    };
+    context.getStatusEffectManager().apply(effect, stressor.id);
+    return true;
+  }
+  
+  /**
+   * Mark a stressor as vulnerable (refreshed while the pulse keeps touching it)
+   */
+  private applyRecenterMark(stressor: Stressor, context: SystemContext): void {
+    context.getStatusEffectManager().apply({
+      id: `recenter-mark-${stressor.id}`,
+      type: StatusEffectType.VULNERABILITY,
+      source: 'recenter_mark',
+      value: GameConfig.RECENTER_MARK_VULNERABILITY,
+      duration: GameConfig.RECENTER_MARK_DURATION,
+      startTime: context.getStatusEffectManager().getCurrentTime(),
+      stackingRule: StackingRule.MULTIPLICATIVE
+    }, stressor.id);
+  }
+  
   private applyExhaleEffects(
     stressors: Stressor[],
     abilities: AbilityState,
@@ -211,6 +401,8 @@ export class AbilityEffectSystem implements ISystem {
     // Note: wave.damage is pre-calculated with level scaling, so we treat it as base damage
     // and only apply modifiers (affirm, align, resistance, vulnerability, aura)
     const exhaleWaves = context.getExhaleWaves();
+    const shattering = context.getChosenBranch('exhale', 'exhale_shattering');
+    const chilling = context.getChosenBranch('exhale', 'exhale_chilling');
     for (let waveIndex = 0; waveIndex < exhaleWaves.length; waveIndex++) {
       const wave = exhaleWaves[waveIndex];
       for (const stressor of stressors) {
@@ -218,8 +410,12 @@ export class AbilityEffectSystem implements ISystem {
         // Hit if stressor is within wave ring (wave expands, so check if just passed through)
         const waveThickness = 50; // Thickness of the wave ring
         if (dist <= wave.radius && dist > wave.radius - waveThickness) {
+          // Shattering hits harder on stressors something else has already slowed
+          const alreadySlowed = context.getStatusEffectManager().getEffects(StatusEffectType.SLOW, stressor.id).length > 0;
+          const shatterMultiplier = shattering && alreadySlowed ? getBranchEffectModifier(shattering, 'special') : 1;
+          
           // wave.damage already includes level scaling, so pass level 0 to avoid double-scaling
-          const finalDamage = this.interactionCalculator.calculateDamage({
+          const finalDamage = shatterMultiplier * this.interactionCalculator.calculateDamage({
             baseDamage: wave.damage,
             abilityLevel: 0, // Level scaling already applied in wave.damage
             levelScaling: 0, // No additional scaling
@@ -229,19 +425,20 @@ export class AbilityEffectSystem implements ISystem {
             alignPhase,
             stressorResistance: this.getStressorResistance(stressor, 'exhale'),
             stressorVulnerability: this.getStressorVulnerability(stressor, 'exhale'),
-            auraReduction: this.calculateAuraReduction(stressor, context)
+            auraReduction: this.calculateAuraReduction(stressor, context),
+            ...this.getStatusDamageModifiers(stressor, context)
           });
 
-          context.damageStressor(stressor.id, finalDamage);
+          context.damageStressor(stressor.id, finalDamage, 'exhale');
           
           // Apply duration-based slow effect
           const effect: StatusEffect = {
-            id: `exhale-${stressor.id}-${waveIndex}-${Date.now()}`, // Unique per wave instance
+            id: `exhale-${stressor.id}-${waveIndex}-${context.getSimulationTime()}`, // Unique per wave instance
             type: StatusEffectType.SLOW,
             source: 'exhale',
-            value: wave.slowFactor / affirmAmplification,
+            value: (chilling ? this.scaleSlowStrength(wave.slowFactor, getBranchEffectModifier(chilling, 'special')) : wave.slowFactor) / affirmAmplification,
             duration: wave.slowDuration, // From wave data
-            startTime: Date.now(),
+            startTime: context.getStatusEffectManager().getCurrentTime(),
             stackingRule: StackingRule.MULTIPLICATIVE
           };
           context.getStatusEffectManager().apply(effect, stressor.id);
@@ -279,11 +476,18 @@ export class AbilityEffectSystem implements ISystem {
             alignPhase,
             stressorResistance: this.getStressorResistance(stressor, 'reflect'),
             stressorVulnerability: this.getStressorVulnerability(stressor, 'reflect'),
-            auraReduction: this.calculateAuraReduction(stressor, context)
+            auraReduction: this.calculateAuraReduction(stressor, context),
+            ...this.getStatusDamageModifiers(stressor, context)
           });
 
-          const damage = stressor.health * finalPercentage;
-          context.damageStressor(stressor.id, damage);
+          const damage = stressor.health * context.getModifiedDamage('reflect', finalPercentage);
+          context.damageStressor(stressor.id, damage, 'reflect');
+          
+          // Converting turns part of the reflected damage into serenity
+          const converting = context.getChosenBranch('reflect', 'reflect_converting');
+          if (converting) {
+            this.restoreSerenity(context, damage * getBranchEffectModifier(converting, 'special'));
+          }
         }
       }
     }
@@ -301,17 +505,22 @@ export class AbilityEffectSystem implements ISystem {
   ): void {
     // Mantra - Focus beam
     if (context.isMantraBeamActive()) {
-      const targetId = context.getMantraTargetId();
-      const target = stressors.find(s => s.id === targetId);
+      // Mantra beam DPS is pre-calculated with level scaling, so we treat it as base DPS
+      // and only apply modifiers (affirm, align, resistance, vulnerability, aura)
+      const baseDPS = context.getMantraBeamDamage();
+      const binding = context.getChosenBranch('mantra', 'mantra_binding');
+      const slowFactor = binding
+        ? this.scaleSlowStrength(GameConfig.MANTRA_SLOW_STRENGTH, getBranchEffectModifier(binding, 'special'))
+        : GameConfig.MANTRA_SLOW_STRENGTH;
       
-      if (target) {
-        // Mantra beam DPS is pre-calculated with level scaling, so we treat it as base DPS
-        // and only apply modifiers (affirm, align, resistance, vulnerability, aura)
-        const baseDPS = context.getMantraBeamDamage();
-        const baseDamagePerFrame = baseDPS * deltaTime;
-
+      // Primary target takes full damage; Split branch targets share a fraction
+      context.getMantraTargetIds().forEach((targetId, index) => {
+        const target = stressors.find(s => s.id === targetId);
+        if (!target) return;
+        
+        const damageShare = index === 0 ? 1 : GameConfig.MANTRA_SPLIT_DAMAGE;
         const finalDamage = this.interactionCalculator.calculateDamage({
-          baseDamage: baseDamagePerFrame,
+          baseDamage: baseDPS * deltaTime * damageShare,
           abilityLevel: 0, // Level scaling already applied in getMantraBeamDamage()
           levelScaling: 0, // No additional scaling
           scalingType: 'multiplicative',
@@ -320,23 +529,38 @@ export class AbilityEffectSystem implements ISystem {
           alignPhase,
           stressorResistance: this.getStressorResistance(target, 'mantra'),
           stressorVulnerability: this.getStressorVulnerability(target, 'mantra'),
-          auraReduction: this.calculateAuraReduction(target, context)
+          auraReduction: this.calculateAuraReduction(target, context),
+          ...this.getStatusDamageModifiers(target, context)
         });
 
-        context.damageStressor(target.id, finalDamage);
+        context.damageStressor(target.id, finalDamage, 'mantra');
+        
+        if (index > 0) return;
+        
+        // Expose the primary target: it takes more damage from every ability while
+        // beamed and for a moment after (applied after this beam tick, so it amplifies the next)
+        context.getStatusEffectManager().apply({
+          id: `mantra-expose-${target.id}`,
+          type: StatusEffectType.VULNERABILITY,
+          source: 'mantra_expose',
+          value: GameConfig.MANTRA_EXPOSE_VULNERABILITY,
+          duration: GameConfig.MANTRA_EXPOSE_DURATION,
+          startTime: context.getStatusEffectManager().getCurrentTime(),
+          stackingRule: StackingRule.MULTIPLICATIVE
+        }, target.id);
         
         // Apply slow effect (persistent while beam active, cleared when beam ends in AbilitySystem)
         const effect: StatusEffect = {
           id: `mantra-${target.id}`,
           type: StatusEffectType.SLOW,
           source: 'mantra',
-          value: GameConfig.MANTRA_SLOW_STRENGTH / affirmAmplification,
+          value: slowFactor / affirmAmplification,
           duration: undefined, // Persistent while beam active
-          startTime: Date.now(),
+          startTime: context.getStatusEffectManager().getCurrentTime(),
           stackingRule: StackingRule.MULTIPLICATIVE
         };
         context.getStatusEffectManager().apply(effect, target.id);
-      }
+      });
     }
   }
   
@@ -358,11 +582,15 @@ export class AbilityEffectSystem implements ISystem {
       if (fieldPos) {
         const groundLevel = abilities.ground.level;
         const baseDPS = GameConfig.GROUND_BASE_DAMAGE;
-        const baseDamagePerFrame = baseDPS * deltaTime;
+        const baseDamagePerFrame = context.getModifiedDamage('ground', baseDPS * deltaTime);
+        const nurturing = context.getChosenBranch('ground', 'ground_nurturing');
+        const quicksand = context.getChosenBranch('ground', 'ground_quicksand');
+        let stressorsInField = 0;
         
         for (const stressor of stressors) {
           const dist = distance(stressor.position, fieldPos);
           if (dist < fieldRadius) {
+            stressorsInField++;
             const finalDamage = this.interactionCalculator.calculateDamage({
               baseDamage: baseDamagePerFrame,
               abilityLevel: groundLevel,
@@ -373,10 +601,11 @@ export class AbilityEffectSystem implements ISystem {
               alignPhase,
               stressorResistance: this.getStressorResistance(stressor, 'ground'),
               stressorVulnerability: this.getStressorVulnerability(stressor, 'ground'),
-              auraReduction: this.calculateAuraReduction(stressor, context)
+              auraReduction: this.calculateAuraReduction(stressor, context),
+              ...this.getStatusDamageModifiers(stressor, context)
             });
 
-            context.damageStressor(stressor.id, finalDamage);
+            context.damageStressor(stressor.id, finalDamage, 'ground');
             
             // Apply slow effect (persistent while in field, cleared when leaving in AbilitySystem)
             const effect: StatusEffect = {
@@ -385,15 +614,33 @@ export class AbilityEffectSystem implements ISystem {
               source: 'ground',
               value: GameConfig.GROUND_SLOW_STRENGTH / affirmAmplification,
               duration: undefined, // Persistent while in field
-              startTime: Date.now(),
+              startTime: context.getStatusEffectManager().getCurrentTime(),
               stackingRule: StackingRule.MULTIPLICATIVE
             };
             context.getStatusEffectManager().apply(effect, stressor.id);
           } else {
+            // Quicksand: a stressor walking out keeps a timed slow
+            const statusEffects = context.getStatusEffectManager();
+            if (quicksand && statusEffects.getEffects(StatusEffectType.SLOW, stressor.id).some(e => e.source === 'ground')) {
+              statusEffects.apply({
+                id: `ground-quicksand-${stressor.id}`,
+                type: StatusEffectType.SLOW,
+                source: 'ground_quicksand',
+                value: GameConfig.GROUND_SLOW_STRENGTH / affirmAmplification,
+                duration: getBranchEffectModifier(quicksand, 'special'),
+                startTime: statusEffects.getCurrentTime(),
+                stackingRule: StackingRule.MULTIPLICATIVE
+              }, stressor.id);
+            }
+            
             // Clear slow effect when stressor leaves the field
-            context.getStatusEffectManager().removeBySource('ground', stressor.id);
+            statusEffects.removeBySource('ground', stressor.id);
           }
         }
+        
+        if (nurturing && stressorsInField > 0) {
+          this.restoreSerenity(context, getBranchEffectModifier(nurturing, 'special') * stressorsInField * deltaTime);
+        }
       }
     }
   }
@@ -408,17 +655,20 @@ export class AbilityEffectSystem implements ISystem {
     alignPhase: 'offense' | 'defense'
   ): void {
     // Release - Ultimate cleanse
-    if (context.wasReleaseJustTriggered()) {
+    if (this.triggeredThisStep.has('release')) {
       const releaseLevel = abilities.release.level;
       const releaseRadius = GameConfig.RELEASE_RADIUS * affirmAmplification;
-      const serenityRestore = GameConfig.RELEASE_BASE_SERENITY_RESTORE * (1 + releaseLevel * GameConfig.RELEASE_SERENITY_SCALING) * affirmAmplification;
+      const serene = context.getChosenBranch('release', 'release_serene');
+      const stilling = context.getChosenBranch('release', 'release_stilling');
+      const serenityRestore = GameConfig.RELEASE_BASE_SERENITY_RESTORE * (1 + releaseLevel * GameConfig.RELEASE_SERENITY_SCALING) * affirmAmplification *
+        (serene ? getBranchEffectModifier(serene, 'special') : 1);
       
       // Damage all stressors in radius
       for (const stressor of stressors) {
         const dist = distance(stressor.position, center);
         if (dist < releaseRadius) {
           const finalDamage = this.interactionCalculator.calculateDamage({
-            baseDamage: GameConfig.RELEASE_BASE_DAMAGE,
+            baseDamage: context.getModifiedDamage('release', GameConfig.RELEASE_BASE_DAMAGE),
             abilityLevel: releaseLevel,
             levelScaling: GameConfig.RELEASE_DAMAGE_SCALING,
             scalingType: 'multiplicative',
@@ -427,17 +677,75 @@ export class AbilityEffectSystem implements ISystem {
             alignPhase,
             stressorResistance: this.getStressorResistance(stressor, 'release'),
             stressorVulnerability: this.getStressorVulnerability(stressor, 'release'),
-            auraReduction: this.calculateAuraReduction(stressor, context)
+            auraReduction: this.calculateAuraReduction(stressor, context),
+            ...this.getStatusDamageModifiers(stressor, context)
           });
 
-          context.damageStressor(stressor.id, finalDamage);
+          context.damageStressor(stressor.id, finalDamage, 'release');
+          
+          // Stilling: survivors are held in a timed slow
+          if (stilling) {
+            context.getStatusEffectManager().apply({
+              id: `release-${stressor.id}`,
+              type: StatusEffectType.SLOW,
+              source: 'release',
+              value: GameConfig.RELEASE_STILLING_SLOW,
+              duration: getBranchEffectModifier(stilling, 'special'),
+              startTime: context.getStatusEffectManager().getCurrentTime(),
+              stackingRule: StackingRule.MULTIPLICATIVE
+            }, stressor.id);
+          }
         }
       }
       
       // Restore Serenity
-      context.modifyState({
-        serenity: Math.min(GameConfig.MAX_SERENITY, context.state.serenity + serenityRestore)
-      });
+      this.restoreSerenity(context, serenityRestore);
     }
   }
+  
+  /**
+   * Apply Affirm branch effects (amplification itself is read by every other ability)
+   * 
+   * Soothing restores serenity while active; Ascendant strikes every stressor on activation.
+   */
+  private applyAffirmEffects(stressors: Stressor[], context: SystemContext, deltaTime: number): void {
+    const soothing = context.getChosenBranch('affirm', 'affirm_soothing');
+    if (soothing && context.isAffirmActive()) {
+      this.restoreSerenity(context, getBranchEffectModifier(soothing, 'special') * deltaTime);
+    }
+    
+    const ascendant = context.getChosenBranch('affirm', 'affirm_ascendant');
+    if (ascendant && this.triggeredThisStep.has('affirm')) {
+      const fraction = getBranchEffectModifier(ascendant, 'special');
+      for (const stressor of stressors) {
+        context.damageStressor(stressor.id, stressor.maxHealth * fraction, 'affirm');
+      }
+    }
+  }
+  
+  /**
+   * Apply Align branch effects (the phase bonus itself is read by every other ability)
+   * 
+   * Harmonized restores serenity each time the phase flips.
+   */
+  private applyAlignEffects(context: SystemContext): void {
+    const harmonized = context.getChosenBranch('align', 'align_harmonized');
+    if (harmonized && this.triggeredThisStep.has('align')) {
+      this.restoreSerenity(context, getBranchEffectModifier(harmonized, 'special'));
+    }
+  }
+
+  getSnapshot(): AbilityEffectSnapshot {
+    return {
+      breatheLingerUntil: Array.from(this.breatheLingerUntil.entries()),
+      breathePulseTimer: this.breathePulseTimer,
+      breatheExecuteRolled: Array.from(this.breatheExecuteRolled)
+    };
+  }
+  
+  restoreSnapshot(snapshot: AbilityEffectSnapshot): void {
+    this.breatheLingerUntil = new Map(snapshot.breatheLingerUntil);
+    this.breathePulseTimer = snapshot.breathePulseTimer;
+    this.breatheExecuteRolled = new Set(snapshot.breatheExecuteRolled);
+  }
 }
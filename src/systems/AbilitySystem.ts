@@ -1,10 +1,70 @@
-import { AbilityState, AbilityUpgrade, Stressor, Vector2, AbilityBranch, BranchEffect } from '../types';
+import { AbilityState, AbilityUpgrade, Stressor, Vector2, AbilityBranch, BranchEffect, PendingBranchChoice } from '../types';
 import { GameConfig } from '../GameConfig';
 import { distance } from '../utils/MathUtils';
 import { getBreathMaxRadius, getBreathRadius as calculateBreathRadius } from '../utils/BreathUtils';
-import { getCycleProgress, getCurrentPhase, justTransitionedToPhase, getPhaseProgress, createTwoPhaseCycle, CyclePhase } from '../utils/CycleUtils';
+import { getCycleProgress, getCurrentPhase, getPhaseProgress, createTwoPhaseCycle, CyclePhase } from '../utils/CycleUtils';
 import { ISystem, SystemContext } from './ISystem';
-import { AbilityBranchConfig } from './AbilityBranches';
+import { AbilityBranchConfig, getBranchEffectModifier } from './AbilityBranches';
+
+interface ExhaleWave {
+  radius: number;
+  maxRadius: number;
+  damage: number;
+  slowFactor: number;
+  slowDuration: number;
+  timeRemaining: number;
+}
+
+/**
+ * AbilityUpgrade in JSON-safe form (chosenBranches as [level, branchId] entries)
+ */
+export type SerializedAbilityUpgrade = Omit<AbilityUpgrade, 'chosenBranches'> & {
+  chosenBranches: Array<[number, string]>;
+};
+
+/**
+ * Everything AbilitySystem needs to resume mid-run: upgrades, branch choices,
+ * cooldowns and every ability's cycle/activation timers.
+ */
+export interface AbilitySystemSnapshot {
+  abilities: Record<keyof AbilityState, SerializedAbilityUpgrade>;
+  breatheHeld: boolean;
+  breatheHoldStart: number;
+  simulationTime: number;
+  breatheCooldown: number;
+  recenterCooldown: number;
+  affirmCooldown: number;
+  breatheCycleTime: number;
+  breatheCycleDuration: number;
+  previousCycleProgress: number;
+  isInhaling: boolean;
+  lastInhalingState: boolean;
+  recenterPulseActive: boolean;
+  recenterPulseTime: number;
+  recenterPulseRadius: number;
+  recenterResonanceStacks: number;
+  affirmActive: boolean;
+  affirmActiveTime: number;
+  affirmCooldownTime: number;
+  exhaleCooldown: number;
+  exhaleWaves: ExhaleWave[];
+  reflectCooldown: number;
+  reflectBarrierActive: boolean;
+  reflectBarrierDuration: number;
+  mantraCooldown: number;
+  mantraBeamActive: boolean;
+  mantraTargetId: string | null;
+  mantraBeamDuration: number;
+  mantraExtraTargetIds: string[];
+  mantraFocusTime: number;
+  groundCooldown: number;
+  groundFieldActive: boolean;
+  groundFieldPosition: Vector2 | null;
+  groundFieldDuration: number;
+  releaseCooldown: number;
+  alignCycleTimer: number;
+  alignPhase: 'offense' | 'defense';
+}
 
 /**
  * AbilitySystem - Core ability mechanics implementation
@@ -18,7 +78,8 @@ import { AbilityBranchConfig } from './AbilityBranches';
 export class AbilitySystem implements ISystem {
   private abilities: AbilityState;
   private breatheHeld: boolean = false;
-  private breatheHoldStart: number = 0;
+  private breatheHoldStart: number = 0; // Simulation time (seconds)
+  private simulationTime: number = 0; // Simulation clock as of the last update (seconds)
   private breatheCooldown: number = 0;
   private recenterCooldown: number = 0;
   private affirmCooldown: number = 0;
@@ -30,12 +91,12 @@ export class AbilitySystem implements ISystem {
   private breatheCycleConfig = createTwoPhaseCycle('inhale', 0.5, 'exhale');
   private previousCycleProgress: number = 0.5; // Track previous progress for transition detection
   private isInhaling: boolean = false; // Start at exhale phase (smallest size)
-  private justReachedPeak: boolean = false; // Track if breath just reached peak (max size)
   
   // Recenter - Pulse burst
   private recenterPulseActive: boolean = false;
   private recenterPulseTime: number = 0;
   private recenterPulseRadius: number = 0;
+  private recenterResonanceStacks: number = 0; // Resonant branch: completed pulses widening the next one
   
   // Affirm - Ability amplifier state
   private affirmActive: boolean = false;
@@ -44,7 +105,7 @@ export class AbilitySystem implements ISystem {
   
   // Exhale - Periodic projectile burst
   private exhaleCooldown: number = 0;
-  private exhaleWaves: Array<{ radius: number; maxRadius: number; damage: number; slowFactor: number; slowDuration: number; timeRemaining: number }> = [];
+  private exhaleWaves: ExhaleWave[] = [];
   
   // Reflect - Reactive defensive barrier
   private reflectCooldown: number = 0;
@@ -56,6 +117,8 @@ export class AbilitySystem implements ISystem {
   private mantraBeamActive: boolean = false;
   private mantraTargetId: string | null = null;
   private mantraBeamDuration: number = 0;
+  private mantraExtraTargetIds: string[] = []; // Split branch: additional beam targets
+  private mantraFocusTime: number = 0; // Unwavering branch: seconds on the current target
   
   // Ground - Area trap
   private groundCooldown: number = 0;
@@ -65,7 +128,6 @@ export class AbilitySystem implements ISystem {
   
   // Release - Ultimate cleanse
   private releaseCooldown: number = 0;
-  private releaseJustTriggered: boolean = false;
   
   // Align - Rhythmic modulator
   private alignCycleTimer: number = 0;
@@ -164,7 +226,7 @@ export class AbilitySystem implements ISystem {
   startBreathe(): void {
     if (this.breatheCooldown > 0) return;
     this.breatheHeld = true;
-    this.breatheHoldStart = Date.now();
+    this.breatheHoldStart = this.simulationTime;
   }
 
   releaseBreathe(): { slowFactor: number; auraBoost: number } | null {
@@ -199,9 +261,18 @@ export class AbilitySystem implements ISystem {
   }
   
   getAffirmAmplification(): number {
-    if (!GameConfig.ABILITY_ENABLED.affirm || !this.affirmActive) return 1.0;
+    if (!GameConfig.ABILITY_ENABLED.affirm) return 1.0;
+    
     const level = this.abilities.affirm.level;
-    return 1 + (level * GameConfig.AFFIRM_AMPLIFICATION_SCALING);
+    let bonus = level * GameConfig.AFFIRM_AMPLIFICATION_SCALING;
+    const radiant = this.getChosenBranch('affirm', 'affirm_radiant');
+    if (radiant) bonus *= getBranchEffectModifier(radiant, 'special');
+    
+    if (this.affirmActive) return 1 + bonus;
+    
+    // Eternal keeps part of the bonus between activations
+    const eternal = this.getChosenBranch('affirm', 'affirm_eternal');
+    return eternal ? 1 + bonus * getBranchEffectModifier(eternal, 'special') : 1.0;
   }
   
   getAffirmCooldownRemaining(): number {
@@ -234,6 +305,7 @@ export class AbilitySystem implements ISystem {
   // Legacy update method - kept for backward compatibility during transition
   // Will be removed once Game is fully migrated to use ISystem interface
   updateLegacy(deltaTime: number, serenity: number, stressors: Stressor[], center: Vector2, context: SystemContext): void {
+    this.simulationTime = context.getSimulationTime();
     this.breatheCooldown = Math.max(0, this.breatheCooldown - deltaTime);
     this.recenterCooldown = Math.max(0, this.recenterCooldown - deltaTime);
     this.affirmCooldown = Math.max(0, this.affirmCooldown - deltaTime);
@@ -248,22 +320,32 @@ export class AbilitySystem implements ISystem {
       if (!this.recenterPulseActive && this.recenterCooldown <= 0) {
         // Auto-trigger: start pulse
         this.recenterPulseActive = true;
-        this.recenterPulseTime = GameConfig.RECENTER_PULSE_DURATION;
+        this.recenterPulseTime = this.getModifiedDuration('recenter', GameConfig.RECENTER_PULSE_DURATION);
         this.recenterPulseRadius = 0;
+        context.getEvents().emit('abilityTriggered', { ability: 'recenter' });
       }
       
       if (this.recenterPulseActive) {
         this.recenterPulseTime -= deltaTime;
         const level = this.abilities.recenter.level;
-        const maxRadius = GameConfig.RECENTER_BASE_MAX_RADIUS + (level * GameConfig.RECENTER_RADIUS_SCALING);
-        // Expand pulse radius
-        this.recenterPulseRadius = Math.min(maxRadius, this.recenterPulseRadius + GameConfig.RECENTER_PULSE_SPEED * deltaTime);
+        const baseMaxRadius = GameConfig.RECENTER_BASE_MAX_RADIUS + (level * GameConfig.RECENTER_RADIUS_SCALING);
+        const radiusMultiplier = this.getRecenterRadiusMultiplier();
+        const maxRadius = baseMaxRadius * radiusMultiplier;
+        // Expand pulse radius (faster when branches widen it, so the pulse still reaches its edge)
+        this.recenterPulseRadius = Math.min(maxRadius, this.recenterPulseRadius + GameConfig.RECENTER_PULSE_SPEED * radiusMultiplier * deltaTime);
         
         if (this.recenterPulseTime <= 0) {
           // Pulse finished, start cooldown
           this.recenterPulseActive = false;
           this.recenterPulseRadius = 0;
-          this.recenterCooldown = GameConfig.RECENTER_COOLDOWN;
+          this.recenterCooldown = this.getModifiedCooldown('recenter', GameConfig.RECENTER_COOLDOWN);
+          
+          if (this.getChosenBranch('recenter', 'recenter_resonant')) {
+            this.recenterResonanceStacks = Math.min(
+              GameConfig.RECENTER_RESONANT_MAX_STACKS,
+              this.recenterResonanceStacks + 1
+            );
+          }
         }
       } else {
         // Update cooldown
@@ -276,8 +358,9 @@ export class AbilitySystem implements ISystem {
       if (!this.affirmActive && this.affirmCooldownTime <= 0) {
         // Auto-trigger: start active period
         this.affirmActive = true;
-        this.affirmActiveTime = GameConfig.AFFIRM_DURATION;
+        this.affirmActiveTime = this.getModifiedDuration('affirm', GameConfig.AFFIRM_DURATION);
         this.affirmCooldownTime = 0;
+        context.getEvents().emit('abilityTriggered', { ability: 'affirm' });
       }
       
       if (this.affirmActive) {
@@ -285,7 +368,7 @@ export class AbilitySystem implements ISystem {
         if (this.affirmActiveTime <= 0) {
           // Active period ended, start cooldown
           this.affirmActive = false;
-          this.affirmCooldownTime = GameConfig.AFFIRM_COOLDOWN;
+          this.affirmCooldownTime = this.getModifiedCooldown('affirm', GameConfig.AFFIRM_COOLDOWN);
         }
       } else {
         this.affirmCooldownTime = Math.max(0, this.affirmCooldownTime - deltaTime);
@@ -295,18 +378,28 @@ export class AbilitySystem implements ISystem {
     // Exhale - Periodic projectile burst
     if (GameConfig.ABILITY_ENABLED.exhale) {
       const exhaleLevel = this.abilities.exhale.level;
-      const exhaleCooldownBase = GameConfig.EXHALE_COOLDOWN - (exhaleLevel * GameConfig.EXHALE_COOLDOWN_SCALING);
+      const exhaleCooldownBase = this.getModifiedCooldown(
+        'exhale',
+        GameConfig.EXHALE_COOLDOWN - (exhaleLevel * GameConfig.EXHALE_COOLDOWN_SCALING)
+      );
       const shouldTriggerEarly = serenity <= GameConfig.EXHALE_EARLY_TRIGGER_SERENITY;
       
       if (this.exhaleCooldown <= 0 && (shouldTriggerEarly || this.exhaleCooldown <= -0.1)) {
         // Trigger Exhale - create 3 waves
-        const damage = GameConfig.EXHALE_BASE_DAMAGE * (1 + exhaleLevel * GameConfig.EXHALE_DAMAGE_SCALING);
-        const slowDuration = GameConfig.EXHALE_SLOW_DURATION + (exhaleLevel * GameConfig.EXHALE_SLOW_DURATION_SCALING);
+        const damage = this.getModifiedDamage('exhale', GameConfig.EXHALE_BASE_DAMAGE * (1 + exhaleLevel * GameConfig.EXHALE_DAMAGE_SCALING));
+        const slowDuration = this.getModifiedDuration('exhale', GameConfig.EXHALE_SLOW_DURATION + (exhaleLevel * GameConfig.EXHALE_SLOW_DURATION_SCALING));
         const slowFactor = GameConfig.EXHALE_SLOW_STRENGTH;
         
-        for (let i = 0; i < GameConfig.EXHALE_WAVE_COUNT; i++) {
+        // Extended adds waves beyond the outermost configured radius
+        const extended = this.getChosenBranch('exhale', 'exhale_extended');
+        const waveCount = GameConfig.EXHALE_WAVE_COUNT + (extended ? getBranchEffectModifier(extended, 'special') : 0);
+        const radii = GameConfig.EXHALE_WAVE_RADII;
+        
+        for (let i = 0; i < waveCount; i++) {
           const waveDelay = i * GameConfig.EXHALE_WAVE_INTERVAL;
-          const maxRadius = GameConfig.EXHALE_WAVE_RADII[i];
+          const maxRadius = i < radii.length
+            ? radii[i]
+            : radii[radii.length - 1] + (i - radii.length + 1) * GameConfig.EXHALE_EXTENDED_RADIUS_STEP;
           this.exhaleWaves.push({
             radius: 0,
             maxRadius,
@@ -318,6 +411,7 @@ export class AbilitySystem implements ISystem {
         }
         
         this.exhaleCooldown = Math.max(1, exhaleCooldownBase); // Minimum 1s cooldown
+        context.getEvents().emit('abilityTriggered', { ability: 'exhale' });
       }
       
       // Update Exhale waves
@@ -337,18 +431,24 @@ export class AbilitySystem implements ISystem {
     
     // Reflect - Reactive defensive barrier
     if (GameConfig.ABILITY_ENABLED.reflect) {
-      if (!this.reflectBarrierActive && this.reflectCooldown <= 0 && serenity <= GameConfig.REFLECT_TRIGGER_SERENITY) {
+      const vigilant = this.getChosenBranch('reflect', 'reflect_vigilant');
+      const triggerSerenity = vigilant ? getBranchEffectModifier(vigilant, 'special') : GameConfig.REFLECT_TRIGGER_SERENITY;
+      if (!this.reflectBarrierActive && this.reflectCooldown <= 0 && serenity <= triggerSerenity) {
         const reflectLevel = this.abilities.reflect.level;
         this.reflectBarrierActive = true;
-        this.reflectBarrierDuration = GameConfig.REFLECT_BASE_DURATION + (reflectLevel * GameConfig.REFLECT_DURATION_SCALING);
+        this.reflectBarrierDuration = this.getModifiedDuration(
+          'reflect',
+          GameConfig.REFLECT_BASE_DURATION + (reflectLevel * GameConfig.REFLECT_DURATION_SCALING)
+        );
         this.reflectCooldown = 0; // Will be set after barrier ends
+        context.getEvents().emit('abilityTriggered', { ability: 'reflect' });
       }
       
       if (this.reflectBarrierActive) {
         this.reflectBarrierDuration -= deltaTime;
         if (this.reflectBarrierDuration <= 0) {
           this.reflectBarrierActive = false;
-          this.reflectCooldown = GameConfig.REFLECT_COOLDOWN;
+          this.reflectCooldown = this.getModifiedCooldown('reflect', GameConfig.REFLECT_COOLDOWN);
         }
       }
     }
@@ -372,8 +472,13 @@ export class AbilitySystem implements ISystem {
           const mantraLevel = this.abilities.mantra.level;
           this.mantraBeamActive = true;
           this.mantraTargetId = nearestStressor.id;
-          this.mantraBeamDuration = GameConfig.MANTRA_BASE_DURATION + (mantraLevel * GameConfig.MANTRA_DURATION_SCALING);
+          this.mantraFocusTime = 0;
+          this.mantraBeamDuration = this.getModifiedDuration(
+            'mantra',
+            GameConfig.MANTRA_BASE_DURATION + (mantraLevel * GameConfig.MANTRA_DURATION_SCALING)
+          );
           this.mantraCooldown = 0; // Will be set after beam ends
+          context.getEvents().emit('abilityTriggered', { ability: 'mantra' });
         }
       }
       
@@ -396,9 +501,13 @@ export class AbilitySystem implements ISystem {
           
           if (nearestStressor) {
             this.mantraTargetId = nearestStressor.id;
+            this.mantraFocusTime = 0;
           }
         }
         
+        this.mantraFocusTime += deltaTime;
+        this.updateMantraExtraTargets(stressors, center);
+        
         this.mantraBeamDuration -= deltaTime;
         if (this.mantraBeamDuration <= 0) {
           // Clear mantra slow effect when beam ends
@@ -407,7 +516,8 @@ export class AbilitySystem implements ISystem {
           }
           this.mantraBeamActive = false;
           this.mantraTargetId = null;
-          this.mantraCooldown = GameConfig.MANTRA_COOLDOWN;
+          this.mantraExtraTargetIds = [];
+          this.mantraCooldown = this.getModifiedCooldown('mantra', GameConfig.MANTRA_COOLDOWN);
         }
       }
     }
@@ -416,17 +526,26 @@ export class AbilitySystem implements ISystem {
     if (GameConfig.ABILITY_ENABLED.ground) {
       if (!this.groundFieldActive && this.groundCooldown <= 0) {
         const groundLevel = this.abilities.ground.level;
-        // Spawn field at random position 300-500px from center
-        const angle = Math.random() * Math.PI * 2;
-        const distance = GameConfig.GROUND_SPAWN_DISTANCE_MIN + 
-                        Math.random() * (GameConfig.GROUND_SPAWN_DISTANCE_MAX - GameConfig.GROUND_SPAWN_DISTANCE_MIN);
-        this.groundFieldPosition = {
-          x: center.x + Math.cos(angle) * distance,
-          y: center.y + Math.sin(angle) * distance
-        };
+        // Anchored forms the field on the densest cluster; otherwise spawn at random position 300-500px from center
+        const anchor = this.getChosenBranch('ground', 'ground_anchored') ? this.findDensestStressor(stressors) : null;
+        if (anchor) {
+          this.groundFieldPosition = { ...anchor.position };
+        } else {
+          const random = context.getRandom();
+          const angle = random.range(0, Math.PI * 2);
+          const distance = random.range(GameConfig.GROUND_SPAWN_DISTANCE_MIN, GameConfig.GROUND_SPAWN_DISTANCE_MAX);
+          this.groundFieldPosition = {
+            x: center.x + Math.cos(angle) * distance,
+            y: center.y + Math.sin(angle) * distance
+          };
+        }
         this.groundFieldActive = true;
-        this.groundFieldDuration = GameConfig.GROUND_BASE_DURATION + (groundLevel * GameConfig.GROUND_DURATION_SCALING);
+        this.groundFieldDuration = this.getModifiedDuration(
+          'ground',
+          GameConfig.GROUND_BASE_DURATION + (groundLevel * GameConfig.GROUND_DURATION_SCALING)
+        );
         this.groundCooldown = 0; // Will be set after field ends
+        context.getEvents().emit('abilityTriggered', { ability: 'ground' });
       }
       
       if (this.groundFieldActive) {
@@ -439,29 +558,38 @@ export class AbilitySystem implements ISystem {
           }
           this.groundFieldActive = false;
           this.groundFieldPosition = null;
-          this.groundCooldown = GameConfig.GROUND_COOLDOWN;
+          this.groundCooldown = this.getModifiedCooldown('ground', GameConfig.GROUND_COOLDOWN);
         }
       }
     }
     
     // Release - Ultimate cleanse
     if (GameConfig.ABILITY_ENABLED.release) {
-      this.releaseJustTriggered = false;
-      if (this.releaseCooldown <= 0 && serenity <= GameConfig.RELEASE_TRIGGER_SERENITY) {
-        this.releaseJustTriggered = true;
-        this.releaseCooldown = GameConfig.RELEASE_COOLDOWN;
+      const early = this.getChosenBranch('release', 'release_early');
+      const triggerSerenity = early ? getBranchEffectModifier(early, 'special') : GameConfig.RELEASE_TRIGGER_SERENITY;
+      if (this.releaseCooldown <= 0 && serenity <= triggerSerenity) {
+        this.releaseCooldown = this.getModifiedCooldown('release', GameConfig.RELEASE_COOLDOWN);
+        
+        if (this.getChosenBranch('release', 'release_purifying')) {
+          this.resetCooldownsAfterRelease();
+        }
+        context.getEvents().emit('abilityTriggered', { ability: 'release' });
       }
     }
     
     // Align - Rhythmic modulator (always active when enabled)
     if (GameConfig.ABILITY_ENABLED.align) {
       const alignLevel = this.abilities.align.level;
-      const cycleDuration = GameConfig.ALIGN_CYCLE_DURATION + (alignLevel * GameConfig.ALIGN_CYCLE_SCALING);
+      const cycleDuration = this.getModifiedDuration(
+        'align',
+        GameConfig.ALIGN_CYCLE_DURATION + (alignLevel * GameConfig.ALIGN_CYCLE_SCALING)
+      );
       this.alignCycleTimer += deltaTime;
       
       if (this.alignCycleTimer >= cycleDuration) {
         this.alignCycleTimer = 0;
         this.alignPhase = this.alignPhase === 'offense' ? 'defense' : 'offense';
+        context.getEvents().emit('abilityTriggered', { ability: 'align', phase: this.alignPhase });
       }
     }
     
@@ -480,25 +608,26 @@ export class AbilitySystem implements ISystem {
     // Update inhaling state
     this.lastInhalingState = this.isInhaling;
     this.isInhaling = currentPhase === inhalePhase;
+    if (this.lastInhalingState && !this.isInhaling) {
+      context.getEvents().emit('abilityTriggered', { ability: 'breathe', phase: 'exhale' });
+    }
     
     // Track breathing state for visual/effect purposes
     if (this.isInhaling) {
       // During inhale, build up
       this.breatheHeld = true;
       const inhaleProgress = getPhaseProgress(cycleProgress, inhalePhase); // 0 to 1 during inhale
-      this.breatheHoldStart = Date.now() - (inhaleProgress * this.breatheCycleDuration * 0.5 * 1000);
+      this.breatheHoldStart = this.simulationTime - (inhaleProgress * this.breatheCycleDuration * 0.5);
     } else {
       // During exhale, ready to release
       this.breatheHeld = true;
-      this.breatheHoldStart = Date.now() - (this.breatheCycleDuration * 0.5 * 1000); // Simulate full inhale
+      this.breatheHoldStart = this.simulationTime - (this.breatheCycleDuration * 0.5); // Simulate full inhale
     }
     
     // Detect if breath just reached peak (maximum size)
     // Peak occurs at progress 1.0 (end of exhale) or wrap-around from 1.0 to 0.0
-    // Reset flag at start of update, then set if condition is met (ensures flag is only true for one frame)
-    this.justReachedPeak = false;
     if (this.detectBreathPeak(this.previousCycleProgress, cycleProgress)) {
-      this.justReachedPeak = true;
+      context.getEvents().emit('abilityTriggered', { ability: 'breathe', phase: 'peak' });
     }
     
     // Store progress for transition detection
@@ -523,18 +652,6 @@ export class AbilitySystem implements ISystem {
     return wrappedAround || (crossedThreshold && previousProgress > 0.5); // Only trigger if coming from exhale phase
   }
   
-  justTransitionedToExhale(): boolean {
-    // Use CycleUtils to detect transition to exhale phase
-    const currentProgress = getCycleProgress(this.breatheCycleTime, this.breatheCycleDuration);
-    const exhalePhase = this.breatheCycleConfig.phases[1];
-    return justTransitionedToPhase(currentProgress, this.previousCycleProgress, exhalePhase);
-  }
-  
-  justReachedBreathPeak(): boolean {
-    // Returns true if breath just reached maximum size (peak of exhale)
-    return this.justReachedPeak;
-  }
-  
   getBreatheCycleProgress(): number {
     // Returns intensity: 0-1 during inhale, 1-0 during exhale (for progress bars)
     const cycleProgress = getCycleProgress(this.breatheCycleTime, this.breatheCycleDuration);
@@ -564,14 +681,24 @@ export class AbilitySystem implements ISystem {
     this.breatheHeld = false;
   }
 
-  upgradeAbility(abilityName: keyof AbilityState, insight: number): boolean {
+  /**
+   * Check whether an ability can be upgraded with the given insight
+   */
+  canUpgrade(abilityName: keyof AbilityState, insight: number): boolean {
     const ability = this.abilities[abilityName];
     if (ability.level >= ability.maxLevel) return false;
+    if (this.isAtBranchPoint(abilityName)) return false; // Branch must be chosen first
+    return insight >= this.getUpgradeCost(abilityName);
+  }
+
+  /**
+   * Apply one level if affordable. Does not spend insight - use Game.executeCommand,
+   * which deducts the cost in the same step.
+   */
+  upgradeAbility(abilityName: keyof AbilityState, insight: number): boolean {
+    if (!this.canUpgrade(abilityName, insight)) return false;
     
-    const cost = this.getUpgradeCost(abilityName);
-    if (insight < cost) return false;
-    
-    ability.level++;
+    this.abilities[abilityName].level++;
     return true;
   }
 
@@ -592,8 +719,8 @@ export class AbilitySystem implements ISystem {
   }
   
   getBreathMaxRadius(): number {
-    // Returns the maximum breath AoE radius
-    return getBreathMaxRadius();
+    // Returns the maximum breath AoE radius (after branch radius modifiers)
+    return this.getModifiedRadius('breathe', getBreathMaxRadius());
   }
   
   isAuraActive(): boolean {
@@ -606,7 +733,7 @@ export class AbilitySystem implements ISystem {
            * Uses buffer amount (added to player radius), growth amount, and cycle duration.
            */
           getBreathRadius(rawProgress: number): number {
-            return calculateBreathRadius(rawProgress);
+            return this.getModifiedRadius('breathe', calculateBreathRadius(rawProgress));
           }
 
   getBreatheHeld(): boolean {
@@ -615,7 +742,7 @@ export class AbilitySystem implements ISystem {
 
   getBreatheHoldDuration(): number {
     if (!this.breatheHeld) return 0;
-    return (Date.now() - this.breatheHoldStart) / 1000;
+    return this.simulationTime - this.breatheHoldStart;
   }
   
   getBreatheHoldStart(): number {
@@ -634,6 +761,15 @@ export class AbilitySystem implements ISystem {
     return this.recenterCooldown;
   }
   
+  /**
+   * Pulse radius multiplier from radius branches and Resonant stacks
+   */
+  private getRecenterRadiusMultiplier(): number {
+    const resonant = this.getChosenBranch('recenter', 'recenter_resonant');
+    const stackBonus = resonant ? getBranchEffectModifier(resonant, 'special') * this.recenterResonanceStacks : 0;
+    return this.getModifiedRadius('recenter', 1) * (1 + stackBonus);
+  }
+  
   // Exhale query methods
   getExhaleWaves(): Array<{ radius: number; maxRadius: number; damage: number; slowFactor: number; slowDuration: number }> {
     return this.exhaleWaves.map(w => ({
@@ -652,7 +788,7 @@ export class AbilitySystem implements ISystem {
   
   getReflectBarrierRadius(): number {
     if (!this.reflectBarrierActive) return 0;
-    return GameConfig.REFLECT_BARRIER_RADIUS;
+    return this.getModifiedRadius('reflect', GameConfig.REFLECT_BARRIER_RADIUS);
   }
   
   // Mantra query methods
@@ -664,10 +800,42 @@ export class AbilitySystem implements ISystem {
     return this.mantraTargetId;
   }
   
+  /**
+   * Primary target first, then any Split branch targets
+   */
+  getMantraTargetIds(): string[] {
+    if (!this.mantraTargetId) return [];
+    return [this.mantraTargetId, ...this.mantraExtraTargetIds];
+  }
+  
   getMantraBeamDamage(): number {
     if (!this.mantraBeamActive) return 0;
     const level = this.abilities.mantra.level;
-    return GameConfig.MANTRA_BASE_DAMAGE * (1 + level * GameConfig.MANTRA_DAMAGE_SCALING);
+    let damage = this.getModifiedDamage('mantra', GameConfig.MANTRA_BASE_DAMAGE * (1 + level * GameConfig.MANTRA_DAMAGE_SCALING));
+    
+    // Unwavering ramps damage the longer the beam holds one target
+    const unwavering = this.getChosenBranch('mantra', 'mantra_unwavering');
+    if (unwavering) {
+      damage *= 1 + getBranchEffectModifier(unwavering, 'special') * this.mantraFocusTime;
+    }
+    return damage;
+  }
+  
+  /**
+   * Split: the next-nearest stressors to center (after the primary target) share the beam
+   */
+  private updateMantraExtraTargets(stressors: Stressor[], center: Vector2): void {
+    const split = this.getChosenBranch('mantra', 'mantra_split');
+    if (!split) {
+      this.mantraExtraTargetIds = [];
+      return;
+    }
+    
+    this.mantraExtraTargetIds = stressors
+      .filter(s => s.id !== this.mantraTargetId)
+      .sort((a, b) => distance(a.position, center) - distance(b.position, center))
+      .slice(0, getBranchEffectModifier(split, 'special'))
+      .map(s => s.id);
   }
   
   // Ground query methods
@@ -681,12 +849,37 @@ export class AbilitySystem implements ISystem {
   
   getGroundFieldRadius(): number {
     if (!this.groundFieldActive) return 0;
-    return GameConfig.GROUND_FIELD_RADIUS;
+    return this.getModifiedRadius('ground', GameConfig.GROUND_FIELD_RADIUS);
+  }
+  
+  /**
+   * Anchored: the stressor with the most neighbors within a field radius, or null if none exist
+   */
+  private findDensestStressor(stressors: Stressor[]): Stressor | null {
+    const radius = this.getModifiedRadius('ground', GameConfig.GROUND_FIELD_RADIUS);
+    let densest: Stressor | null = null;
+    let mostNeighbors = -1;
+    
+    for (const stressor of stressors) {
+      const neighbors = stressors.filter(s => distance(s.position, stressor.position) <= radius).length;
+      if (neighbors > mostNeighbors) {
+        mostNeighbors = neighbors;
+        densest = stressor;
+      }
+    }
+    return densest;
   }
   
-  // Release query methods
-  wasReleaseJustTriggered(): boolean {
-    return this.releaseJustTriggered;
+  /**
+   * Purifying: every other ability is ready again (active effects run their course)
+   */
+  private resetCooldownsAfterRelease(): void {
+    this.recenterCooldown = 0;
+    this.affirmCooldownTime = 0;
+    this.exhaleCooldown = 0;
+    this.reflectCooldown = 0;
+    this.mantraCooldown = 0;
+    this.groundCooldown = 0;
   }
   
   // Align query methods
@@ -697,7 +890,14 @@ export class AbilitySystem implements ISystem {
   getAlignBonus(): number {
     if (!GameConfig.ABILITY_ENABLED.align) return 0;
     const level = this.abilities.align.level;
-    return GameConfig.ALIGN_BASE_BONUS * (1 + level * GameConfig.ALIGN_BONUS_SCALING);
+    let bonus = GameConfig.ALIGN_BASE_BONUS * (1 + level * GameConfig.ALIGN_BONUS_SCALING);
+    
+    const phaseBranch = this.getChosenBranch('align', this.alignPhase === 'offense' ? 'align_offensive' : 'align_defensive');
+    if (phaseBranch) bonus *= getBranchEffectModifier(phaseBranch, 'special');
+    const surging = this.getChosenBranch('align', 'align_surging');
+    if (surging) bonus *= getBranchEffectModifier(surging, 'special');
+    
+    return bonus;
   }
 
   // Branch system methods
@@ -705,9 +905,26 @@ export class AbilitySystem implements ISystem {
     const ability = this.abilities[abilityName];
     if (!ability) return false;
     
-    // Check if current level is a branch point and no branch has been chosen yet
+    // Check if current level is a branch point with options and no branch has been chosen yet
     return ability.branchPoints.includes(ability.level) && 
-           !ability.chosenBranches.has(ability.level);
+           !ability.chosenBranches.has(ability.level) &&
+           this.getAvailableBranches(abilityName).length > 0;
+  }
+
+  /**
+   * First ability (in AbilityState order) waiting on a branch choice, if any
+   */
+  getPendingBranchChoice(): PendingBranchChoice | null {
+    for (const abilityName of Object.keys(this.abilities) as (keyof AbilityState)[]) {
+      if (this.isAtBranchPoint(abilityName)) {
+        return {
+          ability: abilityName,
+          level: this.abilities[abilityName].level,
+          branches: this.getAvailableBranches(abilityName)
+        };
+      }
+    }
+    return null;
   }
 
   getAvailableBranches(abilityName: keyof AbilityState): AbilityBranch[] {
@@ -738,6 +955,21 @@ export class AbilitySystem implements ISystem {
     return true;
   }
 
+  /**
+   * The branch with this id, if it has been chosen for the ability
+   */
+  getChosenBranch(abilityName: keyof AbilityState, branchId: string): AbilityBranch | null {
+    const ability = this.abilities[abilityName];
+    if (!ability) return null;
+    
+    for (const [level, chosenId] of ability.chosenBranches.entries()) {
+      if (chosenId !== branchId) continue;
+      const branch = AbilityBranchConfig[abilityName]?.[level]?.find(b => b.id === branchId);
+      if (branch) return branch;
+    }
+    return null;
+  }
+
   getBranchEffects(abilityName: keyof AbilityState): BranchEffect[] {
     const ability = this.abilities[abilityName];
     if (!ability) return [];
@@ -810,5 +1042,111 @@ export class AbilitySystem implements ISystem {
     
     return duration;
   }
-}
 
+  /**
+   * Capture upgrades, branch choices and all timers for save/resume
+   */
+  getSnapshot(): AbilitySystemSnapshot {
+    const abilities = {} as Record<keyof AbilityState, SerializedAbilityUpgrade>;
+    for (const name of Object.keys(this.abilities) as (keyof AbilityState)[]) {
+      const upgrade = this.abilities[name];
+      abilities[name] = {
+        ...upgrade,
+        branchPoints: [...upgrade.branchPoints],
+        chosenBranches: Array.from(upgrade.chosenBranches.entries())
+      };
+    }
+    
+    return {
+      abilities,
+      breatheHeld: this.breatheHeld,
+      breatheHoldStart: this.breatheHoldStart,
+      simulationTime: this.simulationTime,
+      breatheCooldown: this.breatheCooldown,
+      recenterCooldown: this.recenterCooldown,
+      affirmCooldown: this.affirmCooldown,
+      breatheCycleTime: this.breatheCycleTime,
+      breatheCycleDuration: this.breatheCycleDuration,
+      previousCycleProgress: this.previousCycleProgress,
+      isInhaling: this.isInhaling,
+      lastInhalingState: this.lastInhalingState,
+      recenterPulseActive: this.recenterPulseActive,
+      recenterPulseTime: this.recenterPulseTime,
+      recenterPulseRadius: this.recenterPulseRadius,
+      recenterResonanceStacks: this.recenterResonanceStacks,
+      affirmActive: this.affirmActive,
+      affirmActiveTime: this.affirmActiveTime,
+      affirmCooldownTime: this.affirmCooldownTime,
+      exhaleCooldown: this.exhaleCooldown,
+      exhaleWaves: this.exhaleWaves.map(wave => ({ ...wave })),
+      reflectCooldown: this.reflectCooldown,
+      reflectBarrierActive: this.reflectBarrierActive,
+      reflectBarrierDuration: this.reflectBarrierDuration,
+      mantraCooldown: this.mantraCooldown,
+      mantraBeamActive: this.mantraBeamActive,
+      mantraTargetId: this.mantraTargetId,
+      mantraBeamDuration: this.mantraBeamDuration,
+      mantraExtraTargetIds: [...this.mantraExtraTargetIds],
+      mantraFocusTime: this.mantraFocusTime,
+      groundCooldown: this.groundCooldown,
+      groundFieldActive: this.groundFieldActive,
+      groundFieldPosition: this.groundFieldPosition ? { ...this.groundFieldPosition } : null,
+      groundFieldDuration: this.groundFieldDuration,
+      releaseCooldown: this.releaseCooldown,
+      alignCycleTimer: this.alignCycleTimer,
+      alignPhase: this.alignPhase
+    };
+  }
+
+  /**
+   * Restore state captured by getSnapshot.
+   * Only levels and branch choices are taken from saved upgrades; names, costs and
+   * branch points always come from the current definitions.
+   */
+  restoreSnapshot(snapshot: AbilitySystemSnapshot): void {
+    for (const name of Object.keys(this.abilities) as (keyof AbilityState)[]) {
+      const saved = snapshot.abilities[name];
+      if (!saved) continue;
+      const upgrade = this.abilities[name];
+      upgrade.level = Math.max(0, Math.min(upgrade.maxLevel, saved.level));
+      upgrade.chosenBranches = new Map(saved.chosenBranches);
+    }
+    
+    this.breatheHeld = snapshot.breatheHeld;
+    this.breatheHoldStart = snapshot.breatheHoldStart;
+    this.simulationTime = snapshot.simulationTime;
+    this.breatheCooldown = snapshot.breatheCooldown;
+    this.recenterCooldown = snapshot.recenterCooldown;
+    this.affirmCooldown = snapshot.affirmCooldown;
+    this.breatheCycleTime = snapshot.breatheCycleTime;
+    this.breatheCycleDuration = snapshot.breatheCycleDuration;
+    this.previousCycleProgress = snapshot.previousCycleProgress;
+    this.isInhaling = snapshot.isInhaling;
+    this.lastInhalingState = snapshot.lastInhalingState;
+    this.recenterPulseActive = snapshot.recenterPulseActive;
+    this.recenterPulseTime = snapshot.recenterPulseTime;
+    this.recenterPulseRadius = snapshot.recenterPulseRadius;
+    this.recenterResonanceStacks = snapshot.recenterResonanceStacks;
+    this.affirmActive = snapshot.affirmActive;
+    this.affirmActiveTime = snapshot.affirmActiveTime;
+    this.affirmCooldownTime = snapshot.affirmCooldownTime;
+    this.exhaleCooldown = snapshot.exhaleCooldown;
+    this.exhaleWaves = snapshot.exhaleWaves.map(wave => ({ ...wave }));
+    this.reflectCooldown = snapshot.reflectCooldown;
+    this.reflectBarrierActive = snapshot.reflectBarrierActive;
+    this.reflectBarrierDuration = snapshot.reflectBarrierDuration;
+    this.mantraCooldown = snapshot.mantraCooldown;
+    this.mantraBeamActive = snapshot.mantraBeamActive;
+    this.mantraTargetId = snapshot.mantraTargetId;
+    this.mantraBeamDuration = snapshot.mantraBeamDuration;
+    this.mantraExtraTargetIds = [...snapshot.mantraExtraTargetIds];
+    this.mantraFocusTime = snapshot.mantraFocusTime;
+    this.groundCooldown = snapshot.groundCooldown;
+    this.groundFieldActive = snapshot.groundFieldActive;
+    this.groundFieldPosition = snapshot.groundFieldPosition ? { ...snapshot.groundFieldPosition } : null;
+    this.groundFieldDuration = snapshot.groundFieldDuration;
+    this.releaseCooldown = snapshot.releaseCooldown;
+    this.alignCycleTimer = snapshot.alignCycleTimer;
+    this.alignPhase = snapshot.alignPhase;
+  }
+}
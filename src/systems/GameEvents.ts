@@ -0,0 +1,87 @@
+import { Stressor, AbilityState, UpgradePurchase, ResolvedStressor, GameCommand } from '../types';
+
+/**
+ * Game Events - Typed event bus for things that happen during the simulation
+ *
+ * Owned by Game (one bus for the app's lifetime, surviving run resets) and
+ * exposed to systems through SystemContext.getEvents(). Events are emitted
+ * synchronously inside the simulation step that caused them, so subscribers see
+ * them in simulation order. Subscribers must not assume a render frame boundary;
+ * latch what they need and consume it when they next draw.
+ *
+ * A simulation subscriber's error reaches the code that emitted the event, so a
+ * half-applied step never goes unnoticed. Presentation subscribers (rendering,
+ * audio) are isolated: their errors are logged and the step carries on.
+ */
+
+export interface GameEventMap {
+  stressorSpawned: { stressor: Stressor };
+  stressorDamaged: { stressorId: string; damage: number; source: string; remainingHealth: number };
+  stressorResolved: ResolvedStressor; // Killed by an ability (collisions are stressorCollided)
+  stressorCollided: { stressor: Stressor; serenityDamage: number }; // Reached the center
+  abilityTriggered: { ability: keyof AbilityState; phase?: string }; // phase: Breathe 'exhale'/'peak', Align 'offense'/'defense'
+  waveStarted: { wave: number; stressorCount: number }; // stressorCount includes stressors scheduled to arrive later in the wave
+  serenityThresholdCrossed: { threshold: number; direction: 'down' | 'up'; serenity: number }; // threshold as a fraction of max serenity
+  upgradePurchased: UpgradePurchase;
+  commandExecuted: { tick: number; command: GameCommand }; // Accepted player command; tick = steps run when it was applied
+  tickCompleted: { tick: number }; // Last event of every simulation step
+}
+
+export type GameEventType = keyof GameEventMap;
+export type GameEventHandler<K extends GameEventType> = (event: GameEventMap[K]) => void;
+
+export interface GameEventSubscribeOptions {
+  presentation?: boolean; // Rendering/audio feedback: errors are logged instead of thrown
+}
+
+type HandlerRegistry = { [K in GameEventType]?: Set<GameEventHandler<K>> };
+
+export class GameEventBus {
+  private handlers: HandlerRegistry = {};
+  private presentationHandlers = new WeakSet<object>();
+
+  /**
+   * Subscribe to an event type. Returns an unsubscribe function.
+   */
+  on<K extends GameEventType>(type: K, handler: GameEventHandler<K>, options: GameEventSubscribeOptions = {}): () => void {
+    if (options.presentation) {
+      this.presentationHandlers.add(handler);
+    }
+
+    const registry = this.handlers as { [T in K]?: Set<GameEventHandler<T>> };
+    let handlers = registry[type];
+    if (!handlers) {
+      handlers = new Set();
+      registry[type] = handlers;
+    }
+    handlers.add(handler);
+    return () => this.off(type, handler);
+  }
+
+  off<K extends GameEventType>(type: K, handler: GameEventHandler<K>): void {
+    const handlers = (this.handlers as { [T in K]?: Set<GameEventHandler<T>> })[type];
+    handlers?.delete(handler);
+  }
+
+  /**
+   * Deliver an event to every subscriber. A failing presentation subscriber is
+   * logged and skipped; any other failure is thrown to the emitter.
+   */
+  emit<K extends GameEventType>(type: K, event: GameEventMap[K]): void {
+    const handlers = (this.handlers as { [T in K]?: Set<GameEventHandler<T>> })[type];
+    if (!handlers) return;
+
+    for (const handler of Array.from(handlers)) {
+      if (!this.presentationHandlers.has(handler)) {
+        handler(event);
+        continue;
+      }
+
+      try {
+        handler(event);
+      } catch (error) {
+        console.error(`Failed to handle ${type} event:`, error);
+      }
+    }
+  }
+}
@@ -1,10 +1,13 @@
 import { SystemContext } from './ISystem';
-import { GameState, AbilityState, Stressor, Vector2 } from '../types';
+import { GameState, AbilityState, Stressor, Vector2, InsightAward, PendingBranchChoice, AbilityBranch, PendingSpawn } from '../types';
+import { GameConfig } from '../GameConfig';
 import { Game } from '../Game';
 import { StressorSystem } from './StressorSystem';
 import { AbilitySystem } from './AbilitySystem';
 import { StatusEffectManager } from './effects/StatusEffectManager';
+import { InsightSystem } from './InsightSystem';
 import { SeededRandom } from '../utils/Random';
+import { GameEventBus } from './GameEvents';
 
 /**
  * GameSystemContext - Modular implementation of SystemContext interface
@@ -18,6 +21,7 @@ export class GameSystemContext implements SystemContext {
     private stressorSystem: StressorSystem,
     private abilitySystem: AbilitySystem,
     private statusEffectManager: StatusEffectManager,
+    private insightSystem: InsightSystem,
     private random: SeededRandom
   ) {}
 
@@ -41,6 +45,10 @@ export class GameSystemContext implements SystemContext {
     return this.stressorSystem.getStressors();
   }
 
+  getUpcomingSpawns(): PendingSpawn[] {
+    return this.stressorSystem.getUpcomingSpawns(GameConfig.SPAWN_TELEGRAPH_TIME);
+  }
+
   getAbilities(): AbilityState {
     return this.abilitySystem.getAbilities();
   }
@@ -49,6 +57,30 @@ export class GameSystemContext implements SystemContext {
     return this.abilitySystem.getAbilityLevel(ability);
   }
 
+  getUpgradeCost(ability: keyof AbilityState): number {
+    return this.abilitySystem.getUpgradeCost(ability);
+  }
+
+  getPendingBranchChoice(): PendingBranchChoice | null {
+    return this.abilitySystem.getPendingBranchChoice();
+  }
+
+  getChosenBranch(ability: keyof AbilityState, branchId: string): AbilityBranch | null {
+    return this.abilitySystem.getChosenBranch(ability, branchId);
+  }
+
+  getModifiedDamage(ability: keyof AbilityState, baseDamage: number): number {
+    return this.abilitySystem.getModifiedDamage(ability, baseDamage);
+  }
+
+  getModifiedRadius(ability: keyof AbilityState, baseRadius: number): number {
+    return this.abilitySystem.getModifiedRadius(ability, baseRadius);
+  }
+
+  getModifiedCooldown(ability: keyof AbilityState, baseCooldown: number): number {
+    return this.abilitySystem.getModifiedCooldown(ability, baseCooldown);
+  }
+
   getBreathMaxRadius(): number {
     return this.abilitySystem.getBreathMaxRadius();
   }
@@ -61,6 +93,10 @@ export class GameSystemContext implements SystemContext {
     return this.abilitySystem.getAffirmAmplification();
   }
 
+  isAffirmActive(): boolean {
+    return this.abilitySystem.isAffirmActive();
+  }
+
   getAlignBonus(): number {
     return this.abilitySystem.getAlignBonus();
   }
@@ -97,6 +133,10 @@ export class GameSystemContext implements SystemContext {
     return this.abilitySystem.getMantraTargetId();
   }
 
+  getMantraTargetIds(): string[] {
+    return this.abilitySystem.getMantraTargetIds();
+  }
+
   getMantraBeamDamage(): number {
     return this.abilitySystem.getMantraBeamDamage();
   }
@@ -113,10 +153,6 @@ export class GameSystemContext implements SystemContext {
     return this.abilitySystem.getGroundFieldRadius();
   }
 
-  wasReleaseJustTriggered(): boolean {
-    return this.abilitySystem.wasReleaseJustTriggered();
-  }
-
   getBreatheCycleProgress(): number {
     return this.abilitySystem.getBreatheCycleProgress();
   }
@@ -125,16 +161,8 @@ export class GameSystemContext implements SystemContext {
     return this.abilitySystem.getBreatheRawCycleProgress();
   }
 
-  justTransitionedToExhale(): boolean {
-    return this.abilitySystem.justTransitionedToExhale();
-  }
-
-  justReachedBreathPeak(): boolean {
-    return this.abilitySystem.justReachedBreathPeak();
-  }
-
-  damageStressor(id: string, damage: number): void {
-    this.stressorSystem.damageStressor(id, damage);
+  damageStressor(id: string, damage: number, source: string): void {
+    this.stressorSystem.damageStressor(id, damage, source);
   }
 
   modifyState(updates: Partial<GameState>): void {
@@ -145,8 +173,28 @@ export class GameSystemContext implements SystemContext {
     return this.statusEffectManager;
   }
 
+  getInsightEarned(): number {
+    return this.insightSystem.getTotalEarned();
+  }
+
+  getWaveInsightEarned(): number {
+    return this.insightSystem.getEarnedThisWave();
+  }
+
+  getRecentInsightAwards(): InsightAward[] {
+    return this.insightSystem.getRecentAwards();
+  }
+
+  getSimulationTime(): number {
+    return this.game.getSimulationTime();
+  }
+
   getRandom(): SeededRandom {
     return this.random;
   }
+
+  getEvents(): GameEventBus {
+    return this.game.getEvents();
+  }
 }
 
@@ -1,6 +1,12 @@
-import { GameState, AbilityState, Stressor, Vector2 } from '../types';
+import { GameState, AbilityState, Stressor, Vector2, InsightAward, PendingBranchChoice, AbilityBranch, PendingSpawn } from '../types';
 import { StatusEffectManager } from './effects/StatusEffectManager';
 import { SeededRandom } from '../utils/Random';
+import { GameEventBus } from './GameEvents';
+
+/**
+ * Returns current simulation time in seconds (advances only while the game simulates)
+ */
+export type SimulationClock = () => number;
 
 export interface SystemContext {
   state: GameState;
@@ -8,12 +14,21 @@ export interface SystemContext {
   playfieldWidth: number;
   playfieldHeight: number;
   getStressors(): Stressor[];
+  getUpcomingSpawns(): PendingSpawn[]; // Scheduled stressors arriving within SPAWN_TELEGRAPH_TIME
   getAbilities(): AbilityState;
   getAbilityLevel(ability: keyof AbilityState): number;
+  getUpgradeCost(ability: keyof AbilityState): number; // Insight cost of the next level
+  getPendingBranchChoice(): PendingBranchChoice | null; // Ability blocked at a branch point, if any
+  // Branch modifiers (chosen branches applied to a base value)
+  getChosenBranch(ability: keyof AbilityState, branchId: string): AbilityBranch | null;
+  getModifiedDamage(ability: keyof AbilityState, baseDamage: number): number;
+  getModifiedRadius(ability: keyof AbilityState, baseRadius: number): number;
+  getModifiedCooldown(ability: keyof AbilityState, baseCooldown: number): number;
   getBreathMaxRadius(): number; // Returns the maximum breath AoE radius
   isAuraActive(): boolean; // Needed for StressorSystem.update() which requires auraActive parameter
   // AbilitySystem query methods (needed by AbilityEffectSystem)
   getAffirmAmplification(): number;
+  isAffirmActive(): boolean; // Affirm's active window (amplification can exceed 1 outside it via branches)
   getAlignBonus(): number;
   getAlignPhase(): 'offense' | 'defense';
   isRecenterPulseActive(): boolean;
@@ -23,22 +38,28 @@ export interface SystemContext {
   getReflectBarrierRadius(): number;
   isMantraBeamActive(): boolean;
   getMantraTargetId(): string | null;
+  getMantraTargetIds(): string[]; // Primary target first, then Split branch targets
   getMantraBeamDamage(): number;
   isGroundFieldActive(): boolean;
   getGroundFieldPosition(): Vector2 | null;
   getGroundFieldRadius(): number;
-  wasReleaseJustTriggered(): boolean;
   getBreatheCycleProgress(): number; // Returns 0-1 breathe intensity
   getBreatheRawCycleProgress(): number; // Returns raw cycle progress: 0-1 (0 = start inhale, 0.5 = start exhale, 1 = end exhale)
-  justTransitionedToExhale(): boolean; // Returns true if just transitioned from inhale to exhale
-  justReachedBreathPeak(): boolean; // Returns true if breath just reached maximum size (peak of exhale)
   // Mutation methods (controlled)
-  damageStressor(id: string, damage: number): void;
+  damageStressor(id: string, damage: number, source: string): void; // source = ability name, for kill attribution
   modifyState(updates: Partial<GameState>): void;
   // Status effect system access
   getStatusEffectManager(): StatusEffectManager;
+  // Insight economy queries
+  getInsightEarned(): number; // Total insight earned this run (ignores spending)
+  getWaveInsightEarned(): number; // Insight earned during the current wave
+  getRecentInsightAwards(): InsightAward[]; // Awards granted during the last update
+  // Simulation clock (seconds) - use instead of Date.now() for any gameplay timing
+  getSimulationTime(): number;
   // Random number generator access
   getRandom(): SeededRandom;
+  // Game events (ability triggers, stressor lifecycle, waves) - subscribe instead of polling
+  getEvents(): GameEventBus;
 }
 
 export interface ISystem {
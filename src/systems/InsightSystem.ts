@@ -0,0 +1,152 @@
+import { InsightAward, ResolvedStressor, Stressor } from '../types';
+import { GameConfig } from '../GameConfig';
+import { ISystem, SystemContext } from './ISystem';
+import { getBranchEffectModifier } from './AbilityBranches';
+import { getStressorDefinition } from '../config/StressorDefinitions';
+
+export interface InsightSystemSnapshot {
+  totalEarned: number;
+  earnedThisWave: number;
+}
+
+/**
+ * InsightSystem - Awards Insight for resolving stressors and completing waves
+ *
+ * Stressor rewards scale with wave and stressor type. Wave rewards scale with wave,
+ * with a bonus for clearing every stressor before the wave timer expires.
+ */
+export class InsightSystem implements ISystem {
+  private totalEarned: number = 0;
+  private earnedThisWave: number = 0;
+  private recentAwards: InsightAward[] = [];
+
+  /**
+   * Clear awards from the previous frame
+   * Called at the start of each game update, before any awards are granted
+   */
+  update(_deltaTime: number, _context: SystemContext): void {
+    this.recentAwards = [];
+  }
+
+  /**
+   * Award Insight for a stressor resolved by the player (not collisions)
+   */
+  awardStressorResolved(resolved: ResolvedStressor, context: SystemContext): number {
+    const { stressor, source } = resolved;
+    const wave = context.state.wave;
+    let amount = this.calculateStressorReward(stressor, wave);
+    
+    // Affirm's Insightful branch boosts rewards while Affirm is active
+    const insightful = context.getChosenBranch('affirm', 'affirm_insightful');
+    if (insightful && context.isAffirmActive()) {
+      amount = Math.round(amount * getBranchEffectModifier(insightful, 'special'));
+    }
+
+    this.grant(context, {
+      source: 'stressor',
+      amount,
+      wave,
+      stressorType: stressor.type,
+      resolvedBy: source,
+      position: { ...stressor.position }
+    });
+
+    return amount;
+  }
+
+  /**
+   * Award Insight for completing a wave
+   * @param timeRemaining Seconds left on the wave timer (0 when the timer expired)
+   */
+  awardWaveCompleted(wave: number, timeRemaining: number, context: SystemContext): number {
+    const earlyClear = timeRemaining > 0;
+    const amount = this.calculateWaveReward(wave, timeRemaining);
+
+    this.grant(context, {
+      source: 'wave',
+      amount,
+      wave,
+      earlyClear
+    });
+
+    // Wave rewards close out the wave's earnings
+    this.earnedThisWave = 0;
+
+    return amount;
+  }
+
+  /**
+   * Award Insight estimated for time spent away (see OfflineProgress)
+   */
+  awardOfflineProgress(amount: number, wave: number, context: SystemContext): number {
+    this.grant(context, {
+      source: 'offline',
+      amount,
+      wave
+    });
+    
+    // Offline waves are closed out, so the current wave starts from nothing
+    this.earnedThisWave = 0;
+    
+    return amount;
+  }
+
+  calculateStressorReward(stressor: Stressor, wave: number): number {
+    const typeMultiplier = getStressorDefinition(stressor.type).stats.insight;
+    const base = GameConfig.INSIGHT_BASE + GameConfig.INSIGHT_PER_WAVE * Math.max(0, wave - 1);
+    return Math.round(base * typeMultiplier);
+  }
+
+  calculateWaveReward(wave: number, timeRemaining: number): number {
+    const base = GameConfig.INSIGHT_WAVE_CLEAR_BASE + GameConfig.INSIGHT_WAVE_CLEAR_PER_WAVE * Math.max(0, wave - 1);
+    const remainingFraction = Math.max(0, Math.min(1, timeRemaining / GameConfig.WAVE_DURATION));
+    const earlyBonus = base * GameConfig.INSIGHT_EARLY_CLEAR_BONUS * remainingFraction;
+    return Math.round(base + earlyBonus);
+  }
+
+  getTotalEarned(): number {
+    return this.totalEarned;
+  }
+
+  getEarnedThisWave(): number {
+    return this.earnedThisWave;
+  }
+
+  /**
+   * Awards granted during the current frame (for UI feedback)
+   */
+  getRecentAwards(): InsightAward[] {
+    return [...this.recentAwards];
+  }
+
+  /**
+   * Run totals for save/resume (recent awards are per-frame and not saved)
+   */
+  getSnapshot(): InsightSystemSnapshot {
+    return {
+      totalEarned: this.totalEarned,
+      earnedThisWave: this.earnedThisWave
+    };
+  }
+
+  restoreSnapshot(snapshot: InsightSystemSnapshot): void {
+    this.totalEarned = snapshot.totalEarned;
+    this.earnedThisWave = snapshot.earnedThisWave;
+    this.recentAwards = [];
+  }
+
+  reset(): void {
+    this.totalEarned = 0;
+    this.earnedThisWave = 0;
+    this.recentAwards = [];
+  }
+
+  private grant(context: SystemContext, award: InsightAward): void {
+    if (award.amount <= 0) return;
+
+    context.modifyState({ insight: context.state.insight + award.amount });
+    this.totalEarned += award.amount;
+    this.earnedThisWave += award.amount;
+    this.recentAwards.push(award);
+  }
+}
@@ -0,0 +1,174 @@
+import { GameConfig } from '../GameConfig';
+import { getAvailableStressorTypes } from '../config/WaveProgressionConfig';
+import { getStressorDefinition } from '../config/StressorDefinitions';
+import { getScriptedWaveTypes } from '../config/WaveScripts';
+import { AbilitySystem } from './AbilitySystem';
+import { InsightSystem } from './InsightSystem';
+import { getWaveStressorCount, getStressorMaxHealth } from './StressorSystem';
+
+/**
+ * Offline Progress - Coarse estimate of the run while the game was closed
+ *
+ * Rather than stepping the simulation, each wave is reduced to its total stressor
+ * health (StressorSystem spawn scaling) against the player's sustained damage per
+ * second (current ability levels and branches). A wave the player out-damages is
+ * cleared early (though not before its spawn window has passed); health still
+ * standing when the timer runs out reaches the center as collision damage.
+ * Progress stops before serenity would fall to the offline floor, so a run can
+ * stall but never end while the player is away.
+ */
+
+export interface OfflineProgressStart {
+  wave: number;
+  waveTimer: number; // Seconds into the current wave
+  serenity: number;
+  maxSerenity: number;
+  stressorCount: number; // Live stressors in the current wave
+  stressorHealth: number; // Their combined remaining health
+}
+
+export interface OfflineProgressEstimate {
+  wavesSurvived: number;
+  endWave: number; // First wave not completed offline
+  insightEarned: number;
+  serenity: number; // Serenity at the end of the credited time
+  stalled: boolean;
+}
+
+/**
+ * Estimate waves survived, insight earned and serenity over `seconds` of offline time
+ */
+export function estimateOfflineProgress(
+  seconds: number,
+  start: OfflineProgressStart,
+  abilitySystem: AbilitySystem,
+  insightSystem: InsightSystem
+): OfflineProgressEstimate {
+  const dps = estimatePlayerDps(abilitySystem);
+  const serenityFloor = start.maxSerenity * GameConfig.OFFLINE_SERENITY_FLOOR;
+
+  let remaining = seconds;
+  let wave = start.wave;
+  let serenity = start.serenity;
+  let insightEarned = 0;
+  let wavesSurvived = 0;
+  let stalled = false;
+
+  // The current wave continues from its live stressors; later waves spawn in full
+  let count = start.stressorCount;
+  let health = start.stressorHealth;
+  let timeLimit = Math.max(0, GameConfig.WAVE_DURATION - start.waveTimer);
+  let arrivalTime = 0; // Pending stressors of the current wave are already counted in
+
+  while (true) {
+    const killTime = health <= 0 ? 0 : dps > 0 ? health / dps : Infinity;
+    const clearTime = Math.max(killTime, arrivalTime); // Can't clear before the last stressor arrives
+    const waveTime = Math.min(clearTime, timeLimit);
+    if (waveTime > remaining) break; // Not enough time left to finish this wave
+
+    const killedFraction = health <= 0 ? 1 : Math.min(1, (dps * waveTime) / health);
+    const killed = Math.round(count * killedFraction);
+    const serenityAfter = serenity - (count - killed) * GameConfig.STRESSOR_COLLISION_DAMAGE;
+    if (serenityAfter < serenity && serenityAfter <= serenityFloor) {
+      stalled = true;
+      break;
+    }
+
+    serenity = serenityAfter;
+    remaining -= waveTime;
+    if (wave > 0) {
+      insightEarned += Math.round(killed * getAverageStressorReward(wave));
+      insightEarned += insightSystem.calculateWaveReward(wave, timeLimit - waveTime);
+      wavesSurvived++;
+    }
+
+    wave++;
+    count = getWaveStressorCount(wave);
+    health = count * getAverageStressorHealth(wave);
+    timeLimit = GameConfig.WAVE_DURATION;
+    arrivalTime = GameConfig.SPAWN_CURVE === 'instant' ? 0 : Math.min(GameConfig.SPAWN_WINDOW, timeLimit);
+  }
+
+  return { wavesSurvived, endWave: wave, insightEarned, serenity, stalled };
+}
+
+/**
+ * Sustained damage per second across a wave from the damaging abilities.
+ * Reactive abilities (Reflect, Release) are left out: they only fire when serenity is low.
+ */
+export function estimatePlayerDps(abilitySystem: AbilitySystem): number {
+  const enabled = GameConfig.ABILITY_ENABLED;
+  const targets = GameConfig.OFFLINE_AREA_TARGETS;
+  let dps = 0;
+
+  if (enabled.breathe) {
+    const level = abilitySystem.getAbilityLevel('breathe');
+    const damage = abilitySystem.getModifiedDamage('breathe', GameConfig.BREATHE_BASE_DAMAGE_PER_SECOND);
+    dps += damage * (1 + level * GameConfig.BREATHE_DAMAGE_SCALING) * targets;
+  }
+
+  if (enabled.exhale) {
+    const level = abilitySystem.getAbilityLevel('exhale');
+    const damage = abilitySystem.getModifiedDamage('exhale', GameConfig.EXHALE_BASE_DAMAGE * (1 + level * GameConfig.EXHALE_DAMAGE_SCALING));
+    const cooldown = abilitySystem.getModifiedCooldown('exhale', GameConfig.EXHALE_COOLDOWN - level * GameConfig.EXHALE_COOLDOWN_SCALING);
+    dps += (damage * GameConfig.EXHALE_WAVE_COUNT * targets) / Math.max(cooldown, GameConfig.SIMULATION_STEP);
+  }
+
+  if (enabled.mantra) {
+    const level = abilitySystem.getAbilityLevel('mantra');
+    const damage = abilitySystem.getModifiedDamage('mantra', GameConfig.MANTRA_BASE_DAMAGE * (1 + level * GameConfig.MANTRA_DAMAGE_SCALING));
+    const duration = abilitySystem.getModifiedDuration('mantra', GameConfig.MANTRA_BASE_DURATION + level * GameConfig.MANTRA_DURATION_SCALING);
+    const cooldown = abilitySystem.getModifiedCooldown('mantra', GameConfig.MANTRA_COOLDOWN);
+    dps += (damage * duration) / (duration + cooldown);
+  }
+
+  if (enabled.ground) {
+    const level = abilitySystem.getAbilityLevel('ground');
+    const damage = abilitySystem.getModifiedDamage('ground', GameConfig.GROUND_BASE_DAMAGE) * (1 + level * GameConfig.GROUND_DAMAGE_SCALING);
+    const duration = abilitySystem.getModifiedDuration('ground', GameConfig.GROUND_BASE_DURATION + level * GameConfig.GROUND_DURATION_SCALING);
+    const cooldown = abilitySystem.getModifiedCooldown('ground', GameConfig.GROUND_COOLDOWN);
+    dps += (damage * targets * duration) / (duration + cooldown);
+  }
+
+  return dps * getAverageAffirmAmplification(abilitySystem);
+}
+
+/**
+ * Affirm's amplification averaged over its active/cooldown cycle
+ */
+function getAverageAffirmAmplification(abilitySystem: AbilitySystem): number {
+  if (!GameConfig.ABILITY_ENABLED.affirm) return 1;
+  const duration = abilitySystem.getModifiedDuration('affirm', GameConfig.AFFIRM_DURATION);
+  const cooldown = abilitySystem.getModifiedCooldown('affirm', GameConfig.AFFIRM_COOLDOWN);
+  const bonus = abilitySystem.getAbilityLevel('affirm') * GameConfig.AFFIRM_AMPLIFICATION_SCALING;
+  return 1 + bonus * (duration / (duration + cooldown));
+}
+
+/**
+ * Types a wave spawns: every stressor of a scripted wave, or the available types
+ * (drawn uniformly) of a procedural one
+ */
+function getWaveTypes(wave: number): string[] {
+  const scripted = GameConfig.WAVE_SCRIPTS_ENABLED ? getScriptedWaveTypes(wave) : null;
+  return scripted ?? getAvailableStressorTypes(wave);
+}
+
+/**
+ * Mean starting health of a stressor in this wave
+ */
+function getAverageStressorHealth(wave: number): number {
+  const types = getWaveTypes(wave);
+  return types.reduce((sum, type) => sum + getStressorMaxHealth(type, wave), 0) / types.length;
+}
+
+/**
+ * Mean insight for resolving a stressor in this wave (mirrors InsightSystem.calculateStressorReward)
+ */
+function getAverageStressorReward(wave: number): number {
+  const types = getWaveTypes(wave);
+  const meanMultiplier = types.reduce(
+    (sum, type) => sum + getStressorDefinition(type).stats.insight,
+    0
+  ) / types.length;
+  return (GameConfig.INSIGHT_BASE + GameConfig.INSIGHT_PER_WAVE * Math.max(0, wave - 1)) * meanMultiplier;
+}
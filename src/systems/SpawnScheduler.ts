@@ -0,0 +1,45 @@
+/**
+ * Spawn Scheduler - Spreads a wave's spawns over time
+ *
+ * A wave is planned as batches (one stressor, or one scripted formation that
+ * arrives together). Batches without an authored delay are spread across the
+ * spawn window by a curve instead of all arriving as the wave starts:
+ * - instant: everything at the start of the wave
+ * - linear: evenly spaced across the window
+ * - front_loaded: dense at the start, thinning out towards the end
+ * - pulses: a few evenly spaced bursts
+ */
+
+export const SPAWN_CURVES = ['instant', 'linear', 'front_loaded', 'pulses'] as const;
+export type SpawnCurve = typeof SPAWN_CURVES[number];
+
+/**
+ * Seconds after the wave starts at which each of `count` batches spawns, in order
+ * @param count - Number of batches to place
+ * @param curve - Distribution over the window
+ * @param window - Seconds over which the batches are spread
+ * @param pulseCount - Bursts for the pulses curve
+ */
+export function getSpawnOffsets(count: number, curve: SpawnCurve, window: number, pulseCount: number): number[] {
+  const offsets: number[] = [];
+  const pulses = Math.max(1, Math.min(Math.floor(pulseCount), count));
+
+  for (let i = 0; i < count; i++) {
+    const progress = i / count; // 0 for the first batch, never reaching 1
+    switch (curve) {
+      case 'linear':
+        offsets.push(window * progress);
+        break;
+      case 'front_loaded':
+        offsets.push(window * progress * progress);
+        break;
+      case 'pulses':
+        offsets.push(window * Math.floor(i * pulses / count) / pulses);
+        break;
+      default:
+        offsets.push(0);
+    }
+  }
+
+  return offsets;
+}
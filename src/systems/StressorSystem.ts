@@ -1,109 +1,347 @@
-import { Stressor, StressorType, Vector2 } from '../types';
+import { Stressor, Vector2, ResolvedStressor, PendingSpawn } from '../types';
 import { GameConfig } from '../GameConfig';
 import { SeededRandom } from '../utils/Random';
 import { distance, normalize, angleTo, multiply, add, subtract } from '../utils/MathUtils';
-import { ISystem, SystemContext } from './ISystem';
+import { ISystem, SystemContext, SimulationClock } from './ISystem';
 import { MovementSpeedCalculator } from './movement/MovementSpeedCalculator';
+import { StatusEffectType, StackingRule, RefreshRule } from './effects/StatusEffect';
 import { getAvailableStressorTypes } from '../config/WaveProgressionConfig';
+import { getStressorDefinition, StressorSplit, StressorSurge, StressorAuraEffect } from '../config/StressorDefinitions';
+import { WaveScript, WaveScriptGroup, WAVE_SPAWN_SIDES, getWaveScript } from '../config/WaveScripts';
+import { getSpawnOffsets } from './SpawnScheduler';
 import { MovementBehaviorFactory } from './movement/MovementBehaviorFactory';
+import { GameEventBus } from './GameEvents';
+
+/**
+ * Live stressors and spawn bookkeeping for save/resume
+ */
+export interface StressorSystemSnapshot {
+  stressors: Stressor[];
+  wave: number;
+  nextStressorId: number;
+  pendingSpawns: PendingSpawn[];
+}
+
+/**
+ * Stressors that arrive together: a single stressor, or a scripted formation
+ */
+interface SpawnBatch {
+  spawns: Array<{ type: string; position: Vector2 }>;
+  delay?: number; // Authored seconds after the wave starts; otherwise placed by the spawn curve
+}
+
+const CLUSTER_SPREAD = 40; // Pixels either side of a cluster's anchor point
+
+const AURA_STATUS_EFFECTS: Record<StressorAuraEffect, StatusEffectType> = {
+  slow: StatusEffectType.SLOW,
+  haste: StatusEffectType.HASTE,
+  vulnerability: StatusEffectType.VULNERABILITY,
+  damage_reduction: StatusEffectType.DAMAGE_REDUCTION
+};
 
 export class StressorSystem implements ISystem {
   private stressors: Stressor[] = [];
+  private resolvedStressors: ResolvedStressor[] = []; // Killed by abilities since last consume (collisions excluded)
   private random: SeededRandom;
   private center: Vector2;
   private playfieldWidth: number;
   private playfieldHeight: number;
   private wave: number = 0;
   private movementSpeedCalculator?: MovementSpeedCalculator;
+  private clock: SimulationClock;
+  private nextStressorId: number = 0; // Sequential IDs keep runs deterministic
+  private pendingSpawns: PendingSpawn[] = []; // Scheduled but not yet spawned, by spawn time
+  private events: GameEventBus;
 
-  constructor(center: Vector2, width: number, height: number, random: SeededRandom) {
+  constructor(center: Vector2, width: number, height: number, random: SeededRandom, clock: SimulationClock, events: GameEventBus) {
     this.center = center;
     this.playfieldWidth = width;
     this.playfieldHeight = height;
     this.random = random;
+    this.clock = clock;
+    this.events = events;
   }
 
   setWave(wave: number): void {
     this.wave = wave;
   }
 
+  /**
+   * Plan the current wave - its authored script if it has one, otherwise the
+   * procedural formula - and schedule its stressors across the spawn window.
+   * Stressors due at the start of the wave spawn immediately.
+   */
   spawnWave(): void {
-    const count = Math.floor(
-      GameConfig.STRESSOR_BASE_COUNT * 
-      Math.pow(GameConfig.STRESSOR_COUNT_MULTIPLIER, this.wave - 1)
-    );
+    const script = GameConfig.WAVE_SCRIPTS_ENABLED ? getWaveScript(this.wave) : null;
+    const batches = script ? this.planScriptedWave(script) : this.planProceduralWave();
+    
+    const curveBatches = batches.filter(batch => batch.delay === undefined).length;
+    const offsets = getSpawnOffsets(curveBatches, GameConfig.SPAWN_CURVE, GameConfig.SPAWN_WINDOW, GameConfig.SPAWN_PULSE_COUNT);
+    const waveStart = this.clock();
+    let nextOffset = 0;
     
+    for (const batch of batches) {
+      const spawnTime = waveStart + (batch.delay ?? offsets[nextOffset++]);
+      for (const spawn of batch.spawns) {
+        this.queueSpawn({ type: spawn.type, position: spawn.position, spawnTime });
+      }
+    }
+    
+    this.spawnDueStressors();
+  }
+
+  /**
+   * True while stressors scheduled for the wave are still waiting to spawn
+   */
+  hasPendingSpawns(): boolean {
+    return this.pendingSpawns.length > 0;
+  }
+
+  /**
+   * Scheduled stressors arriving within `leadTime` seconds (for edge telegraphs)
+   */
+  getUpcomingSpawns(leadTime: number): PendingSpawn[] {
+    const until = this.clock() + leadTime;
+    const upcoming: PendingSpawn[] = [];
+    for (const pending of this.pendingSpawns) {
+      if (pending.spawnTime > until) break;
+      upcoming.push(pending);
+    }
+    return upcoming;
+  }
+
+  /**
+   * Uniformly random unlocked types, each arriving on its own
+   */
+  private planProceduralWave(): SpawnBatch[] {
+    const count = getProceduralStressorCount(this.wave);
     const types = this.getAvailableTypes();
+    const batches: SpawnBatch[] = [];
     
     for (let i = 0; i < count; i++) {
       const type = this.random.choice(types);
-      this.spawnStressor(type);
+      batches.push({ spawns: [{ type, position: this.getSpawnPoint() }] });
+    }
+    return batches;
+  }
+
+  /**
+   * Scripted groups: scattered stressors without a delay are scheduled one by
+   * one; formations and delayed groups arrive together.
+   */
+  private planScriptedWave(script: WaveScript): SpawnBatch[] {
+    const batches: SpawnBatch[] = [];
+    
+    for (const group of script.groups) {
+      const spawns = this.getGroupPositions(group).map(position => ({ type: group.type, position }));
+      if ((group.formation ?? 'scattered') === 'scattered' && group.delay === undefined) {
+        batches.push(...spawns.map(spawn => ({ spawns: [spawn] })));
+      } else {
+        batches.push({ spawns, delay: group.delay });
+      }
+    }
+    return batches;
+  }
+
+  private queueSpawn(pending: PendingSpawn): void {
+    // Insert after spawns due at the same time so planned order is kept
+    let index = this.pendingSpawns.length;
+    while (index > 0 && this.pendingSpawns[index - 1].spawnTime > pending.spawnTime) index--;
+    this.pendingSpawns.splice(index, 0, pending);
+  }
+
+  private spawnDueStressors(): void {
+    while (this.pendingSpawns.length > 0 && this.pendingSpawns[0].spawnTime <= this.clock()) {
+      const { type, position } = this.pendingSpawns.shift()!;
+      this.spawnStressor(type, position);
+    }
+  }
+
+  /**
+   * Spawn points for a scripted group, following its side and formation
+   */
+  private getGroupPositions(group: WaveScriptGroup): Vector2[] {
+    const side = group.side ?? 'any';
+    const formation = group.formation ?? 'scattered';
+    const positions: Vector2[] = [];
+    
+    if (formation === 'scattered') {
+      for (let i = 0; i < group.count; i++) {
+        positions.push(this.getSpawnPoint(this.resolveSide(side)));
+      }
+      return positions;
+    }
+    
+    const sideIndex = this.resolveSide(side);
+    const edgeLength = this.getEdgeLength(sideIndex);
+    const padding = GameConfig.PLAYFIELD_PADDING;
+    
+    if (formation === 'line') {
+      for (let i = 0; i < group.count; i++) {
+        const along = padding + (edgeLength - padding * 2) * (i + 1) / (group.count + 1);
+        positions.push(this.getEdgePoint(sideIndex, along));
+      }
+      return positions;
     }
+    
+    // Cluster: bunched around one anchor, kept on the side
+    const anchor = this.random.range(padding + CLUSTER_SPREAD, edgeLength - padding - CLUSTER_SPREAD);
+    for (let i = 0; i < group.count; i++) {
+      const along = anchor + this.random.range(-CLUSTER_SPREAD, CLUSTER_SPREAD);
+      positions.push(this.getEdgePoint(sideIndex, along));
+    }
+    return positions;
+  }
+
+  /**
+   * Side index (0 top, 1 right, 2 bottom, 3 left) for a scripted side
+   */
+  private resolveSide(side: WaveScriptGroup['side']): number {
+    return side === undefined || side === 'any' ? this.random.intRange(0, 3) : WAVE_SPAWN_SIDES.indexOf(side);
   }
 
-  private getAvailableTypes(): StressorType[] {
+  private getAvailableTypes(): string[] {
     return getAvailableStressorTypes(this.wave);
   }
 
-  private spawnStressor(type: StressorType): void {
-    const config = GameConfig.STRESSOR_TYPES[type as keyof typeof GameConfig.STRESSOR_TYPES];
-    const healthMultiplier = Math.pow(GameConfig.STRESSOR_HEALTH_MULTIPLIER, this.wave - 1);
+  private spawnStressor(type: string, spawnPoint: Vector2): void {
+    this.addStressor(this.createStressor(type, spawnPoint));
+  }
+
+  private addStressor(stressor: Stressor): void {
+    this.stressors.push(stressor);
+    this.events.emit('stressorSpawned', { stressor });
+  }
+
+  /**
+   * A new stressor of this type for the current wave, with its movement state set up
+   */
+  private createStressor(type: string, spawnPoint: Vector2): Stressor {
+    const definition = getStressorDefinition(type);
+    const health = getStressorMaxHealth(type, this.wave);
     const speedMultiplier = Math.pow(GameConfig.STRESSOR_SPEED_MULTIPLIER, this.wave - 1);
     
-    const spawnPoint = this.getSpawnPoint();
     const direction = normalize(subtract(this.center, spawnPoint));
-    const baseSpeed = GameConfig.STRESSOR_BASE_SPEED * config.speed * speedMultiplier;
+    const baseSpeed = GameConfig.STRESSOR_BASE_SPEED * definition.stats.speed * speedMultiplier;
     
     const stressor: Stressor = {
-      id: `stressor_${Date.now()}_${Math.random()}`,
+      id: `stressor_${this.nextStressorId++}`,
       type,
       position: { ...spawnPoint },
       velocity: multiply(direction, baseSpeed),
-      health: GameConfig.STRESSOR_BASE_HEALTH * config.health * healthMultiplier,
-      maxHealth: GameConfig.STRESSOR_BASE_HEALTH * config.health * healthMultiplier,
+      health,
+      maxHealth: health,
       size: 8 + (this.wave * 0.5),
-      color: config.color,
+      color: definition.palette.medium,
       angle: angleTo(spawnPoint, this.center),
-      spawnTime: Date.now()
+      spawnTime: this.clock()
     };
 
-    if (type === StressorType.Expectation) {
-      stressor.orbitRadius = 100 + this.random.range(0, 50);
-      stressor.orbitAngle = this.random.range(0, Math.PI * 2);
-      stressor.dashCooldown = 0;
+    MovementBehaviorFactory.getBehavior(definition.movement).initialize?.(stressor, this.random);
+    return stressor;
+  }
+
+  /**
+   * Run the onResolve effects of stressors resolved this step. Abilities deal
+   * their damage before StressorSystem.update, and Game consumes the resolved
+   * list after it, so each resolution is handled once.
+   */
+  private applyResolveEffects(context: SystemContext): void {
+    for (const { stressor } of this.resolvedStressors) {
+      for (const effect of getStressorDefinition(stressor.type).onResolve) {
+        if (effect.effect === 'split') {
+          this.splitStressor(stressor, effect, context);
+        } else {
+          this.surgeAround(stressor, effect, context);
+        }
+      }
     }
+  }
 
-    this.stressors.push(stressor);
+  /**
+   * Break a resolved stressor into fragments spread evenly around it. Fragments
+   * inherit its status effects; none spawn past the split's generation limit or
+   * STRESSOR_FRAGMENT_CAP.
+   */
+  private splitStressor(parent: Stressor, split: StressorSplit, context: SystemContext): void {
+    const generation = (parent.generation ?? 0) + 1;
+    if (generation > split.maxGeneration) return;
+    
+    const liveFragments = this.stressors.filter(s => s.health > 0 && (s.generation ?? 0) > 0).length;
+    const count = Math.min(split.count, Math.max(0, GameConfig.STRESSOR_FRAGMENT_CAP - liveFragments));
+    const statusEffects = context.getStatusEffectManager();
+    const inherited = statusEffects.effects.get(parent.id) ?? [];
+    
+    for (let i = 0; i < count; i++) {
+      const angle = parent.angle + (Math.PI * 2 * i) / split.count;
+      const offset = multiply({ x: Math.cos(angle), y: Math.sin(angle) }, parent.size);
+      const fragment = this.createStressor(parent.type, add(parent.position, offset));
+      
+      fragment.health = parent.maxHealth * split.health;
+      fragment.maxHealth = fragment.health;
+      fragment.size = parent.size * split.size;
+      fragment.speedScale = (parent.speedScale ?? 1) * split.speed;
+      fragment.generation = generation;
+      for (const effect of inherited) {
+        statusEffects.apply({ ...effect }, fragment.id);
+      }
+      
+      this.addStressor(fragment);
+    }
   }
 
-  private getSpawnPoint(): Vector2 {
-    const side = this.random.intRange(0, 3);
+  /**
+   * Haste live stressors near a resolved one. Surges don't stack: another surge
+   * of the same type restarts the haste, and the strongest haste wins.
+   */
+  private surgeAround(source: Stressor, surge: StressorSurge, context: SystemContext): void {
+    const statusEffects = context.getStatusEffectManager();
+    
+    for (const stressor of this.stressors) {
+      if (stressor.health <= 0 || distance(stressor.position, source.position) >= surge.radius) continue;
+      statusEffects.apply({
+        id: `surge-${source.type}-${stressor.id}`,
+        type: StatusEffectType.HASTE,
+        source: `${source.type}_surge`,
+        value: 1 + surge.speedBoost,
+        duration: surge.duration,
+        startTime: statusEffects.getCurrentTime(),
+        stackingRule: StackingRule.STRONGEST_WINS,
+        refreshRule: RefreshRule.REFRESH
+      }, stressor.id);
+    }
+  }
+
+  /**
+   * Random point along a side (a random side unless given)
+   */
+  private getSpawnPoint(side: number = this.random.intRange(0, 3)): Vector2 {
+    const padding = GameConfig.PLAYFIELD_PADDING;
+    return this.getEdgePoint(side, this.random.range(padding, this.getEdgeLength(side) - padding));
+  }
+
+  /**
+   * Point on a side, `along` pixels from its top/left end
+   */
+  private getEdgePoint(side: number, along: number): Vector2 {
     const padding = GameConfig.PLAYFIELD_PADDING;
     
     switch (side) {
       case 0: // Top
-        return {
-          x: this.random.range(padding, this.playfieldWidth - padding),
-          y: padding
-        };
+        return { x: along, y: padding };
       case 1: // Right
-        return {
-          x: this.playfieldWidth - padding,
-          y: this.random.range(padding, this.playfieldHeight - padding)
-        };
+        return { x: this.playfieldWidth - padding, y: along };
       case 2: // Bottom
-        return {
-          x: this.random.range(padding, this.playfieldWidth - padding),
-          y: this.playfieldHeight - padding
-        };
+        return { x: along, y: this.playfieldHeight - padding };
       default: // Left
-        return {
-          x: padding,
-          y: this.random.range(padding, this.playfieldHeight - padding)
-        };
+        return { x: padding, y: along };
     }
   }
 
+  private getEdgeLength(side: number): number {
+    return side % 2 === 0 ? this.playfieldWidth : this.playfieldHeight;
+  }
+
   // New ISystem-compliant update method
   update(deltaTime: number, context: SystemContext): void {
     // Initialize movement speed calculator on first use (lazy initialization)
@@ -113,6 +351,9 @@ export class StressorSystem implements ISystem {
       );
     }
     
+    this.spawnDueStressors();
+    this.applyResolveEffects(context);
+    
     // Extract values from context
     const center = context.center;
     const serenity = context.state.serenity;
@@ -128,17 +369,18 @@ export class StressorSystem implements ISystem {
       if (distToCenter <= collisionRadius) {
         // Stressor hit player edge - apply damage and kill stressor
         const currentSerenity = context.state.serenity;
+        let serenityDamage = 0;
         
         // Only apply damage if serenity is above 0 (prevent unnecessary logs and state updates)
         if (currentSerenity > 0) {
           const newSerenity = Math.max(0, currentSerenity - GameConfig.STRESSOR_COLLISION_DAMAGE);
           context.modifyState({ serenity: newSerenity });
-          
-          // Stressor hit player - damage applied
+          serenityDamage = currentSerenity - newSerenity;
         }
         
         // Kill the stressor regardless of serenity (prevent it from hitting again)
         stressor.health = 0;
+        this.events.emit('stressorCollided', { stressor, serenityDamage });
         continue; // Skip update for this stressor
       }
       
@@ -159,9 +401,62 @@ export class StressorSystem implements ISystem {
       stressor.position.y = Math.max(padding, Math.min(this.playfieldHeight - padding, stressor.position.y));
     }
     
+    this.removeDeadStressors(context);
+    this.updateAuras(context);
+  }
+
+  /**
+   * Drop resolved and collided stressors along with their status effects and the
+   * auras they project (resolve effects have already read both this step)
+   */
+  private removeDeadStressors(context: SystemContext): void {
+    const statusEffects = context.getStatusEffectManager();
+    
+    for (const stressor of this.stressors) {
+      if (stressor.health > 0) continue;
+      statusEffects.clear(stressor.id);
+      statusEffects.removeAurasOf(stressor.id);
+    }
+    
     this.stressors = this.stressors.filter(s => s.health > 0);
   }
 
+  /**
+   * Register each live stressor's auras at its current position, drop the auras
+   * of stressors that are gone some other way (cleared or restored), then
+   * refresh the aura effects every stressor gets
+   */
+  private updateAuras(context: SystemContext): void {
+    const statusEffects = context.getStatusEffectManager();
+    const live = new Set(this.stressors.map(s => s.id));
+    
+    for (const aura of statusEffects.getAuras()) {
+      if (!live.has(aura.ownerId)) {
+        statusEffects.removeAura(aura.sourceId);
+      }
+    }
+    
+    for (const stressor of this.stressors) {
+      getStressorDefinition(stressor.type).auras.forEach((aura, index) => {
+        statusEffects.applyAura({
+          sourceId: `${stressor.id}-aura-${index}`,
+          ownerId: stressor.id,
+          sourceType: stressor.type,
+          effectType: AURA_STATUS_EFFECTS[aura.effect],
+          targets: aura.targets,
+          value: aura.value,
+          cap: aura.cap,
+          radius: aura.radius,
+          position: { ...stressor.position }
+        });
+      });
+    }
+    
+    for (const stressor of this.stressors) {
+      statusEffects.refreshAuraEffects(stressor.id, stressor.position);
+    }
+  }
+
   // Legacy update method - kept for backward compatibility during transition
   // Will be removed once Game is fully migrated to use ISystem interface
   updateLegacy(deltaTime: number, center: Vector2, serenity: number, auraActive: boolean, auraRadius: number, context?: SystemContext): void {
@@ -209,11 +504,11 @@ export class StressorSystem implements ISystem {
     breathMaxRadius: number,
     context: SystemContext
   ): void {
-    const config = GameConfig.STRESSOR_TYPES[stressor.type as keyof typeof GameConfig.STRESSOR_TYPES];
+    const definition = getStressorDefinition(stressor.type);
     
-    // Calculate base speed (from config, wave scaling, type modifiers)
-    const speedMultiplier = Math.pow(GameConfig.STRESSOR_SPEED_MULTIPLIER, this.wave - 1);
-    const baseSpeed = GameConfig.STRESSOR_BASE_SPEED * config.speed * speedMultiplier;
+    // Calculate base speed (from definition, wave scaling, fragment modifier)
+    const speedMultiplier = Math.pow(GameConfig.STRESSOR_SPEED_MULTIPLIER, this.wave - 1) * (stressor.speedScale ?? 1);
+    const baseSpeed = GameConfig.STRESSOR_BASE_SPEED * definition.stats.speed * speedMultiplier;
     
     // Get effective speed from status effect system
     const effectiveSpeed = this.movementSpeedCalculator!.calculateSpeed(
@@ -223,7 +518,7 @@ export class StressorSystem implements ISystem {
     );
     
     // Use MovementBehaviorFactory to get appropriate behavior
-    const behavior = MovementBehaviorFactory.getBehavior(stressor.type);
+    const behavior = MovementBehaviorFactory.getBehavior(definition.movement);
     stressor.velocity = behavior.update(stressor, deltaTime, context, effectiveSpeed);
     
     // Update position
@@ -255,30 +550,6 @@ export class StressorSystem implements ISystem {
     }
   }
 
-  private updateEnvironmentalNoise(stressor: Stressor, deltaTime: number, effectiveSpeed: number): void {
-    // Calculate base wobble (preserve current behavior)
-    const wobble = Math.sin(Date.now() * 0.005 + stressor.spawnTime * 0.001) * 180;
-    const perpAngle = stressor.angle + Math.PI / 2;
-    
-    // Set base velocity with effective speed
-    const direction = normalize(subtract(this.center, stressor.position));
-    stressor.velocity = multiply(direction, effectiveSpeed);
-    
-    // Add wobble (wobble magnitude could also be affected by slow if desired)
-    stressor.velocity.x += Math.cos(perpAngle) * wobble * deltaTime;
-    stressor.velocity.y += Math.sin(perpAngle) * wobble * deltaTime;
-  }
-
-  private updateImpulse(stressor: Stressor, deltaTime: number, serenity: number, effectiveSpeed: number): void {
-    const serenityFactor = 1 - (serenity / GameConfig.MAX_SERENITY);
-    const acceleration = 1 + serenityFactor * 2;
-    
-    // Start with effective speed, then apply impulse acceleration
-    const direction = normalize(subtract(this.center, stressor.position));
-    stressor.velocity = multiply(direction, effectiveSpeed);
-    stressor.velocity = multiply(stressor.velocity, 1 + acceleration * deltaTime);
-  }
-
   applyPush(stressorId: string, force: number, center: Vector2): void {
     const stressor = this.stressors.find(s => s.id === stressorId);
     if (stressor) {
@@ -299,7 +570,7 @@ export class StressorSystem implements ISystem {
     }
   }
 
-  damageStressor(stressorId: string, damage: number): boolean {
+  damageStressor(stressorId: string, damage: number, source: string): boolean {
     const stressor = this.stressors.find(s => s.id === stressorId);
     if (stressor) {
       // Skip if already dead to prevent multiple kill logs and negative damage
@@ -309,6 +580,16 @@ export class StressorSystem implements ISystem {
       
       stressor.health -= damage;
       const isDead = stressor.health <= 0;
+      this.events.emit('stressorDamaged', { stressorId, damage, source, remainingHealth: Math.max(0, stressor.health) });
+      
+      if (isDead) {
+        const resolved: ResolvedStressor = {
+          stressor: { ...stressor, position: { ...stressor.position } },
+          source
+        };
+        this.resolvedStressors.push(resolved);
+        this.events.emit('stressorResolved', resolved);
+      }
       
       return isDead;
     }
@@ -325,8 +606,82 @@ export class StressorSystem implements ISystem {
     return this.stressors.filter(s => s.health > 0).length;
   }
 
+  /**
+   * Return stressors resolved by damage since the last call and clear the list
+   */
+  consumeResolvedStressors(): ResolvedStressor[] {
+    const resolved = this.resolvedStressors;
+    this.resolvedStressors = [];
+    return resolved;
+  }
+
   clearAll(): void {
     this.stressors = [];
+    this.resolvedStressors = [];
+    this.pendingSpawns = [];
   }
+
+  getSnapshot(): StressorSystemSnapshot {
+    return {
+      stressors: this.getStressors().map(cloneStressor),
+      wave: this.wave,
+      nextStressorId: this.nextStressorId,
+      pendingSpawns: this.pendingSpawns.map(clonePendingSpawn)
+    };
+  }
+
+  /**
+   * Replace all stressors with a saved set. Resolved stressors are consumed every
+   * step, so none are pending between steps and the list starts empty.
+   */
+  restoreSnapshot(snapshot: StressorSystemSnapshot): void {
+    this.stressors = snapshot.stressors.map(cloneStressor);
+    this.resolvedStressors = [];
+    this.wave = snapshot.wave;
+    this.nextStressorId = snapshot.nextStressorId;
+    this.pendingSpawns = snapshot.pendingSpawns.map(clonePendingSpawn);
+  }
+}
+
+/**
+ * Number of stressors a wave spawns (its script's total when scripted)
+ */
+export function getWaveStressorCount(wave: number): number {
+  const script = GameConfig.WAVE_SCRIPTS_ENABLED ? getWaveScript(wave) : null;
+  if (script) {
+    return script.groups.reduce((sum, group) => sum + group.count, 0);
+  }
+  return getProceduralStressorCount(wave);
 }
 
+/**
+ * Number of stressors the procedural formula spawns in a wave
+ */
+function getProceduralStressorCount(wave: number): number {
+  return Math.floor(
+    GameConfig.STRESSOR_BASE_COUNT * 
+    Math.pow(GameConfig.STRESSOR_COUNT_MULTIPLIER, wave - 1)
+  );
+}
+
+/**
+ * Starting health of a stressor of this type spawned in this wave
+ */
+export function getStressorMaxHealth(type: string, wave: number): number {
+  const definition = getStressorDefinition(type);
+  return GameConfig.STRESSOR_BASE_HEALTH * definition.stats.health * Math.pow(GameConfig.STRESSOR_HEALTH_MULTIPLIER, wave - 1);
+}
+
+function cloneStressor(stressor: Stressor): Stressor {
+  return {
+    ...stressor,
+    position: { ...stressor.position },
+    velocity: { ...stressor.velocity },
+    debuffs: stressor.debuffs ? { ...stressor.debuffs } : undefined,
+    retreatState: stressor.retreatState ? { ...stressor.retreatState } : undefined
+  };
+}
+
+function clonePendingSpawn(pending: PendingSpawn): PendingSpawn {
+  return { ...pending, position: { ...pending.position } };
+}
@@ -0,0 +1,56 @@
+import { SystemContext } from '../ISystem';
+import { RefreshRule, StackingRule, StatusEffectType } from './StatusEffect';
+
+/**
+ * Developer Status Effects
+ *
+ * No ability applies damage over time or stun yet, so dev builds can put them
+ * on every live stressor from the keyboard (see main.ts) to try them out.
+ */
+
+export type DevStatusEffectType = StatusEffectType.DAMAGE_OVER_TIME | StatusEffectType.STUN;
+
+export const DEV_DOT_DAMAGE = 2; // Damage per tick per stack
+export const DEV_DOT_TICK_INTERVAL = 0.5; // Seconds between ticks
+export const DEV_DOT_DURATION = 4; // Seconds; reapplying refreshes it and adds a stack
+export const DEV_DOT_MAX_STACKS = 3;
+export const DEV_STUN_DURATION = 1.5; // Seconds; reapplying extends it
+
+/**
+ * Apply a developer damage over time or stun to every live stressor.
+ * Returns the number of stressors affected.
+ */
+export function applyDevStatusEffect(type: DevStatusEffectType, context: SystemContext): number {
+  const statusEffects = context.getStatusEffectManager();
+  const stressors = context.getStressors();
+
+  for (const stressor of stressors) {
+    if (type === StatusEffectType.DAMAGE_OVER_TIME) {
+      statusEffects.apply({
+        id: `dev-dot-${stressor.id}`,
+        type,
+        source: 'dev_dot',
+        value: DEV_DOT_DAMAGE,
+        duration: DEV_DOT_DURATION,
+        startTime: statusEffects.getCurrentTime(),
+        stackingRule: StackingRule.ADDITIVE,
+        refreshRule: RefreshRule.REFRESH,
+        maxStacks: DEV_DOT_MAX_STACKS,
+        tickInterval: DEV_DOT_TICK_INTERVAL
+      }, stressor.id);
+    } else {
+      statusEffects.apply({
+        id: `dev-stun-${stressor.id}`,
+        type,
+        source: 'dev_stun',
+        value: 1,
+        duration: DEV_STUN_DURATION,
+        startTime: statusEffects.getCurrentTime(),
+        stackingRule: StackingRule.STRONGEST_WINS,
+        refreshRule: RefreshRule.EXTEND
+      }, stressor.id);
+    }
+  }
+
+  return stressors.length;
+}
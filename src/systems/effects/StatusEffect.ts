@@ -1,47 +1,87 @@
 /**
  * Status Effect System - Type Definitions
  * 
- * Provides type-safe definitions for status effects (slow, vulnerability, etc.)
- * and their stacking rules.
+ * Provides type-safe definitions for status effects (slow, vulnerability, damage
+ * over time, stun, haste, etc.) and their stacking and refresh rules.
  */
 
 export enum StatusEffectType {
   SLOW = 'slow',
   VULNERABILITY = 'vulnerability',
   DAMAGE_REDUCTION = 'damage_reduction',
-  // Future: STUN, HASTE, etc.
+  DAMAGE_OVER_TIME = 'damage_over_time', // value = damage per tick
+  STUN = 'stun',                         // any active stun stops movement
+  HASTE = 'haste',                       // speed multiplier above 1 (stressor buffs)
 }
 
 export enum StackingRule {
   MULTIPLICATIVE = 'multiplicative',  // Effects multiply (0.5 × 0.8 = 0.4)
-  STRONGEST_WINS = 'strongest_wins',  // Lowest value wins (for slow)
-  ADDITIVE = 'additive',              // Effects add (future use)
+  STRONGEST_WINS = 'strongest_wins',  // Strongest value wins (lowest slow/damage reduction, highest vulnerability)
+  ADDITIVE = 'additive',              // Bonuses add (vulnerability 1.2 + 1.3 = 1.5)
+}
+
+/**
+ * What reapplying an effect with the same id does to the one already active
+ */
+export enum RefreshRule {
+  REPLACE = 'replace',  // New effect replaces the old one, stacks included (default)
+  REFRESH = 'refresh',  // Duration restarts from now; adds a stack up to maxStacks
+  EXTEND = 'extend',    // New duration is added to the time remaining; adds a stack up to maxStacks
 }
 
 export interface StatusEffect {
   id: string;                    // Unique identifier (e.g., 'breathe-slow-123')
   type: StatusEffectType;
   source: string;                 // Source ability/system ('breathe', 'recenter', etc.)
-  value: number;                  // Effect strength (multiplier for slow: 0.5 = 50% slow)
+  value: number;                  // Effect strength as a multiplier: slow 0.5 = half speed, vulnerability 1.25 = +25% damage taken, damage_reduction 0.8 = 20% less damage taken
   duration?: number;              // Duration in seconds (undefined = permanent/while in area)
-  startTime: number;             // Timestamp when applied (Date.now())
+  startTime: number;             // Simulation time when applied (StatusEffectManager.getCurrentTime(), seconds)
   stackingRule: StackingRule;     // How this effect stacks with others
+  refreshRule?: RefreshRule;      // How reapplying the same id behaves (default REPLACE)
+  stacks?: number;                // Current stack count (default 1); each stack adds value's difference from neutral again
+  maxStacks?: number;             // Stack cap for REFRESH/EXTEND reapplication (default 1)
+  tickInterval?: number;          // Damage over time: seconds between ticks
+  nextTickTime?: number;          // Damage over time: simulation time of the next tick (set by the manager)
+}
+
+/**
+ * StatusEffectTick - Damage over time due this step, dealt by Game through
+ * SystemContext.damageStressor under the effect's source
+ */
+export interface StatusEffectTick {
+  targetId: string;
+  effectId: string;
+  source: string;
+  damage: number;
 }
 
 /**
  * AuraEffect - Proximity-based status effect
  * 
- * Applied to stressors within range of an aura source (e.g., Self-Doubt self-sabotage aura)
+ * Applied to stressors within range of an aura source (e.g., Self-Doubt self-sabotage aura).
+ * Stressor auras reach other stressors as status effects; ability auras weaken
+ * ability damage landing in range.
  */
 export interface AuraEffect {
-  sourceId: string;
+  sourceId: string;   // Unique per aura (a stressor can project several)
+  ownerId: string;    // Stressor projecting the aura - never affected by it
   sourceType: string; // e.g., 'self_doubt', 'fatigue'
   effectType: StatusEffectType;
-  value: number;
+  targets: 'stressors' | 'abilities';
+  value: number;      // Strength per source in range: the fraction slow/damage reduction take away, or haste/vulnerability add
+  cap: number;        // Most the combined strength of auras with this effect can reach on one target
   radius: number;
   position: { x: number; y: number };
 }
 
+/**
+ * StatusEffectSnapshot - JSON-safe copy of all effects and auras (for save/resume)
+ */
+export interface StatusEffectSnapshot {
+  effects: Array<[string, StatusEffect[]]>; // [stressorId, effects[]]
+  auras: AuraEffect[];
+}
+
 export interface StatusEffectManager {
   effects: Map<string, StatusEffect[]>;  // stressorId -> effects[]
   
@@ -51,11 +91,15 @@ export interface StatusEffectManager {
   removeByType(type: StatusEffectType, targetId: string): void;
   getEffectiveValue(type: StatusEffectType, targetId: string): number;
   getEffects(type: StatusEffectType, targetId: string): StatusEffect[];
-  update(deltaTime: number): void;  // Remove expired effects
+  update(deltaTime: number): StatusEffectTick[];  // Remove expired effects, return damage over time ticks due
   clear(targetId: string): void;      // Remove all effects from target
   // Aura effect methods
   applyAura(aura: AuraEffect): void;
   removeAura(sourceId: string): void;
+  removeAurasOf(ownerId: string): void;
+  getAuras(): AuraEffect[];
   getAuraEffects(stressorId: string, position: { x: number; y: number }): StatusEffect[];
+  refreshAuraEffects(targetId: string, position: { x: number; y: number }): void;
+  getAbilityAuraReduction(stressorId: string, position: { x: number; y: number }): number;
 }
 
@@ -1,19 +1,31 @@
-import { StatusEffect, StatusEffectType, StatusEffectManager as IStatusEffectManager, StackingRule, AuraEffect } from './StatusEffect';
+import { StatusEffect, StatusEffectType, StatusEffectManager as IStatusEffectManager, StackingRule, RefreshRule, AuraEffect, StatusEffectSnapshot, StatusEffectTick } from './StatusEffect';
 import { distance } from '../../utils/MathUtils';
+import { SimulationClock } from '../ISystem';
 
 /**
  * StatusEffectManager - Manages status effects on game entities
  * 
  * Handles application, removal, expiration, and stacking of status effects.
- * Uses multiplicative stacking for slow effects by default.
+ * Uses multiplicative stacking for slow effects by default. Damage over time
+ * ticks are collected in update and dealt by Game.
  */
 export class StatusEffectManager implements IStatusEffectManager {
   public effects: Map<string, StatusEffect[]> = new Map();
   private auraEffects: Map<string, AuraEffect> = new Map();
 
+  constructor(private clock: SimulationClock) {}
+
+  /**
+   * Current simulation time in seconds - use as startTime when creating effects
+   */
+  getCurrentTime(): number {
+    return this.clock();
+  }
+
   /**
    * Apply a status effect to a target
-   * If an effect with the same ID already exists, it is replaced
+   * If an effect with the same ID already exists, its refresh rule decides what happens:
+   * REPLACE swaps in the new effect, REFRESH and EXTEND add a stack and restart or lengthen it
    */
   apply(effect: StatusEffect, targetId: string): void {
     if (!this.effects.has(targetId)) {
@@ -22,12 +34,11 @@ export class StatusEffectManager implements IStatusEffectManager {
 
     const targetEffects = this.effects.get(targetId)!;
     
-    // Remove existing effect with same ID (replace)
     const existingIndex = targetEffects.findIndex(e => e.id === effect.id);
     if (existingIndex !== -1) {
-      targetEffects[existingIndex] = effect;
+      targetEffects[existingIndex] = reapply(targetEffects[existingIndex], effect);
     } else {
-      targetEffects.push(effect);
+      targetEffects.push(withFirstTick(effect));
     }
   }
 
@@ -97,48 +108,60 @@ export class StatusEffectManager implements IStatusEffectManager {
    */
   getEffectiveValue(type: StatusEffectType, targetId: string): number {
     const effects = this.getEffects(type, targetId);
+    const neutral = getNeutralValue(type);
     if (effects.length === 0) {
-      // No effects - return default value (1.0 for multipliers, 0 for additive)
-      return type === StatusEffectType.SLOW ? 1.0 : 0;
+      // No effects - the value that changes nothing
+      return neutral;
     }
 
     // Use the stacking rule from the first effect (all effects of same type should use same rule)
     const stackingRule = effects[0].stackingRule;
+    const values = effects.map(effect => getStackedValue(effect, neutral));
 
     switch (stackingRule) {
       case StackingRule.MULTIPLICATIVE:
         // Multiplicative stacking: effects multiply together
         // Example: 0.5 (50% slow) × 0.8 (20% slow) = 0.4 (60% total slow)
-        return effects.reduce((acc, effect) => acc * effect.value, 1.0);
+        return values.reduce((acc, value) => acc * value, 1.0);
 
       case StackingRule.STRONGEST_WINS:
-        // Strongest wins: lowest value wins (for slow, lower = stronger)
-        return Math.min(...effects.map(e => e.value));
+        // Strongest wins: slow and damage reduction grow downward, everything else upward
+        return lowersValue(type)
+          ? Math.min(...values)
+          : Math.max(...values);
 
       case StackingRule.ADDITIVE:
-        // Additive stacking: effects add together
-        return effects.reduce((acc, effect) => acc + effect.value, 0);
+        // Additive stacking: each effect's difference from neutral adds up
+        // Example: vulnerability 1.2 + 1.3 = 1.5 (+20% and +30% = +50%)
+        return Math.max(0, values.reduce((acc, value) => acc + (value - neutral), neutral));
 
       default:
         // Fallback to multiplicative
-        return effects.reduce((acc, effect) => acc * effect.value, 1.0);
+        return values.reduce((acc, value) => acc * value, 1.0);
     }
   }
 
   /**
    * Update all effects, removing expired ones
-   * Called each frame to handle duration-based effects
+   * Called each frame to handle duration-based effects. Returns the damage over
+   * time ticks that came due, including one landing exactly as its effect expires.
    */
-  update(deltaTime: number): void {
-    const now = Date.now();
+  update(deltaTime: number): StatusEffectTick[] {
+    const now = this.clock();
+    const ticks: StatusEffectTick[] = [];
 
     for (const [targetId, targetEffects] of this.effects.entries()) {
       const activeEffects: StatusEffect[] = [];
 
       for (const effect of targetEffects) {
+        if (effect.type === StatusEffectType.DAMAGE_OVER_TIME) {
+          const expiresAt = effect.duration !== undefined ? effect.startTime + effect.duration : now;
+          collectTicks(effect, targetId, Math.min(now, expiresAt), ticks);
+        }
+        
         if (effect.duration !== undefined) {
           // Duration-based effect - check if expired
-          const elapsed = (now - effect.startTime) / 1000; // Convert to seconds
+          const elapsed = now - effect.startTime;
           if (elapsed < effect.duration) {
             activeEffects.push(effect);
           }
@@ -156,6 +179,8 @@ export class StatusEffectManager implements IStatusEffectManager {
         this.effects.set(targetId, activeEffects);
       }
     }
+
+    return ticks;
   }
 
   /**
@@ -180,29 +205,201 @@ export class StatusEffectManager implements IStatusEffectManager {
     this.auraEffects.delete(sourceId);
   }
 
+  /**
+   * Remove every aura a stressor projects
+   */
+  removeAurasOf(ownerId: string): void {
+    for (const [sourceId, aura] of this.auraEffects) {
+      if (aura.ownerId === ownerId) {
+        this.auraEffects.delete(sourceId);
+      }
+    }
+  }
+
+  /**
+   * All registered auras (for debug drawing)
+   */
+  getAuras(): AuraEffect[] {
+    return Array.from(this.auraEffects.values());
+  }
+
   /**
    * Get all aura effects affecting a stressor at a given position
-   * Returns status effects that should be applied based on proximity
+   * Returns one status effect per effect type from the stressor auras in range:
+   * their strengths add up to the largest cap among them
    */
   getAuraEffects(stressorId: string, position: { x: number; y: number }): StatusEffect[] {
     const effects: StatusEffect[] = [];
 
-    for (const aura of this.auraEffects.values()) {
-      const dist = distance(position, aura.position);
-      if (dist <= aura.radius) {
-        // Create a status effect from the aura
-        effects.push({
-          id: `aura-${aura.sourceId}-${stressorId}`,
-          type: aura.effectType,
-          source: aura.sourceType,
-          value: aura.value,
-          startTime: Date.now(),
-          stackingRule: StackingRule.MULTIPLICATIVE // Auras use multiplicative stacking
-        });
-      }
+    for (const [type, combined] of this.combineAuras('stressors', stressorId, position)) {
+      const neutral = getNeutralValue(type);
+      const strength = Math.min(combined.strength, combined.cap);
+      effects.push({
+        id: `${AURA_EFFECT_PREFIX}${type}-${stressorId}`,
+        type,
+        source: combined.sourceTypes.join('+'),
+        value: lowersValue(type) ? neutral - strength : neutral + strength,
+        startTime: this.clock(),
+        stackingRule: StackingRule.MULTIPLICATIVE // Auras use multiplicative stacking
+      });
     }
 
     return effects;
   }
+
+  /**
+   * Replace the effects a target has from auras with those reaching its current position
+   */
+  refreshAuraEffects(targetId: string, position: { x: number; y: number }): void {
+    const kept = (this.effects.get(targetId) ?? []).filter(effect => !effect.id.startsWith(AURA_EFFECT_PREFIX));
+    const targetEffects = [...kept, ...this.getAuraEffects(targetId, position)];
+
+    if (targetEffects.length === 0) {
+      this.effects.delete(targetId);
+    } else {
+      this.effects.set(targetId, targetEffects);
+    }
+  }
+
+  /**
+   * Fraction of ability damage removed at a stressor's position by ability auras
+   * in range (0-1, capped like getAuraEffects)
+   */
+  getAbilityAuraReduction(stressorId: string, position: { x: number; y: number }): number {
+    const combined = this.combineAuras('abilities', stressorId, position).get(StatusEffectType.DAMAGE_REDUCTION);
+    return combined ? Math.min(combined.strength, combined.cap, 1) : 0;
+  }
+
+  /**
+   * Sum the strength of auras with the given targets reaching a position, per effect
+   * type. A stressor's own auras don't affect it.
+   */
+  private combineAuras(
+    targets: AuraEffect['targets'],
+    stressorId: string,
+    position: { x: number; y: number }
+  ): Map<StatusEffectType, { strength: number; cap: number; sourceTypes: string[] }> {
+    const combined = new Map<StatusEffectType, { strength: number; cap: number; sourceTypes: string[] }>();
+
+    for (const aura of this.auraEffects.values()) {
+      if (aura.targets !== targets || aura.ownerId === stressorId) continue;
+      if (distance(position, aura.position) > aura.radius) continue;
+
+      const entry = combined.get(aura.effectType) ?? { strength: 0, cap: 0, sourceTypes: [] };
+      entry.strength += aura.value;
+      entry.cap = Math.max(entry.cap, aura.cap);
+      if (!entry.sourceTypes.includes(aura.sourceType)) entry.sourceTypes.push(aura.sourceType);
+      combined.set(aura.effectType, entry);
+    }
+
+    return combined;
+  }
+
+  /**
+   * Capture active effects and auras for save/resume
+   */
+  getSnapshot(): StatusEffectSnapshot {
+    return {
+      effects: Array.from(this.effects.entries()).map(
+        ([targetId, targetEffects]) => [targetId, targetEffects.map(effect => ({ ...effect }))]
+      ),
+      auras: Array.from(this.auraEffects.values()).map(aura => ({ ...aura, position: { ...aura.position } }))
+    };
+  }
+
+  /**
+   * Replace all effects and auras with a saved set. Effect start times are
+   * simulation times, so they stay valid once the clock is restored too.
+   */
+  restoreSnapshot(snapshot: StatusEffectSnapshot): void {
+    this.effects = new Map(
+      snapshot.effects.map(([targetId, targetEffects]) => [targetId, targetEffects.map(effect => ({ ...effect }))])
+    );
+    this.auraEffects = new Map(
+      snapshot.auras.map(aura => [aura.sourceId, { ...aura, position: { ...aura.position } }])
+    );
+  }
+}
+
+/** Id prefix of the effects refreshAuraEffects grants */
+const AURA_EFFECT_PREFIX = 'aura-';
+
+/**
+ * Value of a type with no effects applied. Slow, vulnerability, damage
+ * reduction and haste are all multipliers, so 1 leaves speed and damage
+ * unchanged; damage over time and stun are amounts, so 0.
+ */
+function getNeutralValue(type: StatusEffectType): number {
+  switch (type) {
+    case StatusEffectType.SLOW:
+    case StatusEffectType.VULNERABILITY:
+    case StatusEffectType.DAMAGE_REDUCTION:
+    case StatusEffectType.HASTE:
+      return 1.0;
+    default:
+      return 0;
+  }
 }
 
+/**
+ * Slow and damage reduction get stronger as their value falls below neutral
+ */
+function lowersValue(type: StatusEffectType): boolean {
+  return type === StatusEffectType.SLOW || type === StatusEffectType.DAMAGE_REDUCTION;
+}
+
+/**
+ * An effect's value with its stacks: each stack adds the value's difference
+ * from neutral again (haste 1.1 at 3 stacks = 1.3, 2 damage per tick at 3 stacks = 6)
+ */
+function getStackedValue(effect: StatusEffect, neutral: number): number {
+  return Math.max(0, neutral + (effect.value - neutral) * (effect.stacks ?? 1));
+}
+
+/**
+ * Schedule a damage over time effect's first tick one interval after it starts
+ * (effects copied with a schedule, such as to split fragments, keep theirs)
+ */
+function withFirstTick(effect: StatusEffect): StatusEffect {
+  if (effect.tickInterval === undefined || effect.nextTickTime !== undefined) return effect;
+  return { ...effect, nextTickTime: effect.startTime + effect.tickInterval };
+}
+
+/**
+ * Combine a reapplied effect with the active one of the same id
+ */
+function reapply(existing: StatusEffect, effect: StatusEffect): StatusEffect {
+  const refreshRule = effect.refreshRule ?? RefreshRule.REPLACE;
+  if (refreshRule === RefreshRule.REPLACE) return withFirstTick(effect);
+
+  let duration = effect.duration;
+  if (refreshRule === RefreshRule.EXTEND && existing.duration !== undefined && effect.duration !== undefined) {
+    // Time the active effect had left, plus the new duration
+    duration = Math.max(0, existing.startTime + existing.duration - effect.startTime) + effect.duration;
+  }
+
+  return withFirstTick({
+    ...effect,
+    duration,
+    stacks: Math.min(effect.maxStacks ?? 1, (existing.stacks ?? 1) + 1),
+    // Reapplying doesn't move the tick schedule
+    nextTickTime: existing.nextTickTime
+  });
+}
+
+/**
+ * Add the ticks of a damage over time effect due by `until` and advance its schedule
+ */
+function collectTicks(effect: StatusEffect, targetId: string, until: number, ticks: StatusEffectTick[]): void {
+  if (effect.tickInterval === undefined || effect.tickInterval <= 0 || effect.nextTickTime === undefined) return;
+
+  while (effect.nextTickTime <= until) {
+    ticks.push({
+      targetId,
+      effectId: effect.id,
+      source: effect.source,
+      damage: getStackedValue(effect, 0)
+    });
+    effect.nextTickTime += effect.tickInterval;
+  }
+}
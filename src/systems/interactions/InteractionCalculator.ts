@@ -1,5 +1,4 @@
 import { AbilityType } from '../../config/AbilityDefinitions';
-import { StressorType } from '../../types';
 
 /**
  * InteractionCalculator - Unified damage calculation with all modifiers
@@ -10,9 +9,11 @@ import { StressorType } from '../../types';
  * - Align bonus (conditional multiplicative)
  * - Stressor resistance (multiplicative reduction)
  * - Stressor vulnerability (multiplicative increase)
- * - Aura reduction (multiplicative reduction)
+ * - Aura reduction from ability auras in range (multiplicative reduction)
+ * - Status effects on the stressor: vulnerability and damage reduction (multipliers)
  * 
  * Formula: scaledBase × affirm × align × (1 - resistance) × vulnerability × (1 - auraReduction)
+ *          × statusVulnerability × statusDamageReduction
  */
 export class InteractionCalculator {
   /**
@@ -27,7 +28,9 @@ export class InteractionCalculator {
    * @param alignPhase - Current Align phase ('offense' or 'defense')
    * @param stressorResistance - Stressor resistance (0-1 multiplier)
    * @param stressorVulnerability - Stressor vulnerability (>1 multiplier)
-   * @param auraReduction - Aura reduction (0-1 multiplier)
+   * @param auraReduction - Aura reduction from ability auras (0-1 multiplier)
+   * @param statusVulnerability - VULNERABILITY status effects, stacked (>=1 multiplier)
+   * @param statusDamageReduction - DAMAGE_REDUCTION status effects, stacked (0-1 multiplier)
    * @returns Final calculated damage
    */
   calculateDamage(params: {
@@ -41,6 +44,8 @@ export class InteractionCalculator {
     stressorResistance: number;
     stressorVulnerability: number;
     auraReduction: number;
+    statusVulnerability: number;
+    statusDamageReduction: number;
   }): number {
     const {
       baseDamage,
@@ -52,7 +57,9 @@ export class InteractionCalculator {
       alignPhase,
       stressorResistance,
       stressorVulnerability,
-      auraReduction
+      auraReduction,
+      statusVulnerability,
+      statusDamageReduction
     } = params;
 
     // Step 1: Apply level scaling
@@ -82,6 +89,9 @@ export class InteractionCalculator {
     // Step 6: Apply aura reduction (multiplicative reduction)
     damage *= (1 - auraReduction);
 
+    // Step 7: Apply runtime status effects (e.g. Recenter marks, Mantra exposure)
+    damage *= statusVulnerability * statusDamageReduction;
+
     // Ensure non-negative
     return Math.max(0, damage);
   }
@@ -95,9 +105,9 @@ export class InteractionCalculator {
    * @returns Resistance value (0-1 multiplier)
    */
   getStressorResistance(
-    stressorType: StressorType,
+    stressorType: string,
     abilityType: AbilityType,
-    interactionConfigs: Array<{ stressorType: StressorType; abilityType: AbilityType; resistance?: number }>
+    interactionConfigs: Array<{ stressorType: string; abilityType: AbilityType; resistance?: number }>
   ): number {
     const config = interactionConfigs.find(
       c => c.stressorType === stressorType && c.abilityType === abilityType
@@ -114,68 +124,14 @@ export class InteractionCalculator {
    * @returns Vulnerability multiplier (>1 for increased damage)
    */
   getStressorVulnerability(
-    stressorType: StressorType,
+    stressorType: string,
     abilityType: AbilityType,
-    interactionConfigs: Array<{ stressorType: StressorType; abilityType: AbilityType; vulnerability?: number }>
+    interactionConfigs: Array<{ stressorType: string; abilityType: AbilityType; vulnerability?: number }>
   ): number {
     const config = interactionConfigs.find(
       c => c.stressorType === stressorType && c.abilityType === abilityType
     );
     return config?.vulnerability || 1.0;
   }
-
-  /**
-   * Calculate aura reduction from nearby stressors
-   * 
-   * @param stressor - The stressor being affected
-   * @param allStressors - All stressors in the game
-   * @param interactionConfigs - Array of interaction configurations
-   * @returns Total aura reduction (0-1 multiplier)
-   */
-  calculateAuraReduction(
-    stressor: { id: string; type: StressorType; position: { x: number; y: number } },
-    allStressors: Array<{ id: string; type: StressorType; position: { x: number; y: number } }>,
-    interactionConfigs: Array<{ stressorType: StressorType; specialEffects?: string[] }>
-  ): number {
-    let totalReduction = 0;
-
-    // Fatigue exhaustion aura: reduces ability effectiveness by 5% per nearby Fatigue
-    const fatigueConfig = interactionConfigs.find(
-      c => c.stressorType === StressorType.Fatigue && c.specialEffects?.includes('exhaustion_aura')
-    );
-    if (fatigueConfig) {
-      const nearbyFatigue = allStressors.filter(s =>
-        s.type === StressorType.Fatigue &&
-        s.id !== stressor.id &&
-        this.distance(s.position, stressor.position) < 200
-      ).length;
-      totalReduction += nearbyFatigue * 0.05; // 5% per Fatigue
-    }
-
-    // Self-Doubt self-sabotage aura: reduces ability effectiveness by 10% per nearby Self-Doubt
-    const selfDoubtConfig = interactionConfigs.find(
-      c => c.stressorType === StressorType.SelfDoubt && c.specialEffects?.includes('self_sabotage_aura')
-    );
-    if (selfDoubtConfig) {
-      const nearbySelfDoubt = allStressors.filter(s =>
-        s.type === StressorType.SelfDoubt &&
-        s.id !== stressor.id &&
-        this.distance(s.position, stressor.position) < 200
-      ).length;
-      totalReduction += nearbySelfDoubt * 0.10; // 10% per Self-Doubt
-    }
-
-    // Cap at 25% reduction
-    return Math.min(totalReduction, 0.25);
-  }
-
-  /**
-   * Calculate distance between two points
-   */
-  private distance(a: { x: number; y: number }, b: { x: number; y: number }): number {
-    const dx = a.x - b.x;
-    const dy = a.y - b.y;
-    return Math.sqrt(dx * dx + dy * dy);
-  }
 }
 
@@ -1,23 +1,21 @@
 import { MovementBehavior } from './MovementBehavior';
 import { Stressor, Vector2 } from '../../types';
 import { SystemContext } from '../ISystem';
-import { normalize, subtract, multiply } from '../../utils/MathUtils';
+import { getStressorDefinition } from '../../config/StressorDefinitions';
+import { normalize, subtract, multiply, distance } from '../../utils/MathUtils';
 
 /**
  * AcceleratingMovement - Cascading acceleration behavior
  * 
- * Used by: Overwhelm
+ * Used by: Overwhelm, Impulse
  * 
  * Behavior:
- * - Starts slow, accelerates as it approaches
- * - Speed increases exponentially based on distance to center
- * - Creates cascading effect when multiple stressors are present
+ * - Direct movement toward center
+ * - Cascade: speed multiplier 1 + (1 - serenity ratio) * serenityWeight
+ *   + nearby stressors * perStressor, capped at maxMultiplier
+ * - Escalates as calm drops and the field gets crowded
  */
 export class AcceleratingMovement implements MovementBehavior {
-  private static readonly MIN_SPEED_MULTIPLIER = 0.5;
-  private static readonly MAX_SPEED_MULTIPLIER = 2.5;
-  private static readonly ACCELERATION_DISTANCE = 200; // Distance at which acceleration starts
-
   update(
     stressor: Stressor,
     deltaTime: number,
@@ -25,33 +23,25 @@ export class AcceleratingMovement implements MovementBehavior {
     baseSpeed: number
   ): Vector2 {
     const direction = subtract(context.center, stressor.position);
-    const dist = Math.sqrt(direction.x * direction.x + direction.y * direction.y);
-    
-    // Calculate speed multiplier based on distance
-    // Closer = faster (inverse relationship)
-    let speedMultiplier = AcceleratingMovement.MIN_SPEED_MULTIPLIER;
-    
-    if (dist < AcceleratingMovement.ACCELERATION_DISTANCE) {
-      // Accelerate as we get closer
-      const accelerationFactor = 1 - (dist / AcceleratingMovement.ACCELERATION_DISTANCE);
-      speedMultiplier = AcceleratingMovement.MIN_SPEED_MULTIPLIER + 
-        (accelerationFactor * (AcceleratingMovement.MAX_SPEED_MULTIPLIER - AcceleratingMovement.MIN_SPEED_MULTIPLIER));
-    }
+    const normalized = normalize(direction);
     
-    // Cascade effect: speed up if other Overwhelm stressors are nearby
-    const nearbyOverwhelm = context.getStressors().filter(s => 
-      s.type === stressor.type && 
-      s.id !== stressor.id &&
-      Math.sqrt(Math.pow(s.position.x - stressor.position.x, 2) + 
-                Math.pow(s.position.y - stressor.position.y, 2)) < 100
-    );
+    const cascade = getStressorDefinition(stressor.type).mechanics.cascade;
+    let speedMultiplier = 1.0;
     
-    if (nearbyOverwhelm.length > 0) {
-      speedMultiplier *= 1 + (nearbyOverwhelm.length * 0.15); // 15% per nearby stressor
+    if (cascade) {
+      const serenityRatio = context.state.serenity / context.state.maxSerenity;
+      const nearby = context.getStressors().filter(s =>
+        s.id !== stressor.id &&
+        distance(s.position, stressor.position) < cascade.radius
+      ).length;
+      
+      speedMultiplier = Math.min(
+        cascade.maxMultiplier,
+        1 + (1 - serenityRatio) * cascade.serenityWeight + nearby * cascade.perStressor
+      );
+      stressor.mechanicIntensity = cascade.maxMultiplier > 1 ? (speedMultiplier - 1) / (cascade.maxMultiplier - 1) : 0;
     }
     
-    const normalized = normalize(direction);
     return multiply(normalized, baseSpeed * speedMultiplier);
   }
 }
-
@@ -1,7 +1,9 @@
 import { MovementBehavior } from './MovementBehavior';
 import { Stressor, Vector2 } from '../../types';
 import { SystemContext } from '../ISystem';
-import { normalize, subtract, multiply, add } from '../../utils/MathUtils';
+import { getStressorDefinition, RetreatMechanic } from '../../config/StressorDefinitions';
+import { normalize, subtract, multiply } from '../../utils/MathUtils';
+import { SeededRandom } from '../../utils/Random';
 
 /**
  * ErraticMovement - Hesitation and retreat behavior
@@ -9,15 +11,20 @@ import { normalize, subtract, multiply, add } from '../../utils/MathUtils';
  * Used by: SelfDoubt
  * 
  * Behavior:
- * - Moves toward player, but periodically hesitates
- * - When hit, retreats briefly before resuming approach
- * - Hesitation creates irregular movement pattern
+ * - Moves toward player along a jittering heading
+ * - Retreat: every few seconds backs away from the center for a while
+ *   (the window is kept in retreatState), then hesitates at reduced speed
+ *   before resuming the approach
  */
 export class ErraticMovement implements MovementBehavior {
-  private static readonly HESITATION_INTERVAL = 1.5; // seconds
-  private static readonly HESITATION_DURATION = 0.4; // seconds
-  private static readonly RETREAT_DURATION = 0.8; // seconds
-  private static readonly RETREAT_SPEED_MULTIPLIER = 0.6;
+  private static readonly ERRATIC_ANGLE = 0.3; // Max heading jitter (radians)
+
+  initialize(stressor: Stressor, random: SeededRandom): void {
+    const retreat = getStressorDefinition(stressor.type).mechanics.retreat;
+    if (retreat) {
+      stressor.retreatState = ErraticMovement.scheduleRetreat(retreat, stressor.spawnTime, random);
+    }
+  }
 
   update(
     stressor: Stressor,
@@ -25,46 +32,49 @@ export class ErraticMovement implements MovementBehavior {
     context: SystemContext,
     baseSpeed: number
   ): Vector2 {
-    // Use wave timer as proxy for game time
-    const currentTime = context.state.waveTimer;
-    const timeSinceSpawn = currentTime - stressor.spawnTime;
-    
-    // Check if in retreat state
-    if (stressor.retreatState && stressor.retreatState.endTime > currentTime) {
-      // Retreat: move away from center
-      const direction = subtract(stressor.position, context.center);
-      const normalized = normalize(direction);
-      return multiply(normalized, baseSpeed * ErraticMovement.RETREAT_SPEED_MULTIPLIER);
-    }
+    const currentTime = context.getSimulationTime();
+    const retreat = getStressorDefinition(stressor.type).mechanics.retreat;
+    const toCenter = normalize(subtract(context.center, stressor.position));
     
-    // Check for hesitation (periodic pauses)
-    const hesitationCycle = Math.floor(timeSinceSpawn / ErraticMovement.HESITATION_INTERVAL);
-    const timeInCycle = timeSinceSpawn % ErraticMovement.HESITATION_INTERVAL;
-    
-    if (timeInCycle < ErraticMovement.HESITATION_DURATION) {
-      // Hesitation: slow movement or stop
-      const direction = subtract(context.center, stressor.position);
-      const normalized = normalize(direction);
-      const hesitationFactor = 0.2; // Very slow during hesitation
-      return multiply(normalized, baseSpeed * hesitationFactor);
+    if (retreat) {
+      // Plan the next retreat once this one and its hesitation are over
+      if (!stressor.retreatState || currentTime >= stressor.retreatState.endTime + retreat.hesitationDuration) {
+        stressor.retreatState = ErraticMovement.scheduleRetreat(retreat, currentTime, context.getRandom());
+      }
+      
+      const { startTime, endTime } = stressor.retreatState;
+      if (currentTime >= startTime && currentTime < endTime) {
+        // Retreat: move away from center
+        stressor.mechanicIntensity = 1;
+        return multiply(toCenter, -baseSpeed * retreat.retreatSpeed);
+      }
+      if (currentTime >= endTime) {
+        // Hesitation: creep back toward center
+        stressor.mechanicIntensity = 0.5;
+        return multiply(toCenter, baseSpeed * retreat.hesitationSpeed);
+      }
+      stressor.mechanicIntensity = 0;
     }
     
-    // Normal approach
-    const direction = subtract(context.center, stressor.position);
-    const normalized = normalize(direction);
-    
-    // Add slight erratic offset
+    // Normal approach with slight erratic offset
     const random = context.getRandom();
-    const erraticAngle = random.range(-0.3, 0.3);
+    const erraticAngle = random.range(-ErraticMovement.ERRATIC_ANGLE, ErraticMovement.ERRATIC_ANGLE);
     const cos = Math.cos(erraticAngle);
     const sin = Math.sin(erraticAngle);
     const erraticOffset = {
-      x: normalized.x * cos - normalized.y * sin,
-      y: normalized.x * sin + normalized.y * cos
+      x: toCenter.x * cos - toCenter.y * sin,
+      y: toCenter.x * sin + toCenter.y * cos
     };
     const finalDirection = normalize(erraticOffset);
     
     return multiply(finalDirection, baseSpeed);
   }
-}
 
+  /**
+   * Next retreat window, starting an approach interval after `from`
+   */
+  private static scheduleRetreat(retreat: RetreatMechanic, from: number, random: SeededRandom): { startTime: number; endTime: number } {
+    const startTime = from + random.range(retreat.minInterval, retreat.maxInterval);
+    return { startTime, endTime: startTime + random.range(retreat.minDuration, retreat.maxDuration) };
+  }
+}
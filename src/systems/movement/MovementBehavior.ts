@@ -1,5 +1,6 @@
 import { Stressor, Vector2 } from '../../types';
 import { SystemContext } from '../ISystem';
+import { SeededRandom } from '../../utils/Random';
 
 /**
  * MovementBehavior - Strategy pattern interface for stressor movement
@@ -8,6 +9,13 @@ import { SystemContext } from '../ISystem';
  * velocity based on stressor state, game context, and base speed.
  */
 export interface MovementBehavior {
+  /**
+   * Set up per-stressor movement state when a stressor spawns (optional)
+   * @param stressor - The newly spawned stressor
+   * @param random - Simulation random source
+   */
+  initialize?(stressor: Stressor, random: SeededRandom): void;
+
   /**
    * Update stressor movement for this frame
    * @param stressor - The stressor to update
@@ -1,4 +1,4 @@
-import { StressorType } from '../../types';
+import { MovementBehaviorId } from '../../config/StressorDefinitions';
 import { MovementBehavior } from './MovementBehavior';
 import { DirectMovement } from './DirectMovement';
 import { WobbleMovement } from './WobbleMovement';
@@ -10,30 +10,23 @@ import { TimePressureMovement } from './TimePressureMovement';
 /**
  * MovementBehaviorFactory - Creates movement behaviors for stressor types
  * 
- * Uses Strategy pattern to map stressor types to their movement behaviors.
+ * Uses Strategy pattern to map the movement ids used by stressor definitions
+ * to their movement behaviors.
  */
 export class MovementBehaviorFactory {
-  private static behaviors: Map<StressorType, MovementBehavior> = new Map([
-    [StressorType.IntrusiveThought, new DirectMovement()],
-    [StressorType.Fatigue, new DirectMovement()],
-    [StressorType.EnvironmentalNoise, new WobbleMovement()],
-    [StressorType.Expectation, new OrbitDashMovement()],
-    [StressorType.SelfDoubt, new ErraticMovement()],
-    [StressorType.Overwhelm, new AcceleratingMovement()],
-    [StressorType.TimePressure, new TimePressureMovement()],
-    [StressorType.Impulse, new AcceleratingMovement()] // Impulse uses accelerating movement
-  ]);
+  private static behaviors: Record<MovementBehaviorId, MovementBehavior> = {
+    direct: new DirectMovement(),
+    wobble: new WobbleMovement(),
+    orbit_dash: new OrbitDashMovement(),
+    erratic: new ErraticMovement(),
+    accelerating: new AcceleratingMovement(),
+    time_pressure: new TimePressureMovement()
+  };
 
   /**
-   * Get movement behavior for a stressor type
+   * Get movement behavior by id
    */
-  static getBehavior(type: StressorType): MovementBehavior {
-    const behavior = this.behaviors.get(type);
-    if (!behavior) {
-      // Fallback to direct movement
-      return this.behaviors.get(StressorType.IntrusiveThought)!;
-    }
-    return behavior;
+  static getBehavior(id: MovementBehaviorId): MovementBehavior {
+    return this.behaviors[id] ?? this.behaviors.direct;
   }
 }
-
@@ -1,11 +1,10 @@
 import { StatusEffectManager } from '../effects/StatusEffectManager';
 import { StatusEffectType } from '../effects/StatusEffect';
-import { StressorType } from '../../types';
 
 /**
  * MovementSpeedCalculator - Calculates final movement speed for stressors
  * 
- * Applies status effects (slow, etc.) to base speed to determine effective speed.
+ * Applies status effects (stun, slow, haste) to base speed to determine effective speed.
  * Provides single source of truth for movement speed calculation.
  */
 export class MovementSpeedCalculator {
@@ -23,8 +22,13 @@ export class MovementSpeedCalculator {
   calculateSpeed(
     baseSpeed: number,
     stressorId: string,
-    stressorType: StressorType
+    stressorType: string
   ): number {
+    // Stunned stressors don't move at all
+    if (this.statusEffectManager.getEffectiveValue(StatusEffectType.STUN, stressorId) > 0) {
+      return 0;
+    }
+
     // Get base speed (includes wave scaling, type modifiers)
     let finalSpeed = baseSpeed;
 
@@ -37,8 +41,11 @@ export class MovementSpeedCalculator {
     // Default to 1.0 if no slow effects (no change)
     finalSpeed *= slowMultiplier;
 
-    // Apply other speed modifiers (e.g., haste, stun) - future expansion
-    // ...
+    // Apply haste effects (stressor buffs, e.g. Impulse surges)
+    finalSpeed *= this.statusEffectManager.getEffectiveValue(
+      StatusEffectType.HASTE,
+      stressorId
+    );
 
     // Prevent negative speed
     return Math.max(0, finalSpeed);
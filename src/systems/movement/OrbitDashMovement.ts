@@ -2,6 +2,7 @@ import { MovementBehavior } from './MovementBehavior';
 import { Stressor, Vector2 } from '../../types';
 import { SystemContext } from '../ISystem';
 import { normalize, subtract, multiply, add, distance, angleTo } from '../../utils/MathUtils';
+import { SeededRandom } from '../../utils/Random';
 
 /**
  * OrbitDashMovement - Orbits player then dashes inward
@@ -14,6 +15,12 @@ export class OrbitDashMovement implements MovementBehavior {
   private static readonly ORBIT_SPEED = 0.8;
   private static readonly DASH_SPEED = 2.5;
 
+  initialize(stressor: Stressor, random: SeededRandom): void {
+    stressor.orbitRadius = 100 + random.range(0, 50);
+    stressor.orbitAngle = random.range(0, Math.PI * 2);
+    stressor.dashCooldown = 0;
+  }
+
   update(
     stressor: Stressor,
     deltaTime: number,
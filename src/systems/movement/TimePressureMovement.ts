@@ -1,6 +1,7 @@
 import { MovementBehavior } from './MovementBehavior';
 import { Stressor, Vector2 } from '../../types';
 import { SystemContext } from '../ISystem';
+import { getStressorDefinition } from '../../config/StressorDefinitions';
 import { normalize, subtract, multiply } from '../../utils/MathUtils';
 
 /**
@@ -10,13 +11,10 @@ import { normalize, subtract, multiply } from '../../utils/MathUtils';
  * 
  * Behavior:
  * - Base direct movement toward center
- * - Speed increases when player Serenity is low
+ * - Urgency: speed rises by the definition's boost while Serenity is below its threshold
  * - Creates urgency as player's calm decreases
  */
 export class TimePressureMovement implements MovementBehavior {
-  private static readonly LOW_SERENITY_THRESHOLD = 0.3;
-  private static readonly SPEED_BOOST_MULTIPLIER = 1.5;
-
   update(
     stressor: Stressor,
     deltaTime: number,
@@ -27,15 +25,12 @@ export class TimePressureMovement implements MovementBehavior {
     const normalized = normalize(direction);
     
     // Speed boost at low Serenity
+    const urgency = getStressorDefinition(stressor.type).mechanics.urgency;
     const serenityRatio = context.state.serenity / context.state.maxSerenity;
-    let speedMultiplier = 1.0;
-    
-    if (serenityRatio < TimePressureMovement.LOW_SERENITY_THRESHOLD) {
-      const boostFactor = 1 - (serenityRatio / TimePressureMovement.LOW_SERENITY_THRESHOLD);
-      speedMultiplier = 1.0 + (boostFactor * (TimePressureMovement.SPEED_BOOST_MULTIPLIER - 1.0));
-    }
+    const urgent = urgency !== undefined && serenityRatio < urgency.serenityThreshold;
+    const speedMultiplier = urgent ? 1 + urgency.speedBoost : 1.0;
     
+    stressor.mechanicIntensity = urgent ? 1 : 0;
     return multiply(normalized, baseSpeed * speedMultiplier);
   }
 }
-
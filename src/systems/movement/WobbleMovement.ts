@@ -1,14 +1,20 @@
 import { MovementBehavior } from './MovementBehavior';
 import { Stressor, Vector2 } from '../../types';
 import { SystemContext } from '../ISystem';
-import { normalize, subtract, multiply, add } from '../../utils/MathUtils';
+import { getStressorDefinition } from '../../config/StressorDefinitions';
+import { normalize, subtract, multiply, add, distance } from '../../utils/MathUtils';
 
 /**
  * WobbleMovement - Wobbling movement with perpendicular offset
  * 
  * Used by: EnvironmentalNoise
+ * 
+ * Amplification: each stressor of the same type nearby widens the wobble.
  */
 export class WobbleMovement implements MovementBehavior {
+  private static readonly WOBBLE_FREQUENCY = 3.0;
+  private static readonly WOBBLE_AMPLITUDE = 0.3;
+
   update(
     stressor: Stressor,
     deltaTime: number,
@@ -24,10 +30,22 @@ export class WobbleMovement implements MovementBehavior {
       y: normalized.x
     };
     
-    // Wobble frequency and amplitude
-    const wobbleFrequency = 3.0;
-    const wobbleAmplitude = 0.3;
-    const wobble = Math.sin(stressor.spawnTime * wobbleFrequency) * wobbleAmplitude;
+    // Amplification from nearby noise
+    const amplification = getStressorDefinition(stressor.type).mechanics.amplification;
+    let bonus = 0;
+    if (amplification) {
+      const nearby = context.getStressors().filter(s =>
+        s.type === stressor.type &&
+        s.id !== stressor.id &&
+        distance(s.position, stressor.position) < amplification.radius
+      ).length;
+      bonus = Math.min(amplification.maxBonus, nearby * amplification.perStressor);
+      stressor.mechanicIntensity = amplification.maxBonus > 0 ? bonus / amplification.maxBonus : 0;
+    }
+    
+    const timeSinceSpawn = context.getSimulationTime() - stressor.spawnTime;
+    const amplitude = WobbleMovement.WOBBLE_AMPLITUDE * (1 + bonus);
+    const wobble = Math.sin(timeSinceSpawn * WobbleMovement.WOBBLE_FREQUENCY) * amplitude;
     
     const wobbleOffset = multiply(perpendicular, wobble);
     const finalDirection = add(normalized, wobbleOffset);
@@ -39,4 +57,3 @@ export class WobbleMovement implements MovementBehavior {
     };
   }
 }
-
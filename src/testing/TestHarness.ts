@@ -0,0 +1,224 @@
+import { Game } from '../Game';
+import { GameConfig } from '../GameConfig';
+import { Replay } from '../replay/Replay';
+import { ReplayPlayer } from '../replay/ReplayPlayer';
+import { StateTraceEntry, FieldDifference, createTraceEntry, canonicalizeState, diffStateFields } from '../replay/StateHash';
+
+/**
+ * TestHarness - Headless balance simulation
+ *
+ * Runs Game without any DOM or canvas at the fixed simulation step, from a seed
+ * until game over or a wave cap, and summarizes each run for balance review.
+ */
+
+export interface BalanceRunOptions {
+  seed: number;
+  waveCap?: number; // Stop once this wave is completed (default 20)
+  sampleInterval?: number; // Seconds of simulation between serenity samples (default 5)
+  width?: number; // Playfield width (default 1920)
+  height?: number; // Playfield height (default 1080)
+  traceInterval?: number; // Record a state trace entry every this many ticks (default: no trace)
+}
+
+export interface SerenitySample {
+  time: number; // Simulation seconds
+  wave: number;
+  serenity: number;
+}
+
+export interface BalanceRunResult {
+  seed: number;
+  waveReached: number;
+  gameOver: boolean;
+  duration: number; // Simulation seconds
+  insightEarned: number;
+  finalSerenity: number;
+  totalKills: number;
+  killsByAbility: Record<string, number>;
+  serenityCurve: SerenitySample[];
+  stateTrace?: StateTraceEntry[]; // Only when traceInterval is set
+}
+
+export interface BalanceSummary {
+  runs: number;
+  waveCap: number;
+  waveReached: { min: number; max: number; mean: number };
+  gameOverRate: number; // Fraction of runs that ended in game over
+  meanDuration: number;
+  meanInsightEarned: number;
+  wave15TargetMet: boolean; // Every run defeated by wave 15 (when GameConfig.WAVE_15_TARGET_DEFEAT is set)
+  results: BalanceRunResult[];
+}
+
+export interface RunDivergence {
+  tick: number; // First tick the two runs' states differ at
+  differences: FieldDifference[];
+}
+
+const DEFAULT_WAVE_CAP = 20;
+const DEFAULT_SAMPLE_INTERVAL = 5;
+const TARGET_DEFEAT_WAVE = 15;
+
+export class TestHarness {
+  /**
+   * Simulate a single run headlessly
+   */
+  runBalanceTest(options: BalanceRunOptions): BalanceRunResult {
+    const waveCap = options.waveCap ?? DEFAULT_WAVE_CAP;
+    const sampleInterval = options.sampleInterval ?? DEFAULT_SAMPLE_INTERVAL;
+    const game = new Game(options.width ?? 1920, options.height ?? 1080, options.seed);
+    const step = GameConfig.SIMULATION_STEP;
+
+    // Guard against runs that never end (e.g. a wave that can't advance)
+    const maxDuration = (waveCap + 1) * GameConfig.WAVE_DURATION;
+
+    const killsByAbility: Record<string, number> = {};
+    game.getEvents().on('stressorResolved', ({ source }) => {
+      killsByAbility[source] = (killsByAbility[source] ?? 0) + 1;
+    });
+    const traceInterval = options.traceInterval;
+    const stateTrace: StateTraceEntry[] | undefined = traceInterval ? [createTraceEntry(game.createSnapshot())] : undefined;
+    if (stateTrace && traceInterval) {
+      game.getEvents().on('tickCompleted', ({ tick }) => {
+        if (tick % traceInterval === 0) {
+          stateTrace.push(createTraceEntry(game.createSnapshot()));
+        }
+      });
+    }
+    const serenityCurve: SerenitySample[] = [];
+    let nextSampleTime = 0;
+    let state = game.getState();
+
+    while (!state.gameOver && state.wave <= waveCap && game.getSimulationTime() < maxDuration) {
+      // One fixed step per update at pace 1
+      game.update(step);
+      state = game.getState();
+
+      if (game.getSimulationTime() >= nextSampleTime) {
+        serenityCurve.push({
+          time: game.getSimulationTime(),
+          wave: state.wave,
+          serenity: state.serenity
+        });
+        nextSampleTime += sampleInterval;
+      }
+    }
+
+    const summary = game.getRunSummary();
+
+    return {
+      seed: options.seed,
+      waveReached: Math.min(state.wave, waveCap),
+      gameOver: state.gameOver,
+      duration: summary.duration,
+      insightEarned: summary.insight,
+      finalSerenity: state.serenity,
+      totalKills: Object.values(killsByAbility).reduce((sum, count) => sum + count, 0),
+      killsByAbility,
+      serenityCurve,
+      stateTrace
+    };
+  }
+
+  /**
+   * Re-simulate two replays side by side and report the first tick where their
+   * states differ, or null if they match until either one ends. Replaying a
+   * file against itself checks the simulation is deterministic.
+   */
+  compareReplays(a: Replay, b: Replay): RunDivergence | null {
+    if (JSON.stringify(a.configOverrides) !== JSON.stringify(b.configOverrides)) {
+      // GameConfig is global, so both runs have to play under the same settings
+      throw new Error('Replays were recorded with different config overrides');
+    }
+
+    const gameA = new Game(a.start.playfield.width, a.start.playfield.height, a.seed);
+    const gameB = new Game(b.start.playfield.width, b.start.playfield.height, b.seed);
+    const playerA = new ReplayPlayer(gameA, a);
+    const playerB = new ReplayPlayer(gameB, b);
+    if (!playerA.begin()) throw new Error('First replay could not be restored');
+    if (!playerB.begin()) {
+      playerA.end();
+      throw new Error('Second replay could not be restored');
+    }
+
+    try {
+      // Both players step manually, one tick at a time
+      playerA.togglePause();
+      playerB.togglePause();
+
+      for (;;) {
+        const differences = diffStateFields(
+          canonicalizeState(gameA.createSnapshot()),
+          canonicalizeState(gameB.createSnapshot())
+        );
+        if (differences.length > 0) {
+          return { tick: gameA.getTick(), differences };
+        }
+        if (playerA.isFinished() || playerB.isFinished()) return null;
+
+        playerA.stepOnce();
+        playerB.stepOnce();
+      }
+    } finally {
+      playerB.end();
+      playerA.end();
+    }
+  }
+
+  /**
+   * Simulate one run per seed and aggregate the results
+   */
+  runSeeds(seeds: number[], options: Omit<BalanceRunOptions, 'seed'> = {}): BalanceSummary {
+    const results = seeds.map(seed => this.runBalanceTest({ ...options, seed }));
+    const waves = results.map(r => r.waveReached);
+    const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+    const defeatedByTarget = results.every(r => r.gameOver && r.waveReached <= TARGET_DEFEAT_WAVE);
+
+    return {
+      runs: results.length,
+      waveCap: options.waveCap ?? DEFAULT_WAVE_CAP,
+      waveReached: {
+        min: waves.length > 0 ? Math.min(...waves) : 0,
+        max: waves.length > 0 ? Math.max(...waves) : 0,
+        mean: mean(waves)
+      },
+      gameOverRate: results.length > 0 ? results.filter(r => r.gameOver).length / results.length : 0,
+      meanDuration: mean(results.map(r => r.duration)),
+      meanInsightEarned: mean(results.map(r => r.insightEarned)),
+      wave15TargetMet: !GameConfig.WAVE_15_TARGET_DEFEAT || defeatedByTarget,
+      results
+    };
+  }
+
+  /**
+   * Per-run summary as CSV (one row per seed; serenity curves are JSON-only)
+   */
+  toCSV(summary: BalanceSummary): string {
+    const abilities = Array.from(
+      new Set(summary.results.flatMap(r => Object.keys(r.killsByAbility)))
+    ).sort();
+
+    const header = [
+      'seed', 'waveReached', 'gameOver', 'duration', 'insightEarned', 'finalSerenity', 'totalKills',
+      ...abilities.map(a => `kills_${a}`)
+    ];
+
+    const rows = summary.results.map(r => [
+      r.seed,
+      r.waveReached,
+      r.gameOver,
+      r.duration.toFixed(2),
+      r.insightEarned,
+      r.finalSerenity.toFixed(2),
+      r.totalKills,
+      ...abilities.map(a => r.killsByAbility[a] ?? 0)
+    ].join(','));
+
+    return [header.join(','), ...rows].join('\n') + '\n';
+  }
+
+  toJSON(summary: BalanceSummary): string {
+    return JSON.stringify(summary, null, 2) + '\n';
+  }
+}
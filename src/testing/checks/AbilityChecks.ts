@@ -0,0 +1,38 @@
+import { Game } from '../../Game';
+import { UpgradePurchase } from '../../types';
+import { Check, expect } from './Check';
+
+/**
+ * Upgrades and branch points: an ability at a branch point can't be upgraded
+ * until one of its offered branches is chosen.
+ */
+export const abilityChecks: Check[] = [
+  {
+    name: 'branch gating',
+    run: () => {
+      const game = new Game(1920, 1080, 1);
+      const purchases: UpgradePurchase[] = [];
+      game.getEvents().on('upgradePurchased', (purchase) => purchases.push(purchase));
+      const upgrade = () => game.executeCommand({ type: 'purchaseUpgrade', ability: 'breathe' });
+      const choose = (branchId: string) => game.executeCommand({ type: 'chooseBranch', ability: 'breathe', branchId });
+
+      game.modifyState({ insight: 1_000_000 });
+      for (let level = 1; level <= 3; level++) {
+        expect(upgrade() && game.getAbilities().breathe.level === level, `breathe purchase ${level} failed`);
+      }
+      const spent = purchases.reduce((total, purchase) => total + purchase.cost, 0);
+      expect(game.getState().insight === 1_000_000 - spent, `insight is ${game.getState().insight} after spending ${spent}`);
+
+      const pending = game.getPendingBranchChoice();
+      expect(pending?.ability === 'breathe' && pending.level === 3, 'breathe at level 3 is not waiting on a branch');
+      expect(!game.canPurchaseUpgrade('breathe') && !upgrade(), 'breathe upgraded past an unchosen branch');
+      expect(!choose('recenter_wide'), 'accepted a branch breathe is not offered');
+
+      expect(choose(pending.branches[0].id), `could not choose ${pending.branches[0].id}`);
+      expect(game.getPendingBranchChoice() === null, 'branch point still pending after the choice');
+      expect(!choose(pending.branches[1].id), 'chose a second branch at the same level');
+      expect(upgrade() && game.getAbilities().breathe.level === 4, 'breathe could not upgrade after the choice');
+      return `level 3 blocks upgrades until ${pending.branches[0].id} is chosen`;
+    }
+  }
+];
@@ -0,0 +1,25 @@
+import { Game } from '../../Game';
+import { GameConfig } from '../../GameConfig';
+import { AbilityState } from '../../types';
+
+/**
+ * Run a game on, buying the first upgrade it can afford (or choosing the first
+ * branch offered) once a simulated second so runs carry levels and branches
+ */
+export function autoplay(game: Game, seconds: number): void {
+  const steps = Math.round(seconds / GameConfig.SIMULATION_STEP);
+  const stepsPerSecond = Math.round(1 / GameConfig.SIMULATION_STEP);
+  for (let step = 1; step <= steps && !game.getState().gameOver; step++) {
+    game.update(GameConfig.SIMULATION_STEP);
+    if (step % stepsPerSecond !== 0) continue;
+
+    const pending = game.getPendingBranchChoice();
+    if (pending) {
+      game.executeCommand({ type: 'chooseBranch', ability: pending.ability, branchId: pending.branches[0].id });
+      continue;
+    }
+    for (const ability of Object.keys(game.getAbilities()) as Array<keyof AbilityState>) {
+      if (game.executeCommand({ type: 'purchaseUpgrade', ability })) break;
+    }
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Check - A named npm test check
+ *
+ * run returns a one-line detail when the check passes and throws (usually via
+ * expect) with what went wrong when it doesn't.
+ */
+export interface CheckOptions {
+  seeds: number[]; // Seeds for checks that play whole runs
+}
+
+export interface Check {
+  name: string;
+  run: (options: CheckOptions) => string;
+}
+
+export function expect(condition: boolean, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
@@ -0,0 +1,57 @@
+import { Game } from '../../Game';
+import { GameConfig } from '../../GameConfig';
+import { InsightSystem } from '../../systems/InsightSystem';
+import { Stressor } from '../../types';
+import { Check, expect } from './Check';
+
+/**
+ * Insight rewards: stressor rewards grow with the wave, wave rewards pay a
+ * bonus for time left, and a run's awards all land in state.insight.
+ */
+export const insightChecks: Check[] = [
+  {
+    name: 'insight rewards',
+    run: () => {
+      const insight = new InsightSystem();
+      const stressor = { type: 'intrusive_thought' } as Stressor;
+      const wave1 = insight.calculateStressorReward(stressor, 1);
+      const wave5 = insight.calculateStressorReward(stressor, 5);
+      expect(wave1 === GameConfig.INSIGHT_BASE, `wave 1 stressor reward is ${wave1}, expected ${GameConfig.INSIGHT_BASE}`);
+      expect(wave5 === GameConfig.INSIGHT_BASE + 4 * GameConfig.INSIGHT_PER_WAVE, `wave 5 stressor reward is ${wave5}`);
+
+      const timerExpired = insight.calculateWaveReward(3, 0);
+      const clearedAtOnce = insight.calculateWaveReward(3, GameConfig.WAVE_DURATION);
+      const base = GameConfig.INSIGHT_WAVE_CLEAR_BASE + 2 * GameConfig.INSIGHT_WAVE_CLEAR_PER_WAVE;
+      expect(timerExpired === base, `wave 3 reward with the timer expired is ${timerExpired}, expected ${base}`);
+      expect(clearedAtOnce === Math.round(base * (1 + GameConfig.INSIGHT_EARLY_CLEAR_BONUS)),
+        `wave 3 reward cleared at once is ${clearedAtOnce}`);
+      return `stressor ${wave1} -> ${wave5} by wave 5, wave 3 clear ${timerExpired}-${clearedAtOnce}`;
+    }
+  },
+  {
+    name: 'insight awards in a run',
+    run: ({ seeds }) => {
+      const game = new Game(1920, 1080, seeds[0]);
+      const context = game.getSystemContext();
+      let stressorAwards = 0;
+      let waveAwards = 0;
+      while (game.getState().wave < 3 && !game.getState().gameOver) {
+        game.update(GameConfig.SIMULATION_STEP);
+        for (const award of context.getRecentInsightAwards()) {
+          if (award.source === 'stressor') {
+            expect(award.resolvedBy !== undefined, `stressor award without a resolving ability at ${game.getSimulationTime()}s`);
+            stressorAwards++;
+          } else {
+            waveAwards++;
+          }
+        }
+      }
+
+      const earned = game.getRunSummary().insight;
+      expect(waveAwards === game.getState().wave - 1, `${waveAwards} wave awards after ${game.getState().wave - 1} completed waves`);
+      expect(stressorAwards > 0, 'no stressor was resolved by an ability');
+      expect(game.getState().insight === earned, `state holds ${game.getState().insight} insight but ${earned} was earned`);
+      return `${stressorAwards} stressor and ${waveAwards} wave awards, ${earned} insight`;
+    }
+  }
+];
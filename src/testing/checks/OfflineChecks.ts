@@ -0,0 +1,43 @@
+import { Game } from '../../Game';
+import { GameConfig } from '../../GameConfig';
+import { Check, expect } from './Check';
+
+const PLAY_SECONDS = 20;
+const AWAY_SECONDS = 2 * 60 * 60;
+
+/**
+ * Offline progress on resume: short absences earn nothing, long ones are capped,
+ * and the estimate lands in the run as its state, insight and a fresh wave.
+ */
+export const offlineChecks: Check[] = [
+  {
+    name: 'offline progress',
+    run: ({ seeds }) => {
+      const game = new Game(1920, 1080, seeds[0]);
+      for (let t = 0; t < PLAY_SECONDS; t += GameConfig.SIMULATION_STEP) {
+        game.update(GameConfig.SIMULATION_STEP);
+      }
+      const before = game.getState();
+      const simulationTime = game.getSimulationTime();
+
+      expect(game.applyOfflineProgress(GameConfig.OFFLINE_PROGRESS_MIN_SECONDS - 1) === null,
+        'an absence under the minimum was credited');
+      const capped = new Game(1920, 1080, seeds[0]).applyOfflineProgress(GameConfig.OFFLINE_PROGRESS_MAX_SECONDS * 2);
+      expect(capped?.creditedTime === GameConfig.OFFLINE_PROGRESS_MAX_SECONDS, `credited ${capped?.creditedTime}s for twice the maximum absence`);
+
+      const summary = game.applyOfflineProgress(AWAY_SECONDS);
+      expect(summary !== null, `no progress for ${AWAY_SECONDS}s away`);
+      const after = game.getState();
+      expect(summary.startWave === before.wave && after.wave === summary.endWave,
+        `summary covers waves ${summary.startWave}-${summary.endWave} but the run went ${before.wave}-${after.wave}`);
+      expect(after.insight === before.insight + summary.insightEarned,
+        `insight went ${before.insight} -> ${after.insight} for ${summary.insightEarned} earned`);
+      expect(after.serenity === before.serenity + summary.serenityChange, 'serenity change does not match the summary');
+      expect(game.getSimulationTime() === simulationTime, 'offline progress moved the simulation clock');
+      if (summary.endWave !== summary.startWave) {
+        expect(after.waveTimer === 0 && game.getStressors().length > 0, `wave ${after.wave} was not started fresh`);
+      }
+      return `${AWAY_SECONDS}s away: waves ${summary.startWave}-${summary.endWave}, +${summary.insightEarned} insight`;
+    }
+  }
+];
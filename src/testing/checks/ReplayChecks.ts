@@ -0,0 +1,97 @@
+import { Game } from '../../Game';
+import { GameConfig } from '../../GameConfig';
+import { parseReplay, Replay, serializeReplay } from '../../replay/Replay';
+import { ReplayPlayer } from '../../replay/ReplayPlayer';
+import { ReplayRecorder } from '../../replay/ReplayRecorder';
+import { hashGameState } from '../../replay/StateHash';
+import { autoplay } from './Autoplay';
+import { Check, expect } from './Check';
+
+const RECORD_SECONDS = 60;
+
+/**
+ * Replays: a recorded run, written out and parsed back, must play back
+ * through every checkpoint to the recorded final state, and a tampered
+ * recording must be caught at a checkpoint.
+ */
+export const replayChecks: Check[] = [
+  {
+    name: 'replay round trip',
+    run: ({ seeds }) => {
+      let commands = 0;
+      for (const seed of seeds) {
+        const replay = record(seed);
+        commands += replay.commands.length;
+        expect(replay.commands.length > 0, `seed ${seed}: no commands were recorded`);
+
+        const parsed = parseReplay(serializeReplay(replay));
+        const game = play(parsed);
+        const status = game.player.getStatus();
+        expect(status.finished && status.tick === replay.endTick, `seed ${seed}: playback stopped at tick ${status.tick} of ${replay.endTick}`);
+        expect(status.mismatch === null, `seed ${seed}: playback diverged at tick ${status.mismatch?.tick}`);
+        expect(hashGameState(game.game.createSnapshot()) === replay.checkpoints[replay.checkpoints.length - 1][1],
+          `seed ${seed}: final state differs from the recording`);
+
+        const tampered = play({ ...parsed, commands: parsed.commands.slice(1) });
+        expect(tampered.player.getStatus().mismatch !== null, `seed ${seed}: playback without the first command was not flagged`);
+      }
+      return `${seeds.length} ${RECORD_SECONDS}s recordings (${commands} commands) play back checkpoint for checkpoint`;
+    }
+  },
+  {
+    name: 'replay parsing',
+    run: () => {
+      const valid = serializeReplay(record(1, 1));
+      const invalid: Array<[string, (replay: Record<string, unknown>) => void]> = [
+        ['version', replay => { replay.version = 0; }],
+        ['command', replay => { replay.commands = [[0, { type: 'teleport' }]]; }],
+        ['checkpoint', replay => { replay.checkpoints = [['0', 'abc']]; }]
+      ];
+      for (const [label, corrupt] of invalid) {
+        const replay = JSON.parse(valid);
+        corrupt(replay);
+        expect(!parses(JSON.stringify(replay)), `accepted a replay with a bad ${label}`);
+      }
+      return `${invalid.length} malformed replays rejected`;
+    }
+  }
+];
+
+/**
+ * Record an autoplayed run from its first tick
+ */
+function record(seed: number, seconds: number = RECORD_SECONDS): Replay {
+  const game = new Game(1920, 1080, seed);
+  const recorder = new ReplayRecorder(game);
+  recorder.start();
+  game.executeCommand({ type: 'setPace', pace: 1 + GameConfig.PACE_STEP });
+  autoplay(game, seconds);
+
+  const replay = recorder.getReplay();
+  recorder.stop();
+  expect(replay !== null, `seed ${seed}: nothing was recorded`);
+  return replay;
+}
+
+/**
+ * Play a replay back to its end in a fresh game, a simulation step per frame
+ */
+function play(replay: Replay): { game: Game; player: ReplayPlayer } {
+  const game = new Game(1920, 1080);
+  const player = new ReplayPlayer(game, replay);
+  expect(player.begin(), 'the replay start snapshot could not be restored');
+  while (!player.isFinished()) {
+    player.update(GameConfig.SIMULATION_STEP);
+  }
+  player.end();
+  return { game, player };
+}
+
+function parses(json: string): boolean {
+  try {
+    parseReplay(json);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,28 @@
+import { findTraceDivergence } from '../../replay/StateHash';
+import { TestHarness } from '../TestHarness';
+import { Check, expect } from './Check';
+
+const DETERMINISM_WAVE_CAP = 3;
+
+/**
+ * Whole-run checks through TestHarness: the same seed must play out the same
+ * way every time, tick for tick.
+ */
+export const runChecks: Check[] = [
+  {
+    name: 'determinism',
+    run: ({ seeds }) => {
+      const harness = new TestHarness();
+      let ticks = 0;
+      for (const seed of seeds) {
+        const first = harness.runBalanceTest({ seed, waveCap: DETERMINISM_WAVE_CAP, traceInterval: 1 });
+        const second = harness.runBalanceTest({ seed, waveCap: DETERMINISM_WAVE_CAP, traceInterval: 1 });
+        const divergence = findTraceDivergence(first.stateTrace ?? [], second.stateTrace ?? []);
+        expect(divergence === null, `seed ${seed} diverged on a second run at tick ${divergence?.tick} (${divergence?.sections.join(', ')})`);
+        expect(JSON.stringify(first) === JSON.stringify(second), `seed ${seed} gave different results on a second run`);
+        ticks += first.stateTrace?.length ?? 0;
+      }
+      return `${seeds.length} seeds replay identically through wave ${DETERMINISM_WAVE_CAP} (${ticks} ticks hashed)`;
+    }
+  }
+];
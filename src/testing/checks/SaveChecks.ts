@@ -0,0 +1,45 @@
+import { Game, GameSnapshot } from '../../Game';
+import { SaveGame } from '../../utils/SaveGame';
+import { autoplay } from './Autoplay';
+import { Check, expect } from './Check';
+
+const SAVE_AT_SECONDS = 30;
+const RESUME_SECONDS = 30;
+const COMPARE_INTERVAL_SECONDS = 5;
+
+/**
+ * Save/resume: a run saved through SaveGame and restored into a fresh Game
+ * must carry on exactly as the original does. Needs localStorage.
+ */
+export const saveChecks: Check[] = [
+  {
+    name: 'save round trip',
+    run: ({ seeds }) => {
+      for (const seed of seeds) {
+        const original = new Game(1920, 1080, seed);
+        autoplay(original, SAVE_AT_SECONDS);
+        expect(!original.getState().gameOver, `seed ${seed} ended before the save point`);
+
+        SaveGame.save(original.createSnapshot());
+        const loaded = SaveGame.load();
+        SaveGame.clear();
+        expect(loaded !== null, `seed ${seed}: the saved run could not be loaded`);
+
+        const resumed = new Game(1920, 1080, seed);
+        expect(resumed.restoreSnapshot(loaded), `seed ${seed}: the loaded snapshot could not be restored`);
+        for (let elapsed = 0; elapsed <= RESUME_SECONDS; elapsed += COMPARE_INTERVAL_SECONDS) {
+          expect(describe(original.createSnapshot()) === describe(resumed.createSnapshot()),
+            `seed ${seed}: resumed run differs ${elapsed}s after the save`);
+          autoplay(original, COMPARE_INTERVAL_SECONDS);
+          autoplay(resumed, COMPARE_INTERVAL_SECONDS);
+        }
+      }
+      return `${seeds.length} runs saved at ${SAVE_AT_SECONDS}s match their originals for ${RESUME_SECONDS}s`;
+    }
+  }
+];
+
+/** Snapshot contents minus the wall-clock save time */
+function describe(snapshot: GameSnapshot): string {
+  return JSON.stringify({ ...snapshot, savedAt: 0 });
+}
@@ -0,0 +1,64 @@
+import { Game } from '../../Game';
+import { GameConfig } from '../../GameConfig';
+import { getSpawnOffsets, SpawnCurve } from '../../systems/SpawnScheduler';
+import { getWaveStressorCount } from '../../systems/StressorSystem';
+import { Check, expect } from './Check';
+
+const WINDOW = 20;
+const PULSES = 4;
+
+/**
+ * Spawn scheduling: each curve must place a wave's batches where it says it
+ * does, and a live wave must announce and spawn its stressors on that schedule.
+ */
+export const spawnChecks: Check[] = [
+  {
+    name: 'spawn curves',
+    run: () => {
+      const offsets = (curve: SpawnCurve, count: number = 8) => getSpawnOffsets(count, curve, WINDOW, PULSES);
+
+      expect(offsets('instant').every(offset => offset === 0), `instant spawned at ${offsets('instant').join()}`);
+      expect(offsets('linear').join() === '0,2.5,5,7.5,10,12.5,15,17.5', `linear spawned at ${offsets('linear').join()}`);
+
+      const frontLoaded = offsets('front_loaded');
+      const gaps = frontLoaded.slice(1).map((offset, i) => offset - frontLoaded[i]);
+      expect(frontLoaded[0] === 0 && frontLoaded[frontLoaded.length - 1] < WINDOW, `front_loaded spawned at ${frontLoaded.join()}`);
+      expect(gaps.every((gap, i) => i === 0 || gap > gaps[i - 1]), `front_loaded gaps do not widen: ${gaps.join()}`);
+
+      expect(offsets('pulses').join() === '0,0,5,5,10,10,15,15', `pulses spawned at ${offsets('pulses').join()}`);
+      expect(offsets('pulses', 2).join() === '0,10', `2 batches in ${PULSES} pulses spawned at ${offsets('pulses', 2).join()}`);
+      expect(offsets('linear', 0).length === 0, 'an empty wave was given spawn times');
+      return `instant, linear, front_loaded and pulses place 8 batches over ${WINDOW}s as designed`;
+    }
+  },
+  {
+    name: 'scheduled wave',
+    run: () => {
+      const game = new Game(1920, 1080, 1);
+      const spawnTimes: number[] = [];
+      let announced = 0;
+      let waveStart = 0; // Immediate spawns happen before waveStarted, at the same time
+      game.getEvents().on('waveStarted', ({ wave, stressorCount }) => {
+        if (wave !== 1) return;
+        announced = stressorCount;
+        waveStart = game.getSimulationTime();
+      });
+      game.getEvents().on('stressorSpawned', () => {
+        if (game.getState().wave === 1) spawnTimes.push(game.getSimulationTime());
+      });
+      while (game.getState().wave <= 1 && game.getSimulationTime() < GameConfig.SPAWN_WINDOW) {
+        game.update(GameConfig.SIMULATION_STEP);
+      }
+
+      const count = getWaveStressorCount(1);
+      expect(announced === count, `wave 1 announced ${announced} stressors but spawns ${count}`);
+
+      const expected = getSpawnOffsets(count, GameConfig.SPAWN_CURVE, GameConfig.SPAWN_WINDOW, GameConfig.SPAWN_PULSE_COUNT);
+      const offsets = spawnTimes.map(time => time - waveStart);
+      expect(offsets.length === count, `wave 1 spawned ${offsets.length} of ${count} stressors`);
+      expect(offsets.every((offset, i) => Math.abs(offset - expected[i]) <= GameConfig.SIMULATION_STEP),
+        `wave 1 spawned at ${offsets.map(offset => offset.toFixed(2)).join()}s, expected ${expected.map(offset => offset.toFixed(2)).join()}s`);
+      return `wave 1 announced ${count} stressors and spawned them on the ${GameConfig.SPAWN_CURVE} curve`;
+    }
+  }
+];
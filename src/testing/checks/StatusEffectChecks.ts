@@ -0,0 +1,277 @@
+import { getStressorDefinition } from '../../config/StressorDefinitions';
+import defaultScripts from '../../config/waves.json';
+import { loadWaveScripts } from '../../config/WaveScripts';
+import { Game, GameSnapshot } from '../../Game';
+import { GameConfig } from '../../GameConfig';
+import {
+  applyDevStatusEffect, DEV_DOT_DAMAGE, DEV_DOT_DURATION, DEV_DOT_MAX_STACKS, DEV_DOT_TICK_INTERVAL, DEV_STUN_DURATION
+} from '../../systems/effects/DevStatusEffects';
+import { AuraEffect, RefreshRule, StackingRule, StatusEffect, StatusEffectType } from '../../systems/effects/StatusEffect';
+import { StatusEffectManager } from '../../systems/effects/StatusEffectManager';
+import { SaveGame } from '../../utils/SaveGame';
+import { Check, expect } from './Check';
+
+const DURABLE_HEALTH = 1000; // Enough that stressors outlive the effects under test
+const FIELD_SIZE = 4000; // Wide enough that stressors don't reach the center during a check
+
+/**
+ * Status effects: stacking and refresh rules, damage over time dealt on its
+ * schedule (also across a snapshot), stun stopping movement, capped stressor
+ * auras, and older saves migrating surges and auras. Needs localStorage.
+ */
+export const statusEffectChecks: Check[] = [
+  {
+    name: 'status effect stacks',
+    run: () => {
+      let now = 0;
+      const manager = new StatusEffectManager(() => now);
+      const effect = (id: string, refreshRule: RefreshRule): StatusEffect => ({
+        id, type: StatusEffectType.DAMAGE_OVER_TIME, source: 'check', value: 2, duration: 2,
+        startTime: now, stackingRule: StackingRule.ADDITIVE, refreshRule, maxStacks: 3
+      });
+
+      for (let i = 0; i < 4; i++) manager.apply(effect('capped', RefreshRule.REFRESH), 'a');
+      const capped = manager.getEffectiveValue(StatusEffectType.DAMAGE_OVER_TIME, 'a');
+      expect(capped === 6, `4 applications of a 3-stack effect worth 2 came to ${capped}`);
+      manager.apply(effect('capped', RefreshRule.REPLACE), 'a');
+      expect(manager.getEffectiveValue(StatusEffectType.DAMAGE_OVER_TIME, 'a') === 2, 'replacing kept the old stacks');
+
+      manager.apply(effect('refreshed', RefreshRule.REFRESH), 'b');
+      manager.apply(effect('extended', RefreshRule.EXTEND), 'c');
+      now = 1;
+      manager.apply(effect('refreshed', RefreshRule.REFRESH), 'b');
+      manager.apply(effect('extended', RefreshRule.EXTEND), 'c');
+      const active = (target: string) => manager.getEffects(StatusEffectType.DAMAGE_OVER_TIME, target).length > 0;
+      now = 3.5;
+      manager.update(0);
+      expect(!active('b') && active('c'), 'refresh should end at 3s and extend at 4s');
+      now = 4;
+      manager.update(0);
+      expect(!active('c'), 'extended effect outlived its 4s');
+      return 'stacks cap at maxStacks, replace resets them, refresh ends at 3s and extend at 4s';
+    }
+  },
+  {
+    name: 'damage over time',
+    run: () => {
+      const game = startDurableGame();
+      const damage = recordDotDamage(game);
+      const target = game.getStressors()[0].id;
+      game.getSystemContext().getStatusEffectManager().apply({
+        id: 'check-vulnerable', type: StatusEffectType.VULNERABILITY, source: 'check', value: 2,
+        startTime: game.getSimulationTime(), stackingRule: StackingRule.MULTIPLICATIVE
+      }, target);
+
+      const affected = applyDevStatusEffect(StatusEffectType.DAMAGE_OVER_TIME, game.getSystemContext());
+      run(game, DEV_DOT_TICK_INTERVAL * 2.5); // Two ticks, then stack up between ticks
+      for (let i = 1; i < DEV_DOT_MAX_STACKS + 2; i++) {
+        applyDevStatusEffect(StatusEffectType.DAMAGE_OVER_TIME, game.getSystemContext());
+      }
+      run(game, DEV_DOT_DURATION + 1);
+
+      const ticks = damage.filter(tick => tick.stressorId === target).map(tick => tick.damage);
+      const expectedTicks = Math.floor((DEV_DOT_TICK_INTERVAL * 2.5 + DEV_DOT_DURATION) / DEV_DOT_TICK_INTERVAL);
+      const stacked = DEV_DOT_DAMAGE * DEV_DOT_MAX_STACKS;
+      expect(ticks.length === expectedTicks, `${ticks.length} ticks landed, expected ${expectedTicks}`);
+      expect(ticks[0] === DEV_DOT_DAMAGE && ticks[1] === DEV_DOT_DAMAGE, `first ticks dealt ${ticks.slice(0, 2).join()}`);
+      expect(ticks.slice(2).every(tick => tick === stacked), `capped stacks dealt ${ticks.slice(2).join()}, expected ${stacked} each`);
+      return `${affected} stressors took ${ticks.length} ticks each, ${stacked} at ${DEV_DOT_MAX_STACKS} stacks, unaffected by vulnerability`;
+    }
+  },
+  {
+    name: 'damage over time snapshot',
+    run: () => {
+      const original = startDurableGame();
+      applyDevStatusEffect(StatusEffectType.DAMAGE_OVER_TIME, original.getSystemContext());
+      run(original, DEV_DOT_TICK_INTERVAL * 1.5);
+
+      const resumed = new Game(FIELD_SIZE, FIELD_SIZE);
+      const snapshot: GameSnapshot = JSON.parse(JSON.stringify(original.createSnapshot()));
+      expect(resumed.restoreSnapshot(snapshot), 'the snapshot could not be restored');
+      const originalDamage = recordDotDamage(original);
+      const resumedDamage = recordDotDamage(resumed);
+      run(original, DEV_DOT_DURATION);
+      run(resumed, DEV_DOT_DURATION);
+
+      expect(originalDamage.length > 0, 'no damage over time after the snapshot');
+      expect(JSON.stringify(originalDamage) === JSON.stringify(resumedDamage),
+        `restored run dealt ${resumedDamage.length} ticks, the original ${originalDamage.length}`);
+      return `${originalDamage.length} ticks after the snapshot land identically in the restored run`;
+    }
+  },
+  {
+    name: 'stun',
+    run: () => {
+      const game = startDurableGame();
+      const positions = () => JSON.stringify(game.getStressors().map(stressor => stressor.position));
+      applyDevStatusEffect(StatusEffectType.STUN, game.getSystemContext());
+      const before = positions();
+      run(game, DEV_STUN_DURATION - 0.5);
+      expect(positions() === before, 'stunned stressors moved');
+      run(game, 1);
+      expect(positions() !== before, 'stressors did not move once the stun ended');
+      return `stressors held still for ${DEV_STUN_DURATION}s`;
+    }
+  },
+  {
+    name: 'surge save migration',
+    run: () => {
+      const game = startDurableGame();
+      const snapshot = JSON.parse(JSON.stringify(game.createSnapshot()));
+      const [running, ended] = snapshot.stressors.stressors;
+      running.surge = { multiplier: 1.3, endTime: snapshot.simulationTime + 1.5 };
+      ended.surge = { multiplier: 1.3, endTime: snapshot.simulationTime - 1 };
+      localStorage.setItem('meditativeidle_run_save', JSON.stringify({ schemaVersion: 5, savedAt: 0, data: { ...snapshot, version: 5 } }));
+
+      let loaded: GameSnapshot | null;
+      try {
+        loaded = SaveGame.load();
+      } finally {
+        localStorage.clear();
+      }
+      expect(loaded !== null, 'the version 5 save could not be loaded');
+      expect(loaded.stressors.stressors.every(stressor => !('surge' in stressor)), 'a surge field survived the migration');
+
+      const haste = new Map(loaded.statusEffects.effects).get(running.id)?.find(effect => effect.type === StatusEffectType.HASTE);
+      expect(haste?.value === 1.3 && Math.abs((haste.duration ?? 0) - 1.5) < 1e-9, `running surge became ${JSON.stringify(haste)}`);
+      const endedHaste = new Map(loaded.statusEffects.effects).get(ended.id)?.some(effect => effect.type === StatusEffectType.HASTE);
+      expect(!endedHaste, 'an ended surge became a haste effect');
+
+      const corrupt = JSON.parse(JSON.stringify(loaded));
+      corrupt.statusEffects.effects[0][1][0].stacks = 0;
+      localStorage.setItem('meditativeidle_run_save', JSON.stringify({ schemaVersion: 6, savedAt: 0, data: corrupt }));
+      try {
+        expect(SaveGame.load() === null, 'loaded a save with a zero-stack effect');
+      } finally {
+        localStorage.clear();
+      }
+      return 'a running surge became 1.5s of haste, an ended one was dropped, a bad effect was rejected';
+    }
+  },
+  {
+    name: 'aura reduction',
+    run: () => {
+      const manager = new StatusEffectManager(() => 0);
+      const target = { x: 0, y: 0 };
+      const reduction = () => manager.getAbilityAuraReduction('target', target);
+      const aura = (ownerId: string, type: string, position: { x: number; y: number }): AuraEffect => {
+        const definition = getStressorDefinition(type).auras[0];
+        return {
+          sourceId: `${ownerId}-aura-0`, ownerId, sourceType: type, effectType: StatusEffectType.DAMAGE_REDUCTION,
+          targets: definition.targets, value: definition.value, cap: definition.cap, radius: definition.radius, position
+        };
+      };
+
+      manager.applyAura(aura('fatigue', 'fatigue', { x: 100, y: 0 }));
+      manager.applyAura(aura('doubt-1', 'self_doubt', { x: 0, y: 100 }));
+      const partial = reduction();
+      expect(Math.abs(partial - 0.15) < 1e-9, `Fatigue and Self-Doubt in range removed ${partial}, expected 0.15`);
+
+      manager.applyAura(aura('doubt-2', 'self_doubt', { x: -100, y: 0 }));
+      manager.applyAura(aura('doubt-3', 'self_doubt', { x: 0, y: -100 }));
+      const cap = getStressorDefinition('self_doubt').auras[0].cap;
+      expect(reduction() === cap, `four auras in range removed ${reduction()}, expected the ${cap} cap`);
+
+      manager.applyAura(aura('target', 'self_doubt', target));
+      manager.applyAura(aura('far', 'self_doubt', { x: 1000, y: 0 }));
+      manager.removeAurasOf('doubt-2');
+      manager.removeAurasOf('doubt-3');
+      expect(Math.abs(reduction() - 0.15) < 1e-9, `a stressor's own aura or one out of range counted: ${reduction()}`);
+      expect(manager.getAuraEffects('target', target).length === 0, 'ability auras reached a stressor as status effects');
+
+      const game = startAuraGame();
+      const owners = new Set(game.getSystemContext().getStatusEffectManager().getAuras().map(registered => registered.ownerId));
+      const projecting = game.getStressors().filter(stressor => getStressorDefinition(stressor.type).auras.length > 0);
+      expect(projecting.length > 0 && projecting.every(stressor => owners.has(stressor.id)), 'live stressors did not register their auras');
+      game.getSystemContext().damageStressor(projecting[0].id, projecting[0].health, 'breathe');
+      run(game, GameConfig.SIMULATION_STEP);
+      const remaining = game.getSystemContext().getStatusEffectManager().getAuras();
+      expect(remaining.every(registered => registered.ownerId !== projecting[0].id), 'a resolved stressor kept its aura');
+      return `auras add to ${partial.toFixed(2)}, cap at ${cap}, skip their owner, and leave with a resolved stressor`;
+    }
+  },
+  {
+    name: 'aura save migration',
+    run: () => {
+      const game = startAuraGame();
+      const snapshot = JSON.parse(JSON.stringify(game.createSnapshot()));
+      expect(snapshot.statusEffects.auras.length > 0, 'no auras to migrate');
+      for (const aura of snapshot.statusEffects.auras) {
+        delete aura.ownerId;
+        delete aura.targets;
+        delete aura.cap;
+      }
+      localStorage.setItem('meditativeidle_run_save', JSON.stringify({ schemaVersion: 6, savedAt: 0, data: { ...snapshot, version: 6 } }));
+
+      let loaded: GameSnapshot | null;
+      try {
+        loaded = SaveGame.load();
+      } finally {
+        localStorage.clear();
+      }
+      expect(loaded !== null, 'the version 6 save could not be loaded');
+      expect(loaded.statusEffects.auras.every(aura => aura.ownerId === aura.sourceId && aura.targets === 'stressors' && aura.cap === aura.value),
+        'version 6 auras were not given their source as owner, stressor targets and their value as cap');
+
+      const resumed = new Game(FIELD_SIZE, FIELD_SIZE);
+      expect(resumed.restoreSnapshot(loaded), 'the migrated snapshot could not be restored');
+      run(resumed, GameConfig.SIMULATION_STEP);
+      const live = new Set(resumed.getStressors().map(stressor => stressor.id));
+      expect(resumed.getSystemContext().getStatusEffectManager().getAuras().every(aura => live.has(aura.ownerId)),
+        'migrated auras without a live owner were kept');
+      return `${loaded.statusEffects.auras.length} version 6 auras migrated and re-registered on resume`;
+    }
+  }
+];
+
+/**
+ * A game whose first wave is a cluster of stressors that project auras
+ */
+function startAuraGame(): Game {
+  const curve = GameConfig.SPAWN_CURVE;
+  GameConfig.SPAWN_CURVE = 'instant';
+  loadWaveScripts([{ wave: 1, groups: [
+    { type: 'self_doubt', count: 3, side: 'top', formation: 'cluster' },
+    { type: 'fatigue', count: 1, side: 'top', formation: 'cluster' }
+  ] }]);
+  try {
+    const game = new Game(FIELD_SIZE, FIELD_SIZE, 1);
+    while (game.getState().wave < 1) {
+      game.update(GameConfig.SIMULATION_STEP);
+    }
+    run(game, GameConfig.SIMULATION_STEP);
+    return game;
+  } finally {
+    loadWaveScripts(defaultScripts);
+    GameConfig.SPAWN_CURVE = curve;
+  }
+}
+
+/**
+ * A game with at least two live stressors, all with DURABLE_HEALTH
+ */
+function startDurableGame(): Game {
+  const game = new Game(FIELD_SIZE, FIELD_SIZE, 1);
+  while (game.getStressors().length < 2) {
+    game.update(GameConfig.SIMULATION_STEP);
+  }
+  for (const stressor of game.getStressors()) {
+    stressor.health = DURABLE_HEALTH;
+    stressor.maxHealth = DURABLE_HEALTH;
+  }
+  return game;
+}
+
+function recordDotDamage(game: Game): Array<{ stressorId: string; damage: number; tick: number }> {
+  const damage: Array<{ stressorId: string; damage: number; tick: number }> = [];
+  game.getEvents().on('stressorDamaged', (event) => {
+    if (event.source === 'dev_dot') damage.push({ stressorId: event.stressorId, damage: event.damage, tick: game.getTick() });
+  });
+  return damage;
+}
+
+function run(game: Game, seconds: number): void {
+  for (let step = 0; step < Math.round(seconds / GameConfig.SIMULATION_STEP); step++) {
+    game.update(GameConfig.SIMULATION_STEP);
+  }
+}
@@ -0,0 +1,108 @@
+import { getAllStressorDefinitions, getStressorDefinition, loadStressorDefinitions, parseStressorDefinitions } from '../../config/StressorDefinitions';
+import defaultDefinitions from '../../config/stressors.json';
+import defaultScripts from '../../config/waves.json';
+import { loadWaveScripts } from '../../config/WaveScripts';
+import { Game } from '../../Game';
+import { GameConfig } from '../../GameConfig';
+import { Check, expect } from './Check';
+
+const SPLITTING_TYPE = 'overwhelm';
+const SPLITTING_COUNT = 16;
+
+/**
+ * Stressor definitions: the built-in stressors.json must validate, each kind
+ * of bad definition must be rejected with a message naming the problem, and
+ * splitting stressors must respect their generation limit and the fragment cap.
+ */
+export const stressorChecks: Check[] = [
+  {
+    name: 'stressor definitions',
+    run: () => {
+      const builtIn = parseStressorDefinitions(structuredClone(defaultDefinitions));
+      expect(builtIn.length === getAllStressorDefinitions().length, 'the registry does not hold the built-in definitions');
+
+      const invalid: Array<[string, (definition: Record<string, unknown>) => void]> = [
+        ['id must be a non-empty string', definition => { definition.id = ''; }],
+        ['unlockWave', definition => { definition.unlockWave = -1; }],
+        ['positive speed', definition => { definition.stats = { speed: 0, health: 1, insight: 1 }; }],
+        ['movement must be one of', definition => { definition.movement = 'teleport'; }],
+        ['interaction ability', definition => { definition.interactions = [{ ability: 'shout' }]; }],
+        ['resistance must be between 0 and 1', definition => { definition.interactions = [{ ability: 'breathe', resistance: 1.5 }]; }],
+        ['aura effect', definition => { definition.auras = [{ effect: 'calm', targets: 'stressors', radius: 100, value: 0.1, cap: 0.1 }]; }],
+        ['aura targets', definition => { definition.auras = [{ effect: 'haste', targets: 'player', radius: 100, value: 0.1, cap: 0.1 }]; }],
+        ['abilities auras must be damage_reduction', definition => { definition.auras = [{ effect: 'haste', targets: 'abilities', radius: 100, value: 0.1, cap: 0.1 }]; }],
+        ['value and cap must be at most 1', definition => { definition.auras = [{ effect: 'damage_reduction', targets: 'abilities', radius: 100, value: 0.1, cap: 1.5 }]; }],
+        ['palette', definition => { (definition.palette as Record<string, unknown>).low = 'blue'; }],
+        ['fluid', definition => { definition.fluid = {}; }]
+      ];
+      for (const [problem, corrupt] of invalid) {
+        const definitions = structuredClone(defaultDefinitions) as unknown as Array<Record<string, unknown>>;
+        corrupt(definitions[0]);
+        const message = rejection(definitions);
+        expect(message?.includes(problem) === true, `expected a "${problem}" rejection, got: ${message ?? 'accepted'}`);
+      }
+
+      const duplicated = structuredClone(defaultDefinitions);
+      duplicated.push(duplicated[0]);
+      expect(rejection(duplicated)?.includes('duplicate id') === true, 'accepted a duplicate id');
+      expect(rejection([])?.includes('non-empty array') === true, 'accepted an empty definition list');
+
+      const before = getAllStressorDefinitions();
+      expect(rejection(null, loadStressorDefinitions) !== null && getAllStressorDefinitions() === before,
+        'a rejected load replaced the registry');
+      expect(getStressorDefinition('no_such_stressor') === before[0], 'an unknown id did not fall back to the first definition');
+      return `${builtIn.length} built-in definitions valid, ${invalid.length + 2} bad sets rejected`;
+    }
+  },
+  {
+    name: 'split caps',
+    run: () => {
+      const split = getStressorDefinition(SPLITTING_TYPE).onResolve.find(effect => effect.effect === 'split');
+      expect(split !== undefined, `${SPLITTING_TYPE} has no split effect`);
+
+      const curve = GameConfig.SPAWN_CURVE;
+      GameConfig.SPAWN_CURVE = 'instant';
+      loadWaveScripts([{ wave: 1, groups: [{ type: SPLITTING_TYPE, count: SPLITTING_COUNT }] }]);
+      try {
+        const game = new Game(1920, 1080, 1);
+        while (game.getState().wave < 1) {
+          game.update(GameConfig.SIMULATION_STEP);
+        }
+        const parents = game.getStressors();
+        expect(parents.length === SPLITTING_COUNT, `wave 1 spawned ${parents.length} of ${SPLITTING_COUNT} stressors`);
+
+        const resolveAll = () => {
+          for (const stressor of game.getStressors()) {
+            game.getSystemContext().damageStressor(stressor.id, stressor.health, 'breathe');
+          }
+          game.update(GameConfig.SIMULATION_STEP);
+        };
+        const fragments = () => game.getStressors().filter(stressor => (stressor.generation ?? 0) > 0);
+
+        resolveAll();
+        const firstSplit = fragments();
+        const expected = Math.min(SPLITTING_COUNT * split.count, GameConfig.STRESSOR_FRAGMENT_CAP);
+        expect(firstSplit.length === expected, `${SPLITTING_COUNT} splits left ${firstSplit.length} fragments, expected ${expected}`);
+        expect(firstSplit.every(fragment => fragment.generation === 1 && fragment.maxHealth === parents[0].maxHealth * split.health),
+          'fragments are not first-generation at the split health');
+
+        resolveAll();
+        expect(fragments().length === 0, `fragments split past generation ${split.maxGeneration}`);
+        return `${SPLITTING_COUNT} ${SPLITTING_TYPE} split into ${firstSplit.length} fragments (cap ${GameConfig.STRESSOR_FRAGMENT_CAP}), none past generation ${split.maxGeneration}`;
+      } finally {
+        loadWaveScripts(defaultScripts);
+        GameConfig.SPAWN_CURVE = curve;
+      }
+    }
+  }
+];
+
+/** The error a parse throws, or null if it accepts the data */
+function rejection(data: unknown, parse: (data: unknown) => unknown = parseStressorDefinitions): string | null {
+  try {
+    parse(data);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
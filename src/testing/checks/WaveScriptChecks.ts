@@ -0,0 +1,80 @@
+import defaultScripts from '../../config/waves.json';
+import { loadWaveScripts, parseWaveScripts } from '../../config/WaveScripts';
+import { Game } from '../../Game';
+import { GameConfig } from '../../GameConfig';
+import { Check, expect } from './Check';
+
+const TEST_SCRIPT = [
+  { wave: 1, groups: [
+    { type: 'intrusive_thought', count: 2 },
+    { type: 'time_pressure', count: 1, side: 'top', delay: 2, formation: 'line' }
+  ] }
+];
+
+/**
+ * Wave scripts: the built-in waves.json must validate, bad scripts must be
+ * rejected with a message naming the problem, and a scripted wave must spawn
+ * its groups (delayed ones late) instead of the procedural formula.
+ */
+export const waveScriptChecks: Check[] = [
+  {
+    name: 'wave script validation',
+    run: () => {
+      const builtIn = parseWaveScripts(structuredClone(defaultScripts));
+
+      const invalid: Array<[string, unknown]> = [
+        ['expected an array', { wave: 1 }],
+        ['wave number of 1 or more', [{ wave: 0, groups: [{ type: 'intrusive_thought', count: 1 }] }]],
+        ['scripted more than once', [TEST_SCRIPT[0], TEST_SCRIPT[0]]],
+        ['groups must be a non-empty array', [{ wave: 1, groups: [] }]],
+        ['unknown stressor type', [{ wave: 1, groups: [{ type: 'dread', count: 1 }] }]],
+        ['count must be a whole number', [{ wave: 1, groups: [{ type: 'intrusive_thought', count: 1.5 }] }]],
+        ['side must be one of', [{ wave: 1, groups: [{ type: 'intrusive_thought', count: 1, side: 'middle' }] }]],
+        ['delay must be a non-negative', [{ wave: 1, groups: [{ type: 'intrusive_thought', count: 1, delay: -1 }] }]],
+        ['formation must be one of', [{ wave: 1, groups: [{ type: 'intrusive_thought', count: 1, formation: 'spiral' }] }]]
+      ];
+      for (const [problem, scripts] of invalid) {
+        const message = rejection(scripts);
+        expect(message?.includes(problem) === true, `expected a "${problem}" rejection, got: ${message ?? 'accepted'}`);
+      }
+      return `${builtIn.length} built-in waves valid, ${invalid.length} bad scripts rejected`;
+    }
+  },
+  {
+    name: 'scripted wave spawns',
+    run: () => {
+      const spawns: Array<{ type: string; time: number }> = [];
+      const curve = GameConfig.SPAWN_CURVE;
+      GameConfig.SPAWN_CURVE = 'instant'; // Only authored delays, no spreading
+      loadWaveScripts(TEST_SCRIPT);
+      try {
+        const game = new Game(1920, 1080, 1);
+        game.getEvents().on('stressorSpawned', ({ stressor }) => {
+          if (game.getState().wave === 1) spawns.push({ type: stressor.type, time: game.getSimulationTime() });
+        });
+        for (let time = 0; time < 3; time += GameConfig.SIMULATION_STEP) {
+          game.update(GameConfig.SIMULATION_STEP);
+        }
+      } finally {
+        loadWaveScripts(defaultScripts);
+        GameConfig.SPAWN_CURVE = curve;
+      }
+
+      const immediate = spawns.filter(spawn => spawn.time < 2).map(spawn => spawn.type);
+      const delayed = spawns.filter(spawn => spawn.time >= 2).map(spawn => spawn.type);
+      expect(immediate.join() === 'intrusive_thought,intrusive_thought', `wave 1 opened with ${immediate.join() || 'nothing'}`);
+      expect(delayed.join() === 'time_pressure', `the delayed group spawned ${delayed.join() || 'nothing'} after 2s`);
+      return `wave 1 spawned ${immediate.length} at once and ${delayed.length} after its 2s delay`;
+    }
+  }
+];
+
+/** The error parsing throws, or null if it accepts the scripts */
+function rejection(data: unknown): string | null {
+  try {
+    parseWaveScripts(data);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Run comparison CLI - reports where two runs' simulation states diverge
+ *
+ * Usage: npm run test:compare -- <a.json> <b.json>
+ *
+ * Each file is a replay (exported in game with Shift+R) or test:balance JSON
+ * output recorded with --trace-interval. Recorded state traces are matched by
+ * seed and compared first: this catches a build that simulates differently from
+ * the one that made the recording, down to the tick and the state sections that
+ * differ. When both files are replays they are then re-simulated side by side
+ * with the current build, which names the exact fields at the first differing
+ * tick (comparing a replay with itself checks determinism).
+ *
+ * Exits 1 if any runs diverge, 2 if a file can't be read.
+ */
+import { readFileSync } from 'fs';
+import { TestHarness, BalanceSummary } from './TestHarness';
+import { Replay, parseReplay } from '../replay/Replay';
+import { StateTraceEntry, findTraceDivergence } from '../replay/StateHash';
+import { isRecord } from '../utils/VersionedStorage';
+
+const MAX_REPORTED_FIELDS = 20;
+
+interface RunFile {
+  replay?: Replay;
+  traces: Map<number, StateTraceEntry[]>; // seed -> recorded trace
+}
+
+function loadRunFile(path: string): RunFile {
+  const json = readFileSync(path, 'utf8');
+  const data: unknown = JSON.parse(json);
+
+  if (isRecord(data) && Array.isArray(data.results)) {
+    const summary = data as unknown as BalanceSummary;
+    const traces = new Map<number, StateTraceEntry[]>();
+    for (const result of summary.results) {
+      if (result.stateTrace) traces.set(result.seed, result.stateTrace);
+    }
+    if (traces.size === 0) {
+      throw new Error(`${path} has no state traces (run test:balance with --trace-interval)`);
+    }
+    return { traces };
+  }
+
+  const replay = parseReplay(json);
+  return { replay, traces: new Map([[replay.seed, replay.checkpoints]]) };
+}
+
+/**
+ * Compare recorded traces seed by seed. Returns true if any diverge.
+ */
+function compareTraces(a: RunFile, b: RunFile): boolean {
+  let diverged = false;
+  let compared = 0;
+
+  for (const [seed, traceA] of a.traces) {
+    const traceB = b.traces.get(seed);
+    if (!traceB) continue;
+    compared++;
+
+    const divergence = findTraceDivergence(traceA, traceB);
+    if (!divergence) {
+      console.log(`seed ${seed}: recorded traces match`);
+      continue;
+    }
+
+    diverged = true;
+    const since = divergence.lastMatchingTick === null ? 'no earlier tick in common' : `last match at tick ${divergence.lastMatchingTick}`;
+    console.log(`seed ${seed}: recorded traces diverge at tick ${divergence.tick} (${since}) in ${divergence.sections.join(', ')}`);
+  }
+
+  if (compared === 0) {
+    console.log('No seeds in common between the recorded traces');
+  }
+  return diverged;
+}
+
+/**
+ * Re-simulate two replays in lockstep. Returns true if they diverge.
+ */
+function compareSimulations(a: Replay, b: Replay): boolean {
+  const divergence = new TestHarness().compareReplays(a, b);
+  if (!divergence) {
+    console.log('Re-simulated replays match');
+    return false;
+  }
+
+  console.log(`Re-simulated replays diverge at tick ${divergence.tick}:`);
+  for (const { field, a: valueA, b: valueB } of divergence.differences.slice(0, MAX_REPORTED_FIELDS)) {
+    console.log(`  ${field}: ${String(valueA)} != ${String(valueB)}`);
+  }
+  const hidden = divergence.differences.length - MAX_REPORTED_FIELDS;
+  if (hidden > 0) {
+    console.log(`  ... and ${hidden} more fields`);
+  }
+  return true;
+}
+
+function main(): void {
+  const paths = process.argv.slice(2);
+  if (paths.length !== 2) {
+    console.error('Usage: npm run test:compare -- <a.json> <b.json>');
+    process.exit(2);
+  }
+
+  let a: RunFile;
+  let b: RunFile;
+  try {
+    a = loadRunFile(paths[0]);
+    b = loadRunFile(paths[1]);
+  } catch (error) {
+    console.error('Failed to load runs:', error instanceof Error ? error.message : error);
+    process.exit(2);
+  }
+
+  let diverged = compareTraces(a, b);
+  if (a.replay && b.replay) {
+    try {
+      diverged = compareSimulations(a.replay, b.replay) || diverged;
+    } catch (error) {
+      console.error('Failed to re-simulate replays:', error instanceof Error ? error.message : error);
+      process.exit(2);
+    }
+  }
+
+  process.exit(diverged ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,110 @@
+/**
+ * Balance runner CLI - runs TestHarness across seeds in Node
+ *
+ * Usage: npm run test:balance -- [--runs 10] [--seed 1] [--waves 20]
+ *        [--format json|csv] [--out path] [--strict] [--trace-interval 30]
+ *
+ * Seeds are consecutive starting at --seed. Output goes to stdout unless --out
+ * is given; a one-line summary is always written to stderr. --strict exits
+ * non-zero when the wave 15 defeat target is missed. --trace-interval adds a
+ * state hash trace to each JSON result, for comparing builds with test:compare.
+ */
+import { writeFileSync } from 'fs';
+import { TestHarness } from './TestHarness';
+
+interface CliOptions {
+  runs: number;
+  seed: number;
+  waves: number;
+  format: 'json' | 'csv';
+  out?: string;
+  strict: boolean;
+  traceInterval?: number;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { runs: 10, seed: 1, waves: 20, format: 'json', strict: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = argv[i + 1];
+    switch (arg) {
+      case '--runs':
+        options.runs = parsePositiveInt(arg, next);
+        i++;
+        break;
+      case '--seed':
+        options.seed = parsePositiveInt(arg, next);
+        i++;
+        break;
+      case '--waves':
+        options.waves = parsePositiveInt(arg, next);
+        i++;
+        break;
+      case '--format':
+        if (next !== 'json' && next !== 'csv') {
+          throw new Error(`--format must be json or csv, got: ${next}`);
+        }
+        options.format = next;
+        i++;
+        break;
+      case '--out':
+        if (!next) throw new Error('--out requires a path');
+        options.out = next;
+        i++;
+        break;
+      case '--strict':
+        options.strict = true;
+        break;
+      case '--trace-interval':
+        options.traceInterval = parsePositiveInt(arg, next);
+        i++;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+function parsePositiveInt(flag: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${flag} requires a positive integer, got: ${value}`);
+  }
+  return parsed;
+}
+
+function main(): void {
+  let options: CliOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error('Failed to parse arguments:', error instanceof Error ? error.message : error);
+    process.exit(2);
+  }
+
+  const harness = new TestHarness();
+  const seeds = Array.from({ length: options.runs }, (_, i) => options.seed + i);
+  const summary = harness.runSeeds(seeds, { waveCap: options.waves, traceInterval: options.traceInterval });
+
+  const output = options.format === 'csv' ? harness.toCSV(summary) : harness.toJSON(summary);
+  if (options.out) {
+    writeFileSync(options.out, output);
+  } else {
+    process.stdout.write(output);
+  }
+
+  console.error(
+    `${summary.runs} runs: wave ${summary.waveReached.min}-${summary.waveReached.max} ` +
+    `(mean ${summary.waveReached.mean.toFixed(1)}), game over ${(summary.gameOverRate * 100).toFixed(0)}%, ` +
+    `wave 15 target ${summary.wave15TargetMet ? 'met' : 'MISSED'}`
+  );
+
+  if (options.strict && !summary.wave15TargetMet) {
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,129 @@
+/**
+ * Checks CLI - runs the npm test checks headlessly in Node
+ *
+ * Usage: npm test -- [--seed 1] [--seeds 2] [--only name]
+ *
+ * Checks that play whole runs use the consecutive seeds starting at --seed.
+ * --only runs just the checks whose name contains the given text. Exits 1 if
+ * any check fails, 2 on bad arguments. Node has no localStorage, so saves go to
+ * an in-memory one for the duration of the run.
+ */
+import { Check } from './checks/Check';
+import { abilityChecks } from './checks/AbilityChecks';
+import { insightChecks } from './checks/InsightChecks';
+import { offlineChecks } from './checks/OfflineChecks';
+import { replayChecks } from './checks/ReplayChecks';
+import { runChecks } from './checks/RunChecks';
+import { saveChecks } from './checks/SaveChecks';
+import { spawnChecks } from './checks/SpawnChecks';
+import { statusEffectChecks } from './checks/StatusEffectChecks';
+import { stressorChecks } from './checks/StressorChecks';
+import { waveScriptChecks } from './checks/WaveScriptChecks';
+
+const CHECKS: Check[] = [
+  ...insightChecks,
+  ...abilityChecks,
+  ...runChecks,
+  ...saveChecks,
+  ...offlineChecks,
+  ...replayChecks,
+  ...stressorChecks,
+  ...waveScriptChecks,
+  ...spawnChecks,
+  ...statusEffectChecks
+];
+
+interface CliOptions {
+  seed: number;
+  seeds: number;
+  only?: string;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { seed: 1, seeds: 2 };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = argv[i + 1];
+    switch (arg) {
+      case '--seed':
+        options.seed = parsePositiveInt(arg, next);
+        i++;
+        break;
+      case '--seeds':
+        options.seeds = parsePositiveInt(arg, next);
+        i++;
+        break;
+      case '--only':
+        if (!next) throw new Error('--only requires a check name');
+        options.only = next;
+        i++;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+function parsePositiveInt(flag: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${flag} requires a positive integer, got: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Minimal in-memory Storage for SaveGame
+ */
+function installMemoryStorage(): void {
+  if (typeof globalThis.localStorage !== 'undefined') return;
+
+  const items = new Map<string, string>();
+  const storage: Storage = {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    setItem: (key, value) => {
+      items.set(key, String(value));
+    }
+  };
+  globalThis.localStorage = storage;
+}
+
+function main(): void {
+  let options: CliOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error('Failed to parse arguments:', error instanceof Error ? error.message : error);
+    process.exit(2);
+  }
+
+  installMemoryStorage();
+  const seeds = Array.from({ length: options.seeds }, (_, i) => options.seed + i);
+  const checks = CHECKS.filter(check => !options.only || check.name.includes(options.only));
+  let failed = 0;
+
+  for (const check of checks) {
+    try {
+      console.log(`PASS ${check.name}: ${check.run({ seeds })}`);
+    } catch (error) {
+      failed++;
+      console.log(`FAIL ${check.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  console.log(`${checks.length - failed}/${checks.length} checks passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -34,6 +34,10 @@ export interface GameState {
   randomSeed: number;
 }
 
+/**
+ * Ids of the built-in stressor definitions (config/stressors.json).
+ * Stressor types are data-driven, so other ids can appear at runtime.
+ */
 export enum StressorType {
   IntrusiveThought = 'intrusive_thought',
   TimePressure = 'time_pressure',
@@ -45,9 +49,18 @@ export enum StressorType {
   Impulse = 'impulse' // Keep for backward compatibility
 }
 
+/**
+ * Stressor scheduled to arrive later in the wave (shown as an edge telegraph before it spawns)
+ */
+export interface PendingSpawn {
+  type: string;
+  position: Vector2; // Spawn point on the playfield edge
+  spawnTime: number; // Simulation time (seconds) it spawns at
+}
+
 export interface Stressor {
   id: string;
-  type: StressorType;
+  type: string; // Stressor definition id (see config/stressors.json)
   position: Vector2;
   velocity: Vector2;
   health: number;
@@ -58,12 +71,15 @@ export interface Stressor {
   orbitRadius?: number;
   orbitAngle?: number;
   dashCooldown?: number;
-  spawnTime: number;
+  spawnTime: number; // Simulation time (seconds) when spawned
   debuffs?: Record<string, number>; // Multiple debuff types (slow, vulnerability, damage_reduction) - Reserved for future use
-  retreatState?: {
-    startTime: number;
-    endTime: number;
+  retreatState?: { // Self-Doubt's current or next retreat
+    startTime: number; // Simulation time (seconds)
+    endTime: number; // Simulation time (seconds)
   };
+  mechanicIntensity?: number; // 0-1 strength of the type's special mechanic last tick (for rendering)
+  generation?: number; // Split depth: fragments of an original stressor are 1 (absent = 0)
+  speedScale?: number; // Extra speed multiplier (split fragments)
 }
 
 export interface AbilityBranch {
@@ -102,6 +118,58 @@ export interface AbilityState {
   align: AbilityUpgrade;
 }
 
+export interface PendingBranchChoice {
+  ability: keyof AbilityState;
+  level: number; // Branch point level awaiting a choice
+  branches: AbilityBranch[];
+}
+
+export interface UpgradePurchase {
+  ability: keyof AbilityState;
+  level: number; // Level after the purchase
+  cost: number; // Insight spent
+}
+
+/**
+ * A player decision that changes the simulation (recorded with its tick for replays)
+ */
+export type GameCommand =
+  | { type: 'setPace'; pace: number }
+  | { type: 'purchaseUpgrade'; ability: keyof AbilityState }
+  | { type: 'chooseBranch'; ability: keyof AbilityState; branchId: string };
+
+export interface ResolvedStressor {
+  stressor: Stressor; // Snapshot at the moment of resolution
+  source: string; // Ability that dealt the final damage ('breathe', 'exhale', ...)
+}
+
+export interface RunSummary {
+  duration: number; // Simulated seconds survived
+  wave: number;
+  insight: number; // Total insight earned (ignores spending)
+}
+
+export interface OfflineProgressSummary {
+  awayTime: number; // Wall-clock seconds since the run was saved
+  creditedTime: number; // Seconds of offline progress credited (awayTime capped)
+  startWave: number;
+  endWave: number; // Wave the run continues from
+  wavesSurvived: number;
+  insightEarned: number;
+  serenityChange: number; // Negative when stressors reached the center
+  stalled: boolean; // Progress stopped early because serenity fell to the offline floor
+}
+
+export interface InsightAward {
+  source: 'stressor' | 'wave' | 'offline';
+  amount: number;
+  wave: number;
+  stressorType?: string;
+  resolvedBy?: string; // Stressor awards only: ability that dealt the final damage
+  position?: Vector2; // Relative to center, for stressor awards
+  earlyClear?: boolean; // Wave awards only: wave cleared before the timer expired
+}
+
 export interface TelemetryData {
   timestamp: number;
   serenity: number;
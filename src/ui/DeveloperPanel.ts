@@ -3,7 +3,7 @@
  * 
  * Provides a slide-in panel for adjusting game settings during development.
  * Features: search/filter, scrollable content, keyboard navigation, collapsible sections,
- * presets, and type-safe config updates.
+ * presets, type-safe config updates, and rewind scrubbing (when a RewindBuffer is attached).
  */
 
 import { FluidUIElement } from '../rendering/ui/fluid/FluidUIElement';
@@ -17,6 +17,8 @@ import { BooleanControl } from './dev/controls/BooleanControl';
 import { ScrollableContainer } from './dev/ScrollableContainer';
 import { ConfigUpdater } from './dev/ConfigUpdater';
 import { DevPanelPresets } from './dev/DevPanelPresets';
+import { RewindBuffer } from '../replay/RewindBuffer';
+import { GameConfig } from '../GameConfig';
 
 type SettingChangeCallback = (key: string, value: number | boolean) => void;
 
@@ -27,6 +29,7 @@ export class DeveloperPanel extends FluidUIElement {
   private viewportHeight: number = 0;
   private currentMousePos: Vector2 | null = null;
   private onSettingChange?: SettingChangeCallback;
+  private rewindBuffer: RewindBuffer | null = null;
 
   // Registry and categories
   private categories: SettingCategory[] = [];
@@ -46,7 +49,8 @@ export class DeveloperPanel extends FluidUIElement {
   private scrollContainer: ScrollableContainer = new ScrollableContainer();
 
   // Layout constants
-  private readonly headerHeight = 60;
+  private readonly titleHeight = 60;
+  private readonly rewindHeight = 110;
   private readonly searchHeight = 40;
   private readonly categoryHeaderHeight = 25;
   private readonly settingHeight = 40;
@@ -74,6 +78,20 @@ export class DeveloperPanel extends FluidUIElement {
     this.onSettingChange = callback;
   }
 
+  /**
+   * Attach the rewind buffer to scrub from the panel (dev builds only).
+   */
+  setRewindBuffer(buffer: RewindBuffer | null): void {
+    this.rewindBuffer = buffer;
+  }
+
+  /**
+   * Title, plus the rewind section when a buffer is attached
+   */
+  private get headerHeight(): number {
+    return this.titleHeight + (this.rewindBuffer ? this.rewindHeight : 0);
+  }
+
   /**
    * Set dimensions for hit testing.
    */
@@ -252,6 +270,21 @@ export class DeveloperPanel extends FluidUIElement {
       return false;
     }
 
+    // Rewind: , . one snapshot, < > one second, R resume from the selection
+    if (this.rewindBuffer && !ctrl) {
+      if (key === ',' || key === '.') {
+        this.rewindBuffer.scrub(key === ',' ? -1 : 1);
+        return true;
+      } else if (key === '<' || key === '>') {
+        const steps = Math.max(1, Math.round(GameConfig.REWIND_CAPTURE_RATE));
+        this.rewindBuffer.scrub(key === '<' ? -steps : steps);
+        return true;
+      } else if ((key === 'r' || key === 'R') && this.rewindBuffer.isScrubbing()) {
+        this.rewindBuffer.resume();
+        return true;
+      }
+    }
+
     // Keyboard navigation
     if (key === 'ArrowDown') {
       this.navigateNext();
@@ -547,6 +580,10 @@ export class DeveloperPanel extends FluidUIElement {
     ctx.textAlign = 'left';
     ctx.fillText('Developer Panel', panelX + 20, panelY + 35);
 
+    if (this.rewindBuffer) {
+      this.renderRewindSection(ctx, panelX, panelY + this.titleHeight, this.rewindBuffer);
+    }
+
     // Draw search box
     this.searchInputY = panelY + this.headerHeight;
     this.renderSearchBox(ctx, panelX, this.searchInputY, time);
@@ -609,6 +646,53 @@ export class DeveloperPanel extends FluidUIElement {
     ctx.restore();
   }
 
+  /**
+   * Render the rewind controls and an inspector for the selected snapshot.
+   */
+  private renderRewindSection(ctx: CanvasRenderingContext2D, x: number, y: number, buffer: RewindBuffer): void {
+    const left = x + this.padding;
+    const selection = buffer.getSelection();
+
+    ctx.textAlign = 'left';
+    ctx.fillStyle = 'rgba(135, 206, 235, 0.8)';
+    ctx.font = 'bold 14px sans-serif';
+    ctx.fillText('⏪ Rewind', left, y + 14);
+
+    ctx.font = '12px sans-serif';
+    if (!selection) {
+      const seconds = buffer.getCount() / GameConfig.REWIND_CAPTURE_RATE;
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+      ctx.fillText(`${buffer.getCount()} snapshots (${seconds.toFixed(1)} s) captured`, left, y + 34);
+    } else {
+      const { snapshot } = selection;
+      const state = snapshot.state;
+      const effectCount = snapshot.statusEffects.effects.reduce((sum, [, effects]) => sum + effects.length, 0);
+      const cooldowns = Object.entries(snapshot.abilities)
+        .filter(([field, value]) => field.endsWith('Cooldown') && typeof value === 'number' && value > 0)
+        .map(([field, value]) => `${field.replace('Cooldown', '')} ${(value as number).toFixed(1)}s`);
+
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+      ctx.fillText(
+        `Snapshot ${selection.index + 1}/${selection.count} · tick ${snapshot.tick} · -${selection.secondsBehind.toFixed(2)} s`,
+        left, y + 34
+      );
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+      ctx.fillText(
+        `Wave ${state.wave} · Serenity ${state.serenity.toFixed(1)}/${state.maxSerenity} · Insight ${Math.floor(state.insight)}`,
+        left, y + 50
+      );
+      ctx.fillText(
+        `Stressors ${snapshot.stressors.stressors.length} · Effects ${effectCount} · Auras ${snapshot.statusEffects.auras.length}`,
+        left, y + 66
+      );
+      ctx.fillText(`Cooldowns: ${cooldowns.length > 0 ? cooldowns.join(', ') : 'none'}`, left, y + 82, this.panelWidth - this.padding * 2);
+    }
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.font = 'italic 11px sans-serif';
+    ctx.fillText(', . scrub · < > 1 s · R resume from here', left, y + 100);
+  }
+
   /**
    * Render search input box.
    */
@@ -7,6 +7,9 @@
 
 import { GameConfig } from '../../GameConfig';
 
+// Boolean settings GameConfig stores as 0/1
+const DEBUG_TOGGLES = ['DEBUG_SHOW_RINGS', 'DEBUG_SHOW_AURAS'];
+
 export class ConfigUpdater {
   private static validators: Map<string, (value: unknown) => boolean> = new Map();
   private static defaults: Map<string, unknown> = new Map();
@@ -63,6 +66,10 @@ export class ConfigUpdater {
     this.registerDefault('RECENTER_BASE_SLOW', GameConfig.RECENTER_BASE_SLOW);
     this.registerValidator('RECENTER_SLOW_SCALING', (v) => typeof v === 'number' && v >= 0 && v <= 0.2);
     this.registerDefault('RECENTER_SLOW_SCALING', GameConfig.RECENTER_SLOW_SCALING);
+    this.registerValidator('RECENTER_MARK_VULNERABILITY', (v) => typeof v === 'number' && v >= 1 && v <= 2);
+    this.registerDefault('RECENTER_MARK_VULNERABILITY', GameConfig.RECENTER_MARK_VULNERABILITY);
+    this.registerValidator('RECENTER_MARK_DURATION', (v) => typeof v === 'number' && v >= 0.5 && v <= 15);
+    this.registerDefault('RECENTER_MARK_DURATION', GameConfig.RECENTER_MARK_DURATION);
 
     // Ability settings - Affirm
     this.registerValidator('AFFIRM_DURATION', (v) => typeof v === 'number' && v >= 1 && v <= 30);
@@ -117,6 +124,10 @@ export class ConfigUpdater {
     this.registerDefault('MANTRA_DAMAGE_SCALING', GameConfig.MANTRA_DAMAGE_SCALING);
     this.registerValidator('MANTRA_DURATION_SCALING', (v) => typeof v === 'number' && v >= 0 && v <= 2);
     this.registerDefault('MANTRA_DURATION_SCALING', GameConfig.MANTRA_DURATION_SCALING);
+    this.registerValidator('MANTRA_EXPOSE_VULNERABILITY', (v) => typeof v === 'number' && v >= 1 && v <= 3);
+    this.registerDefault('MANTRA_EXPOSE_VULNERABILITY', GameConfig.MANTRA_EXPOSE_VULNERABILITY);
+    this.registerValidator('MANTRA_EXPOSE_DURATION', (v) => typeof v === 'number' && v >= 0 && v <= 10);
+    this.registerDefault('MANTRA_EXPOSE_DURATION', GameConfig.MANTRA_EXPOSE_DURATION);
 
     // Ability settings - Ground
     this.registerValidator('GROUND_COOLDOWN', (v) => typeof v === 'number' && v >= 1 && v <= 60);
@@ -175,16 +186,28 @@ export class ConfigUpdater {
     this.registerDefault('STRESSOR_BASE_SPEED', GameConfig.STRESSOR_BASE_SPEED);
     this.registerValidator('STRESSOR_SPEED_MULTIPLIER', (v) => typeof v === 'number' && v >= 1 && v <= 2);
     this.registerDefault('STRESSOR_SPEED_MULTIPLIER', GameConfig.STRESSOR_SPEED_MULTIPLIER);
+    this.registerValidator('STRESSOR_FRAGMENT_CAP', (v) => typeof v === 'number' && v >= 0 && v <= 100);
+    this.registerDefault('STRESSOR_FRAGMENT_CAP', GameConfig.STRESSOR_FRAGMENT_CAP);
 
     // Wave settings
     this.registerValidator('WAVE_DURATION', (v) => typeof v === 'number' && v >= 10 && v <= 300);
     this.registerDefault('WAVE_DURATION', GameConfig.WAVE_DURATION);
     this.registerValidator('WAVE_15_TARGET_DEFEAT', (v) => typeof v === 'boolean');
     this.registerDefault('WAVE_15_TARGET_DEFEAT', GameConfig.WAVE_15_TARGET_DEFEAT);
+    this.registerValidator('WAVE_SCRIPTS_ENABLED', (v) => typeof v === 'boolean');
+    this.registerDefault('WAVE_SCRIPTS_ENABLED', GameConfig.WAVE_SCRIPTS_ENABLED);
+    this.registerValidator('SPAWN_WINDOW', (v) => typeof v === 'number' && v >= 0 && v <= 60);
+    this.registerDefault('SPAWN_WINDOW', GameConfig.SPAWN_WINDOW);
+    this.registerValidator('SPAWN_PULSE_COUNT', (v) => typeof v === 'number' && v >= 1 && v <= 10);
+    this.registerDefault('SPAWN_PULSE_COUNT', GameConfig.SPAWN_PULSE_COUNT);
+    this.registerValidator('SPAWN_TELEGRAPH_TIME', (v) => typeof v === 'number' && v >= 0 && v <= 5);
+    this.registerDefault('SPAWN_TELEGRAPH_TIME', GameConfig.SPAWN_TELEGRAPH_TIME);
 
     // Debug settings
     this.registerValidator('DEBUG_SHOW_RINGS', (v) => typeof v === 'boolean');
     this.registerDefault('DEBUG_SHOW_RINGS', GameConfig.DEBUG_SHOW_RINGS === 1);
+    this.registerValidator('DEBUG_SHOW_AURAS', (v) => typeof v === 'boolean');
+    this.registerDefault('DEBUG_SHOW_AURAS', GameConfig.DEBUG_SHOW_AURAS === 1);
 
     this.initialized = true;
   }
@@ -213,8 +236,8 @@ export class ConfigUpdater {
     const finalKey = keys[keys.length - 1];
     if (!(finalKey in target)) return false;
 
-    // Special handling for DEBUG_SHOW_RINGS (stored as 0/1 in GameConfig)
-    if (key === 'DEBUG_SHOW_RINGS' && typeof value === 'boolean') {
+    // Special handling for debug toggles (stored as 0/1 in GameConfig)
+    if (DEBUG_TOGGLES.includes(key) && typeof value === 'boolean') {
       (GameConfig as any)[finalKey] = value ? 1 : 0;
     } else {
       target[finalKey] = value;
@@ -231,6 +254,45 @@ export class ConfigUpdater {
     return this.defaults.get(key);
   }
 
+  /**
+   * Get the current value of a setting (debug toggles as booleans, like their defaults).
+   */
+  static getValue(key: string): unknown {
+    let target: any = GameConfig;
+    for (const k of key.split('.')) {
+      if (!(k in target)) return undefined;
+      target = target[k];
+    }
+    return DEBUG_TOGGLES.includes(key) ? target === 1 : target;
+  }
+
+  /**
+   * Get every setting whose current value differs from its default.
+   */
+  static getOverrides(): Record<string, unknown> {
+    if (!this.initialized) this.initialize();
+
+    const overrides: Record<string, unknown> = {};
+    for (const [key, defaultValue] of this.defaults.entries()) {
+      const value = this.getValue(key);
+      if (value !== defaultValue) {
+        overrides[key] = value;
+      }
+    }
+    return overrides;
+  }
+
+  /**
+   * Reset all settings to defaults, then apply the given overrides.
+   * Returns the keys that were rejected.
+   */
+  static applyOverrides(overrides: Record<string, unknown>): string[] {
+    this.reset();
+    return Object.entries(overrides)
+      .filter(([key, value]) => !this.update(key, value))
+      .map(([key]) => key);
+  }
+
   /**
    * Reset a setting or all settings to defaults.
    */
@@ -2,16 +2,25 @@
  * Developer Panel Presets Manager
  * 
  * Handles saving, loading, and managing presets for developer panel settings.
- * Uses localStorage for persistence.
+ * Persisted through VersionedStore (schema 1 wraps the original unversioned map).
  */
 
+import { VersionedStore, isRecord, isFiniteNumber } from '../../utils/VersionedStorage';
+
 export interface PresetData {
   settings: Record<string, unknown>;
   timestamp: number;
 }
 
 export class DevPanelPresets {
-  private static STORAGE_KEY = 'dev_panel_presets';
+  private static store = new VersionedStore<Record<string, PresetData>>({
+    key: 'dev_panel_presets',
+    schemaVersion: 1,
+    migrations: {
+      0: (data) => data // Unversioned presets already match schema 1
+    },
+    validate: validatePresets
+  });
 
   /**
    * Save current settings as a preset.
@@ -22,11 +31,7 @@ export class DevPanelPresets {
       settings,
       timestamp: Date.now()
     };
-    try {
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(presets));
-    } catch (error) {
-      console.error('Failed to save preset:', error);
-    }
+    this.store.save(presets);
   }
 
   /**
@@ -43,11 +48,7 @@ export class DevPanelPresets {
   static delete(name: string): void {
     const presets = this.loadAll();
     delete presets[name];
-    try {
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(presets));
-    } catch (error) {
-      console.error('Failed to delete preset:', error);
-    }
+    this.store.save(presets);
   }
 
   /**
@@ -74,24 +75,24 @@ export class DevPanelPresets {
    * Load all presets from storage.
    */
   private static loadAll(): Record<string, PresetData> {
-    try {
-      const stored = localStorage.getItem(this.STORAGE_KEY);
-      return stored ? JSON.parse(stored) : {};
-    } catch (error) {
-      console.error('Failed to load presets:', error);
-      return {};
-    }
+    return this.store.load() ?? {};
   }
 
   /**
    * Clear all presets.
    */
   static clearAll(): void {
-    try {
-      localStorage.removeItem(this.STORAGE_KEY);
-    } catch (error) {
-      console.error('Failed to clear presets:', error);
+    this.store.clear();
+  }
+}
+
+function validatePresets(data: unknown): string | null {
+  if (!isRecord(data)) return 'presets must be an object';
+  for (const [name, preset] of Object.entries(data)) {
+    if (!isRecord(preset) || !isRecord(preset.settings) || !isFiniteNumber(preset.timestamp)) {
+      return `preset "${name}" must have settings and a timestamp`;
     }
   }
+  return null;
 }
 
@@ -313,6 +313,30 @@ export class DevPanelRegistry {
         max: 0.2,
         step: 0.01,
         unit: ''
+      },
+      {
+        key: 'RECENTER_MARK_VULNERABILITY',
+        label: 'Recenter: Mark Vulnerability',
+        category: 'abilities',
+        description: 'Damage taken multiplier on marked stressors',
+        type: 'number',
+        value: GameConfig.RECENTER_MARK_VULNERABILITY,
+        min: 1,
+        max: 2,
+        step: 0.05,
+        unit: ''
+      },
+      {
+        key: 'RECENTER_MARK_DURATION',
+        label: 'Recenter: Mark Duration',
+        category: 'abilities',
+        description: 'Seconds a mark lasts',
+        type: 'number',
+        value: GameConfig.RECENTER_MARK_DURATION,
+        min: 0.5,
+        max: 15,
+        step: 0.5,
+        unit: 's'
       }
     );
 
@@ -605,6 +629,30 @@ export class DevPanelRegistry {
         max: 2,
         step: 0.1,
         unit: 's'
+      },
+      {
+        key: 'MANTRA_EXPOSE_VULNERABILITY',
+        label: 'Mantra: Expose Vulnerability',
+        category: 'abilities',
+        description: 'Damage taken multiplier on the exposed target',
+        type: 'number',
+        value: GameConfig.MANTRA_EXPOSE_VULNERABILITY,
+        min: 1,
+        max: 3,
+        step: 0.05,
+        unit: ''
+      },
+      {
+        key: 'MANTRA_EXPOSE_DURATION',
+        label: 'Mantra: Expose Duration',
+        category: 'abilities',
+        description: 'Seconds exposure lingers',
+        type: 'number',
+        value: GameConfig.MANTRA_EXPOSE_DURATION,
+        min: 0,
+        max: 10,
+        step: 0.5,
+        unit: 's'
       }
     );
 
@@ -929,6 +977,18 @@ export class DevPanelRegistry {
         max: 2,
         step: 0.05,
         unit: ''
+      },
+      {
+        key: 'STRESSOR_FRAGMENT_CAP',
+        label: 'Fragment Cap',
+        category: 'stressors',
+        description: 'Most split fragments alive at once',
+        type: 'number',
+        value: GameConfig.STRESSOR_FRAGMENT_CAP,
+        min: 0,
+        max: 100,
+        step: 1,
+        unit: ''
       }
     ];
 
@@ -961,6 +1021,50 @@ export class DevPanelRegistry {
         description: 'Must be defeated by wave 15',
         type: 'boolean',
         value: GameConfig.WAVE_15_TARGET_DEFEAT
+      },
+      {
+        key: 'WAVE_SCRIPTS_ENABLED',
+        label: 'Wave Scripts',
+        category: 'wave',
+        description: 'Use authored wave scripts where scripted (applies from the next wave)',
+        type: 'boolean',
+        value: GameConfig.WAVE_SCRIPTS_ENABLED
+      },
+      {
+        key: 'SPAWN_WINDOW',
+        label: 'Spawn Window',
+        category: 'wave',
+        description: 'Seconds from wave start over which stressors arrive',
+        type: 'number',
+        value: GameConfig.SPAWN_WINDOW,
+        min: 0,
+        max: 60,
+        step: 1,
+        unit: 's'
+      },
+      {
+        key: 'SPAWN_PULSE_COUNT',
+        label: 'Spawn Pulses',
+        category: 'wave',
+        description: 'Bursts per wave for the pulses spawn curve',
+        type: 'number',
+        value: GameConfig.SPAWN_PULSE_COUNT,
+        min: 1,
+        max: 10,
+        step: 1,
+        unit: ''
+      },
+      {
+        key: 'SPAWN_TELEGRAPH_TIME',
+        label: 'Spawn Telegraph',
+        category: 'wave',
+        description: 'Seconds an edge telegraph shows before a stressor arrives',
+        type: 'number',
+        value: GameConfig.SPAWN_TELEGRAPH_TIME,
+        min: 0,
+        max: 5,
+        step: 0.25,
+        unit: 's'
       }
     ];
 
@@ -981,6 +1085,14 @@ export class DevPanelRegistry {
         description: 'Show concentric debug rings every 50px',
         type: 'boolean',
         value: GameConfig.DEBUG_SHOW_RINGS === 1
+      },
+      {
+        key: 'DEBUG_SHOW_AURAS',
+        label: 'Show Aura Radii',
+        category: 'debug',
+        description: 'Outline each stressor aura\'s radius',
+        type: 'boolean',
+        value: GameConfig.DEBUG_SHOW_AURAS === 1
       }
     ];
 
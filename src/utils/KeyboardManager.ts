@@ -143,8 +143,14 @@ export class KeyboardManager {
    * Find handlers that match the event.
    */
   private findMatchingHandlers(event: KeyboardEvent, normalizedKey: string): KeyboardHandler[] {
+    // Only consider handlers active in the current context, so a context-specific
+    // key handler doesn't suppress another context's catch-all handler
+    const activeHandlers = this.handlers.filter(handler => {
+      return !handler.context || handler.context === this.activeContext;
+    });
+    
     // First, find all handlers that match the key specifically (not catch-all)
-    const specificHandlers = this.handlers.filter(handler => {
+    const specificHandlers = activeHandlers.filter(handler => {
       if (!handler.key) {
         return false; // Skip catch-all handlers for now
       }
@@ -162,7 +168,7 @@ export class KeyboardManager {
     }
     
     // If no specific handlers, include catch-all handlers
-    return this.handlers.filter(handler => {
+    return activeHandlers.filter(handler => {
       // If no key specified, it's a catch-all handler
       if (!handler.key) {
         return true; // Include catch-all handlers when no specific handlers exist
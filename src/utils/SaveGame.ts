@@ -0,0 +1,252 @@
+import { GameSnapshot, GAME_SNAPSHOT_VERSION } from '../Game';
+import { GameConfig } from '../GameConfig';
+import { hasStressorDefinition } from '../config/StressorDefinitions';
+import { RefreshRule, StatusEffectType } from '../systems/effects/StatusEffect';
+import { VersionedStore, isRecord, isFiniteNumber } from './VersionedStorage';
+
+/**
+ * Run Save Manager
+ *
+ * Persists the current run as a single Game snapshot so it can be resumed
+ * after a reload. The storage schema version tracks GAME_SNAPSHOT_VERSION, so a
+ * snapshot format change registers its migration here.
+ */
+export class SaveGame {
+  private static store = new VersionedStore<GameSnapshot>({
+    key: 'meditativeidle_run_save',
+    schemaVersion: GAME_SNAPSHOT_VERSION,
+    migrations: {
+      0: (data) => data, // Unversioned saves hold a version 1 snapshot as-is
+      1: migrateV1Snapshot,
+      2: migrateV2Snapshot,
+      3: migrateV3Snapshot,
+      4: migrateV4Snapshot,
+      5: migrateV5Snapshot,
+      6: migrateV6Snapshot
+    },
+    validate: validateSnapshot
+  });
+
+  /**
+   * Save a snapshot, replacing any previous save.
+   */
+  static save(snapshot: GameSnapshot): void {
+    this.store.save(snapshot);
+  }
+
+  /**
+   * Load the saved snapshot, or null if there is none or it can't be resumed.
+   */
+  static load(): GameSnapshot | null {
+    const snapshot = this.store.load();
+    return snapshot && !snapshot.state.gameOver ? snapshot : null;
+  }
+
+  /**
+   * Delete the saved run.
+   */
+  static clear(): void {
+    this.store.clear();
+  }
+}
+
+/**
+ * Version 2 replaced the ability system's one-step trigger flags with game events
+ */
+function migrateV1Snapshot(data: unknown): unknown {
+  if (!isRecord(data) || !isRecord(data.abilities)) return data;
+  const abilities = { ...data.abilities };
+  for (const flag of ['justReachedPeak', 'affirmJustActivated', 'releaseJustTriggered', 'releaseTriggeredThisFrame', 'alignPhaseJustChanged']) {
+    delete abilities[flag];
+  }
+  return { ...data, version: 2, abilities };
+}
+
+/**
+ * Version 3 added the simulation tick counter (recovered from the fixed-step clock)
+ */
+function migrateV2Snapshot(data: unknown): unknown {
+  if (!isRecord(data) || !isFiniteNumber(data.simulationTime)) return data;
+  return { ...data, version: 3, tick: Math.round(data.simulationTime / GameConfig.SIMULATION_STEP) };
+}
+
+/**
+ * Version 4 added scripted stressor groups waiting to spawn (none in older saves)
+ */
+function migrateV3Snapshot(data: unknown): unknown {
+  if (!isRecord(data) || !isRecord(data.stressors)) return data;
+  return { ...data, version: 4, stressors: { ...data.stressors, pendingGroups: [] } };
+}
+
+/**
+ * Version 5 schedules individual stressors instead of scripted groups. Groups
+ * still waiting in a version 4 save had no spawn points yet, so they are dropped.
+ */
+function migrateV4Snapshot(data: unknown): unknown {
+  if (!isRecord(data) || !isRecord(data.stressors)) return data;
+  const stressors: Record<string, unknown> = { ...data.stressors, pendingSpawns: [] };
+  delete stressors.pendingGroups;
+  return { ...data, version: 5, stressors };
+}
+
+/**
+ * Version 6 moved surges from a field on each stressor to haste status effects.
+ * A surge still running becomes a haste effect for the time it has left (only
+ * Impulse surged in version 5).
+ */
+function migrateV5Snapshot(data: unknown): unknown {
+  if (!isRecord(data) || !isRecord(data.stressors) || !Array.isArray(data.stressors.stressors) ||
+      !isRecord(data.statusEffects) || !Array.isArray(data.statusEffects.effects) || !isFiniteNumber(data.simulationTime)) {
+    return data;
+  }
+  const now = data.simulationTime;
+  const effects = new Map<unknown, unknown[]>();
+  for (const entry of data.statusEffects.effects) {
+    if (Array.isArray(entry) && Array.isArray(entry[1])) {
+      effects.set(entry[0], [...entry[1]]);
+    }
+  }
+
+  const stressors = data.stressors.stressors.map((stressor: unknown) => {
+    if (!isRecord(stressor) || stressor.surge === undefined) return stressor;
+    const { surge, ...rest } = stressor;
+    if (isRecord(surge) && isFiniteNumber(surge.multiplier) && isFiniteNumber(surge.endTime) && surge.endTime > now) {
+      const targetEffects = effects.get(stressor.id) ?? [];
+      targetEffects.push({
+        id: `surge-impulse-${String(stressor.id)}`,
+        type: 'haste',
+        source: 'impulse_surge',
+        value: surge.multiplier,
+        duration: surge.endTime - now,
+        startTime: now,
+        stackingRule: 'strongest_wins',
+        refreshRule: 'refresh'
+      });
+      effects.set(stressor.id, targetEffects);
+    }
+    return rest;
+  });
+
+  return {
+    ...data,
+    version: 6,
+    stressors: { ...data.stressors, stressors },
+    statusEffects: { ...data.statusEffects, effects: Array.from(effects.entries()) }
+  };
+}
+
+/**
+ * Version 7 gave auras an owner, targets and a cap: an old aura is owned by its
+ * source and affects stressors, capped at its own value. StressorSystem
+ * re-registers live stressors' auras from their definitions on the next tick
+ * and drops any without a live owner.
+ */
+function migrateV6Snapshot(data: unknown): unknown {
+  if (!isRecord(data) || !isRecord(data.statusEffects) || !Array.isArray(data.statusEffects.auras)) return data;
+  const auras = data.statusEffects.auras.map((aura: unknown) => isRecord(aura) && aura.ownerId === undefined
+    ? { ...aura, ownerId: aura.sourceId, targets: 'stressors', cap: aura.value }
+    : aura);
+  return { ...data, version: 7, statusEffects: { ...data.statusEffects, auras } };
+}
+
+function validateSnapshot(data: unknown): string | null {
+  if (!isRecord(data)) return 'snapshot must be an object';
+  if (data.version !== GAME_SNAPSHOT_VERSION) return `snapshot version ${String(data.version)} is not ${GAME_SNAPSHOT_VERSION}`;
+
+  const { playfield, state, stressors, abilities, abilityEffects, statusEffects, insight } = data;
+  if (!isRecord(playfield) || !isFiniteNumber(playfield.width) || !isFiniteNumber(playfield.height)) {
+    return 'playfield size is missing';
+  }
+  if (!isRecord(state)) return 'game state is missing';
+  for (const field of ['serenity', 'maxSerenity', 'insight', 'wave', 'waveTimer', 'pace', 'randomSeed']) {
+    if (!isFiniteNumber(state[field])) return `game state ${field} must be a number`;
+  }
+  if (!isFiniteNumber(data.simulationTime) || !isFiniteNumber(data.tick) || !isFiniteNumber(data.stepAccumulator) || !isFiniteNumber(data.randomState)) {
+    return 'simulation clock or random state is missing';
+  }
+
+  if (!isRecord(stressors) || !Array.isArray(stressors.stressors) || !isFiniteNumber(stressors.nextStressorId) || !Array.isArray(stressors.pendingSpawns)) {
+    return 'stressors are missing';
+  }
+  for (const stressor of stressors.stressors) {
+    if (!isRecord(stressor) || typeof stressor.id !== 'string') return 'stressor without an id';
+    if (typeof stressor.type !== 'string' || !hasStressorDefinition(stressor.type)) {
+      return `stressor ${stressor.id} has unknown type ${String(stressor.type)}`;
+    }
+    if (!isRecord(stressor.position) || !isFiniteNumber(stressor.position.x) || !isFiniteNumber(stressor.position.y)) {
+      return `stressor ${stressor.id} has no position`;
+    }
+  }
+
+  if (!isRecord(abilities) || !isRecord(abilities.abilities)) return 'abilities are missing';
+  for (const [name, upgrade] of Object.entries(abilities.abilities)) {
+    if (!isRecord(upgrade) || !isFiniteNumber(upgrade.level) || !Array.isArray(upgrade.chosenBranches)) {
+      return `ability ${name} must have a level and chosen branches`;
+    }
+  }
+
+  if (!isRecord(abilityEffects) || !Array.isArray(abilityEffects.breatheLingerUntil) || !Array.isArray(abilityEffects.breatheExecuteRolled)) {
+    return 'ability effect state is missing';
+  }
+  if (!isRecord(statusEffects) || !Array.isArray(statusEffects.effects) || !Array.isArray(statusEffects.auras)) {
+    return 'status effects are missing';
+  }
+  for (const entry of statusEffects.effects) {
+    if (!Array.isArray(entry) || typeof entry[0] !== 'string' || !Array.isArray(entry[1])) {
+      return 'status effects must be listed by target id';
+    }
+    for (const effect of entry[1]) {
+      const problem = validateStatusEffect(effect);
+      if (problem) return problem;
+    }
+  }
+  for (const aura of statusEffects.auras) {
+    const problem = validateAura(aura);
+    if (problem) return problem;
+  }
+  if (!isRecord(insight) || !isFiniteNumber(insight.totalEarned)) return 'insight totals are missing';
+
+  return null;
+}
+
+function validateStatusEffect(effect: unknown): string | null {
+  if (!isRecord(effect) || typeof effect.id !== 'string') return 'status effect without an id';
+  if (!Object.values(StatusEffectType).includes(effect.type as StatusEffectType)) {
+    return `status effect ${effect.id} has unknown type ${String(effect.type)}`;
+  }
+  if (!isFiniteNumber(effect.value) || !isFiniteNumber(effect.startTime)) {
+    return `status effect ${effect.id} needs a value and start time`;
+  }
+  if (effect.refreshRule !== undefined && !Object.values(RefreshRule).includes(effect.refreshRule as RefreshRule)) {
+    return `status effect ${effect.id} has unknown refresh rule ${String(effect.refreshRule)}`;
+  }
+  for (const field of ['stacks', 'maxStacks']) {
+    if (effect[field] !== undefined && !(Number.isInteger(effect[field]) && (effect[field] as number) >= 1)) {
+      return `status effect ${effect.id} ${field} must be a whole number of 1 or more`;
+    }
+  }
+  if (effect.tickInterval !== undefined && !(isFiniteNumber(effect.tickInterval) && effect.tickInterval > 0)) {
+    return `status effect ${effect.id} tick interval must be positive`;
+  }
+  return null;
+}
+
+function validateAura(aura: unknown): string | null {
+  if (!isRecord(aura) || typeof aura.sourceId !== 'string') return 'aura without a source id';
+  if (typeof aura.ownerId !== 'string' || typeof aura.sourceType !== 'string') {
+    return `aura ${aura.sourceId} needs an owner and a source type`;
+  }
+  if (!Object.values(StatusEffectType).includes(aura.effectType as StatusEffectType)) {
+    return `aura ${aura.sourceId} has unknown effect ${String(aura.effectType)}`;
+  }
+  if (aura.targets !== 'stressors' && aura.targets !== 'abilities') {
+    return `aura ${aura.sourceId} targets must be stressors or abilities`;
+  }
+  if (!isFiniteNumber(aura.value) || !isFiniteNumber(aura.cap) || !isFiniteNumber(aura.radius) || aura.radius < 0) {
+    return `aura ${aura.sourceId} needs a value, cap and radius`;
+  }
+  if (!isRecord(aura.position) || !isFiniteNumber(aura.position.x) || !isFiniteNumber(aura.position.y)) {
+    return `aura ${aura.sourceId} has no position`;
+  }
+  return null;
+}
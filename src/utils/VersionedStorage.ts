@@ -0,0 +1,187 @@
+/**
+ * Versioned Storage
+ *
+ * Shared localStorage layer for everything the game persists. Each record is
+ * stored in an envelope tagged with its schema version; older records are
+ * upgraded one version at a time through registered migrations and validated
+ * before use. Every write keeps the previous valid value under a backup key,
+ * and a record that fails to load falls back to that backup. The rejected
+ * record itself is set aside rather than discarded.
+ */
+
+export interface StorageEnvelope {
+  schemaVersion: number;
+  savedAt: number; // Wall-clock time of the write (ms since epoch)
+  data: unknown;
+}
+
+/**
+ * Upgrades data from one schema version to the next
+ */
+export type StorageMigration = (data: unknown) => unknown;
+
+export interface VersionedStoreOptions {
+  key: string; // localStorage key; the backup lives at `${key}_backup`, rejected records at `${key}_rejected`
+  schemaVersion: number; // Current schema version written by save()
+  migrations: Record<number, StorageMigration>; // Keyed by the version each migration upgrades from (0 = legacy data with no envelope)
+  validate: (data: unknown) => string | null; // Description of what's wrong, or null when valid
+}
+
+interface ParsedRecord<T> {
+  data: T;
+  migrated: boolean;
+}
+
+export class VersionedStore<T> {
+  private backupKey: string;
+
+  constructor(private options: VersionedStoreOptions) {
+    this.backupKey = `${options.key}_backup`;
+  }
+
+  /**
+   * Load, migrate and validate the stored value.
+   * Returns null if nothing is stored or neither the record nor its backup is usable.
+   */
+  load(): T | null {
+    const raw = this.readRaw(this.options.key);
+    if (raw === null) return null;
+
+    try {
+      const record = this.parse(raw);
+      if (record.migrated) {
+        // Persist the upgrade; the pre-migration value becomes the backup
+        this.save(record.data);
+      }
+      return record.data;
+    } catch (error) {
+      console.error(`Failed to load ${this.options.key}:`, error);
+      this.setAside(raw);
+    }
+
+    return this.loadBackup();
+  }
+
+  /**
+   * Write a value in the current schema, keeping the previous valid value as the backup.
+   */
+  save(data: T): void {
+    const envelope: StorageEnvelope = {
+      schemaVersion: this.options.schemaVersion,
+      savedAt: Date.now(),
+      data
+    };
+
+    try {
+      const previous = localStorage.getItem(this.options.key);
+      // Never let a corrupt record overwrite a good backup
+      if (previous !== null && this.isUsable(previous)) {
+        localStorage.setItem(this.backupKey, previous);
+      }
+      localStorage.setItem(this.options.key, JSON.stringify(envelope));
+    } catch (error) {
+      console.error(`Failed to save ${this.options.key}:`, error);
+    }
+  }
+
+  /**
+   * Remove the stored value. The backup is kept.
+   */
+  clear(): void {
+    try {
+      localStorage.removeItem(this.options.key);
+    } catch (error) {
+      console.error(`Failed to clear ${this.options.key}:`, error);
+    }
+  }
+
+  private loadBackup(): T | null {
+    const raw = this.readRaw(this.backupKey);
+    if (raw === null) return null;
+
+    try {
+      return this.parse(raw).data;
+    } catch (error) {
+      console.error(`Failed to load ${this.backupKey}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Keep a record that failed to load (e.g. written by a newer version) so the next save can't wipe it
+   */
+  private setAside(raw: string): void {
+    try {
+      localStorage.setItem(`${this.options.key}_rejected`, raw);
+    } catch (error) {
+      console.error(`Failed to set aside ${this.options.key}:`, error);
+    }
+  }
+
+  private readRaw(key: string): string | null {
+    try {
+      return localStorage.getItem(key);
+    } catch (error) {
+      console.error(`Failed to read ${key}:`, error);
+      return null;
+    }
+  }
+
+  private isUsable(raw: string): boolean {
+    try {
+      this.parse(raw);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Unwrap, migrate and validate a raw stored string. Throws with a description of the problem.
+   */
+  private parse(raw: string): ParsedRecord<T> {
+    const { key, schemaVersion, migrations, validate } = this.options;
+    const parsed: unknown = JSON.parse(raw);
+
+    // Values written before the envelope existed are schema version 0
+    let version = 0;
+    let data = parsed;
+    if (isEnvelope(parsed)) {
+      version = parsed.schemaVersion;
+      data = parsed.data;
+    }
+
+    if (version > schemaVersion) {
+      throw new Error(`${key} has schema version ${version}, newer than supported version ${schemaVersion}`);
+    }
+
+    const storedVersion = version;
+    while (version < schemaVersion) {
+      const migration = migrations[version];
+      if (!migration) {
+        throw new Error(`${key} has no migration from schema version ${version}`);
+      }
+      data = migration(data);
+      version++;
+    }
+
+    const problem = validate(data);
+    if (problem) {
+      throw new Error(`${key} is invalid: ${problem}`);
+    }
+
+    return { data: data as T, migrated: storedVersion !== schemaVersion };
+  }
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isEnvelope(value: unknown): value is StorageEnvelope {
+  return isRecord(value) && isFiniteNumber(value.schemaVersion) && 'data' in value;
+}
@@ -10,5 +10,11 @@ export const dev = {
   error: (...args: unknown[]) => {
     console.error(...args); // Always show errors
   },
+  /**
+   * True in dev builds (vite dev server); gates developer-only tooling
+   */
+  isEnabled: (): boolean => {
+    // @ts-ignore - Vite provides import.meta.env
+    return Boolean(import.meta.env?.DEV);
+  },
 };
-